@@ -4,16 +4,25 @@
 //
 // Requires the optional local model dependency:  npx smart-ai-cache setup
 // Run with:  npm run benchmark:semantic
+// ANN index size:  BENCH_ANN_SIZE=100000 npm run benchmark:semantic  (default 10000)
+// Plain-Redis LSH recall:  REDIS_URL=redis://localhost:6379 npm run benchmark:semantic
+//   (writes under the 'bench:vectors' prefix and deletes it afterwards)
 //
 import { performance } from 'perf_hooks';
 import {
   AIResponseCache,
+  HnswVectorStore,
   LocalEmbeddingProvider,
   MemoryVectorStore,
+  RedisVectorStore,
   cosineSimilarity,
 } from '../dist/index.js';
 
 const ITER = 200;
+const ANN_SIZE = Number(process.env.BENCH_ANN_SIZE) || 10000;
+const ANN_DIM = 384;
+const ANN_QUERIES = 200;
+const ANN_TOP_K = 10;
 
 function ms(n) {
   return `${n.toFixed(3)} ms`;
@@ -28,9 +37,102 @@ async function timeAvg(fn, iterations) {
   return (performance.now() - start) / iterations;
 }
 
+// Seeded, so every run indexes the same vectors.
+function seededRandom(seed) {
+  let state = seed;
+  return () => (state = (state * 16807) % 2147483647) / 2147483647;
+}
+
+// Clustered vectors: real embeddings bunch up by topic, uniform noise doesn't.
+function clusteredVectors(count, dim, random) {
+  const gaussian = () => Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+  const centres = Array.from({ length: 100 }, () => Array.from({ length: dim }, gaussian));
+  return Array.from({ length: count }, () => {
+    const centre = centres[Math.floor(random() * centres.length)];
+    return centre.map((x) => x + gaussian() * 0.6);
+  });
+}
+
+// HNSW vs the brute-force baseline: recall@K against the exact top-K, and latency.
+async function annBenchmark() {
+  const random = seededRandom(42);
+  const vectors = clusteredVectors(ANN_SIZE + ANN_QUERIES, ANN_DIM, random);
+  const queries = vectors.splice(ANN_SIZE);
+
+  const exact = new MemoryVectorStore();
+  for (let i = 0; i < ANN_SIZE; i++) await exact.add(`k${i}`, vectors[i]);
+  const truth = [];
+  const exactStart = performance.now();
+  for (const query of queries) truth.push(new Set((await exact.search(query, ANN_TOP_K)).map((r) => r.id)));
+  const exactMs = (performance.now() - exactStart) / queries.length;
+
+  const hnsw = new HnswVectorStore({ random });
+  const buildStart = performance.now();
+  for (let i = 0; i < ANN_SIZE; i++) await hnsw.add(`k${i}`, vectors[i]);
+  const buildMs = performance.now() - buildStart;
+
+  const rows = [];
+  for (const efSearch of [16, 64, 128]) {
+    hnsw.efSearch = efSearch;
+    let found = 0;
+    const start = performance.now();
+    for (const [i, query] of queries.entries()) {
+      found += (await hnsw.search(query, ANN_TOP_K)).filter((r) => truth[i].has(r.id)).length;
+    }
+    rows.push({ efSearch, ms: (performance.now() - start) / queries.length, recall: found / (queries.length * ANN_TOP_K) });
+  }
+  return { exactMs, buildMs, rows, vectors, queries, truth };
+}
+
+// RedisVectorStore's LSH buckets vs the same brute-force truth, on a live Redis.
+async function redisLshBenchmark({ vectors, queries, truth }) {
+  const url = new URL(process.env.REDIS_URL);
+  const redisOptions = { host: url.hostname, port: Number(url.port || 6379), password: url.password || undefined };
+  const configs = [
+    { label: 'LSH 4×8, float32', lsh: {}, encoding: 'float32' },
+    { label: 'LSH 8×8, float32', lsh: { tables: 8 }, encoding: 'float32' },
+    { label: 'LSH 4×8, int8', lsh: {}, encoding: 'int8' },
+  ];
+  const rows = [];
+  for (const { label, lsh, encoding } of configs) {
+    const store = new RedisVectorStore({ redisOptions, indexKey: 'bench:vectors', lsh, encoding });
+    await store.clear();
+    for (const [i, vector] of vectors.entries()) await store.add(`k${i}`, vector);
+    let found = 0;
+    const start = performance.now();
+    for (const [i, query] of queries.entries()) {
+      found += (await store.search(query, ANN_TOP_K)).filter((r) => truth[i].has(r.id)).length;
+    }
+    rows.push({ label, ms: (performance.now() - start) / queries.length, recall: found / (queries.length * ANN_TOP_K) });
+    await store.clear();
+    await store.disconnect();
+  }
+  return rows;
+}
+
 async function main() {
   console.log('Semantic vs non-semantic benchmark\n' + '='.repeat(50));
 
+  // --- Vector index: HNSW vs brute force (synthetic, no model needed) --------
+  const ann = await annBenchmark();
+  console.log(`\nVector index: ${ANN_SIZE} × ${ANN_DIM}-dim, top-${ANN_TOP_K}, ${ANN_QUERIES} queries`);
+  console.log(`  Brute force (MemoryVectorStore) : ${ms(ann.exactMs)} per search, recall 1.000 (baseline)`);
+  console.log(`  HNSW build (M=16, efC=200)      : ${(ann.buildMs / 1000).toFixed(1)} s`);
+  for (const row of ann.rows) {
+    console.log(
+      `  HNSW efSearch=${String(row.efSearch).padEnd(3)}               : ${ms(row.ms)} per search, recall ${row.recall.toFixed(3)}`
+    );
+  }
+
+  if (process.env.REDIS_URL) {
+    console.log(`\nPlain Redis (RedisVectorStore), same ${ANN_SIZE} vectors`);
+    for (const row of await redisLshBenchmark(ann)) {
+      console.log(`  ${row.label.padEnd(31)} : ${ms(row.ms)} per search, recall ${row.recall.toFixed(3)}`);
+    }
+  } else {
+    console.log('\nPlain Redis (RedisVectorStore): skipped, set REDIS_URL to measure LSH recall');
+  }
+
   // --- Non-semantic: exact-match hit (warm) ----------------------------------
   const exact = new AIResponseCache({ storage: 'memory' });
   const fixed = async () => ({ value: 'cached', cost: 0.01 });
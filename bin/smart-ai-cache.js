@@ -1,5 +1,8 @@
 #!/usr/bin/env node
 import { spawnSync } from 'node:child_process';
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
 
 const EMBEDDINGS_PKG = '@xenova/transformers';
 
@@ -22,12 +25,83 @@ function setup() {
   console.log("  const cache = new AIResponseCache({ semantic: { enabled: true } });\n");
 }
 
+function seconds(ms) {
+  return `${Math.round(ms / 1000)}s`;
+}
+
+function describeEntry({ entry, ageMs, ttlRemainingMs }) {
+  return ageMs === undefined ? entry : `${entry} (age ${seconds(ageMs)}, ttl left ${seconds(ttlRemainingMs)})`;
+}
+
+function printExplanation(result) {
+  console.log(`key:      ${result.key}`);
+  console.log(`mode:     ${result.mode}`);
+  console.log(`exact:    ${describeEntry(result.exact)}${result.inFlight ? ', provider call in flight' : ''}`);
+  console.log(`outcome:  ${result.outcome}`);
+  const semantic = result.semantic;
+  if (!semantic) {
+    console.log('semantic: off');
+    return;
+  }
+  console.log(`semantic: embedding ${JSON.stringify(semantic.embedText)} with ${semantic.embeddingProvider} (${semantic.context})`);
+  console.log(`          threshold ${semantic.threshold} (${semantic.thresholdSource}), route ${semantic.route}`);
+  console.log(`          scope ${semantic.scope.join(', ') || '(none)'}`);
+  console.log(`          guard ${semantic.guard ? semantic.guard.join(', ') : 'off'}`);
+  console.log(
+    `          verification ${semantic.verification ? `${semantic.verification.verifier} (recall ${semantic.recallThreshold}, minScore ${semantic.verification.minScore})` : 'off'}`
+  );
+  if (semantic.shadow) console.log('          shadow mode: a match is recorded, not served');
+  if (semantic.neighbours.length === 0) {
+    console.log('neighbours: none');
+    return;
+  }
+  console.log('neighbours:');
+  for (const neighbour of semantic.neighbours) {
+    const verdict = neighbour.rejected ?? 'would be served';
+    console.log(`  ${neighbour.score.toFixed(4)}  ${neighbour.key}  ${describeEntry(neighbour)}`);
+    if (neighbour.text !== undefined) console.log(`          ${JSON.stringify(neighbour.text)}`);
+    console.log(`          ${verdict}`);
+  }
+}
+
+async function explain(args) {
+  const json = args.includes('--json');
+  const configIndex = args.indexOf('--config');
+  const configPath = configIndex >= 0 ? args[configIndex + 1] : undefined;
+  const requestPath = args.find((arg, i) => !arg.startsWith('--') && (configIndex < 0 || i !== configIndex + 1));
+  if (!requestPath || (configIndex >= 0 && !configPath)) {
+    console.error('Usage: npx smart-ai-cache explain <request.json | -> [--config <module>] [--json]\n');
+    process.exit(1);
+  }
+
+  const options = JSON.parse(readFileSync(requestPath === '-' ? 0 : requestPath, 'utf8'));
+  const { AIResponseCache } = await import('../dist/index.js');
+  // The config module's default export is a CacheConfig, or a ready AIResponseCache.
+  const exported = configPath ? (await import(pathToFileURL(resolve(configPath)).href)).default : {};
+  const cache = typeof exported?.explain === 'function' ? exported : new AIResponseCache({ logger: 'silent', ...exported });
+  try {
+    const result = await cache.explain(options);
+    if (json) console.log(JSON.stringify(result, null, 2));
+    else printExplanation(result);
+  } finally {
+    await cache.disconnect();
+  }
+}
+
 function help() {
   console.log(`smart-ai-cache
 
 Usage:
   npx smart-ai-cache setup    Install the local embedding model (${EMBEDDINGS_PKG})
                               needed for semantic caching with the default provider.
+  npx smart-ai-cache explain <request.json | -> [--config <module>] [--json]
+                              Show how the cache would answer a call, without
+                              making it: its key, entry, embed text and
+                              semantic neighbours. The request holds wrap()
+                              options (provider, model, prompt, params). The
+                              config module default-exports a CacheConfig or
+                              an AIResponseCache; without it, an empty memory
+                              cache is used.
   npx smart-ai-cache help     Show this message.
 
 Semantic caching is OFF by default. The exact-match cache needs no setup.
@@ -40,6 +114,12 @@ switch (command) {
   case 'setup':
     setup();
     break;
+  case 'explain':
+    explain(process.argv.slice(3)).catch((error) => {
+      console.error(`explain failed: ${error?.message ?? error}`);
+      process.exit(1);
+    });
+    break;
   case 'help':
   case '--help':
   case '-h':
@@ -1,169 +1,202 @@
-import { CacheConfig, CacheEntry, CacheStats } from './types.js';
+import { randomUUID } from 'crypto';
+import {
+  CalibrationState,
+  CacheConfig,
+  CacheEntry,
+  CacheErrorOperation,
+  CacheEventMap,
+  CacheExplanation,
+  CacheHitType,
+  CacheMeta,
+  CacheMode,
+  CacheStats,
+  ExplainedEntryState,
+  ExplainedNeighbour,
+  ExplainOutcome,
+  FeedbackLabel,
+  LogFields,
+  SemanticContext,
+  SemanticExplanation,
+  SemanticScopeField,
+  SemanticVectorMeta,
+  ShadowReport,
+  StorageEventMap,
+  WrapOptions,
+  WrapResult,
+} from './types.js';
+import { CacheEventEmitter } from './events.js';
+import { resolveLogger } from '../utils/logger.js';
 import { DEFAULT_CACHE_CONFIG } from './constants.js';
 import { generateHashedKeyForPayload } from '../utils/key-generator.js';
+import { entryExpiresAt, isEntryFresh } from '../utils/expiry.js';
+import { computeRetryDelay, resolveRetryPolicy } from './retry.js';
+import { CacheAbortError, CacheMissError } from './errors.js';
+import { getScopedCacheMode } from './context.js';
+import { ThresholdCalibrator } from './calibration.js';
+import { SemanticContextKey, resolveSemanticContext } from './semantic-context.js';
+import { isDeterministicError, reconstructError, serializeError } from './negative-cache.js';
+import { abortableSleep, createCallerSignal, raceWithSignal, throwIfAborted } from '../utils/abort.js';
 import { StorageInterface } from '../storage/redis-storage.js';
 import { MemoryStorage } from '../storage/memory-storage.js';
 import { RedisStorage } from '../storage/redis-storage.js';
 import { EmbeddingProvider } from '../embeddings/embedding-provider.js';
 import { LocalEmbeddingProvider } from '../embeddings/local.js';
-import { VectorStore } from '../vector/vector-store.js';
+import { VectorFilter, VectorSearchResult, VectorStore, matchesFilter } from '../vector/vector-store.js';
 import { MemoryVectorStore } from '../vector/memory-vector-store.js';
 import { RedisVectorStore } from '../vector/redis-vector-store.js';
+import { cosineSimilarity } from '../vector/memory-vector-store.js';
+import { SemanticVerifier } from '../verification/verifier.js';
+import { CrossEncoderVerifier } from '../verification/cross-encoder.js';
+import { LEXICAL_GUARD_CHECKS, LexicalGuardCheck, lexicalMismatch } from '../verification/lexical-guard.js';
+import { ExactTextComparator, ResponseComparator } from '../shadow/comparator.js';
+import { ShadowRecorder } from '../shadow/report.js';
 
-export class AIResponseCache {
+const CACHE_MODES: CacheMode[] = ['default', 'bypass', 'refresh', 'read-only', 'write-only', 'cache-only'];
+
+type ProviderResult<T> = { value: T; tokenCount?: number; cost?: number };
+type ProviderFn<T> = (signal?: AbortSignal) => Promise<ProviderResult<T>>;
+/** What a flight settles with; `peerEntry` when another process's entry served it (distributed lock). */
+type FlightResult<T> = ProviderResult<T> & { peerEntry?: CacheEntry };
+/** A looked-up value with its provenance; wrapWithMeta() adds the latency. */
+type Served<T> = { value: T; meta: Omit<CacheMeta, 'latencyMs'> };
+
+/** A semantic query: its embedding and the scope metadata stored alongside it. */
+interface SemanticQuery {
+  embedding: number[];
+  meta: SemanticVectorMeta;
+}
+
+/** A vector search match whose entry is still live. */
+interface SemanticCandidate {
+  match: VectorSearchResult;
+  entry: CacheEntry;
+}
+
+/** A served semantic hit, kept until it is labelled through feedback() or pushed out. */
+interface SemanticOutcome {
+  requestId: string;
+  key: string;
+  matchedKey: string;
+  score: number;
+  route: string;
+  provider: string;
+  model: string;
+  /** When the matched entry expires; a block on this pairing can lapse then. */
+  expiresAt: number;
+}
+
+/** Semantic hits awaiting feedback; the oldest are dropped beyond this. */
+const MAX_PENDING_FEEDBACK = 1000;
+
+/** An in-flight call close enough to a query to share its result. */
+interface InFlightNeighbour {
+  call: InFlightCall;
+  score: number;
+}
+
+/** Shadow settings, resolved from `semantic.shadow`. */
+interface ResolvedShadow {
+  mode: 'shadow' | 'sample';
+  comparator: ResponseComparator;
+  sampleRate: number;
+  recorder: ShadowRecorder;
+}
+
+/** Verification settings for one call: the config merged with its per-call overrides. */
+interface ResolvedVerification {
+  verifier: SemanticVerifier;
+  recallThreshold: number;
+  minScore: number;
+}
+
+const DEFAULT_SEMANTIC_SCOPE: SemanticScopeField[] = ['provider', 'model', 'params', 'systemPrompt'];
+
+/**
+ * A provider call that is currently running for a cache miss. Concurrent
+ * misses for the same key (or, with the semantic tier on, a close enough
+ * paraphrase) await this instead of calling the provider again.
+ */
+interface InFlightCall {
+  key: string;
+  promise: Promise<FlightResult<any>>;
+  provider: string;
+  query: SemanticQuery | null;
+  /** Passed to the provider call; aborted only once every waiter has given up. */
+  controller: AbortController;
+  /** Callers currently awaiting `promise`. */
+  waiters: number;
+}
+
+export class AIResponseCache extends CacheEventEmitter<CacheEventMap> {
   private storage: StorageInterface;
   private config: Required<CacheConfig>;
   private stats: CacheStats;
   private debug: boolean;
+  private inFlight = new Map<string, InFlightCall>();
 
   // Semantic tier (only populated when config.semantic.enabled)
   private semanticEnabled = false;
   private embeddingProvider!: EmbeddingProvider;
   private vectorStore!: VectorStore;
   private semanticThreshold = 0.95;
-  private semanticTopK = 1;
+  private semanticTopK = 3;
   private semanticLogNearMisses = false;
+  private semanticScope = DEFAULT_SEMANTIC_SCOPE;
+  private semanticContext: SemanticContext = { strategy: 'last-message' };
+  private vectorSweepTimer?: ReturnType<typeof setInterval>;
+  private verifier?: SemanticVerifier;
+  private calibrator?: ThresholdCalibrator;
+  private outcomes = new Map<string, SemanticOutcome>();
+  /** requestId of the latest outcome per query key, so feedback() also takes a key. */
+  private outcomeIdsByKey = new Map<string, string>();
+  /** Pairings labelled bad, `${key}\n${matchedKey}` → when the block lapses. */
+  private blockedPairs = new Map<string, number>();
+  private shadow?: ResolvedShadow;
 
   constructor(config?: CacheConfig) {
+    super();
     this.config = this.validateAndMergeConfig(config);
     this.debug = this.config.debug;
+    this.logger = resolveLogger(this.config.logger, this.config.logSampling, '[AIResponseCache] ', this.debug);
     this.stats = this.resetStats();
     this.storage = this.initializeStorage();
+    this.forwardStorageEvents();
     this.initializeSemantic();
+    this.pruneVectorsOnRemoval();
   }
 
+  /**
+   * Return the cached response for this call, or run `fn` and cache its
+   * result. `fn` receives an AbortSignal to pass to the provider SDK; it
+   * fires only when every caller sharing that provider call has aborted.
+   */
   async wrap<T>(
-    fn: () => Promise<{ value: T; tokenCount?: number; cost?: number }>,
-    options: {
-      provider: string;
-      model: string;
-      cacheKey?: string;
-      ttl?: number;
-      prompt?: any;
-      params?: any;
-      /** Per-call semantic overrides (e.g. a looser/tighter threshold for one route). */
-      semantic?: { enabled?: boolean; threshold?: number };
-    }
+    fn: (signal?: AbortSignal) => Promise<{ value: T; tokenCount?: number; cost?: number }>,
+    options: WrapOptions
   ): Promise<T> {
-    this.validateWrapOptions(options);
-    
-    const startTime = Date.now();
-    this.stats.totalRequests++;
-    this.initializeProviderStats(options.provider);
-
-    const key = options.cacheKey || this.generateKey(options.provider, options.model, options.prompt, options.params);
-
-    // Try to get from cache with error handling
-    try {
-      const cachedEntry = await this.storage.get(key);
-      if (cachedEntry) {
-        this.logDebug(`Cache hit for key: ${key}`);
-        this.updateCacheHitStats(cachedEntry);
-        return cachedEntry.value;
-      }
-    } catch (error) {
-      this.logError('Cache get error:', error);
-      // Continue to API call on cache error
-    }
-
-    // Semantic tier — runs only on an exact miss, so the hot path stays
-    // sub-millisecond and pays no embedding cost. Embedding is computed once
-    // and reused for both the search here and the add() on a full miss.
-    let queryEmbedding: number[] | null = null;
-    const semanticOn = options.semantic?.enabled ?? this.semanticEnabled;
-    if (semanticOn && this.embeddingProvider && this.vectorStore) {
-      const text = this.extractEmbedText(options.prompt);
-      if (text) {
-        const threshold = options.semantic?.threshold ?? this.semanticThreshold;
-        try {
-          queryEmbedding = await this.embeddingProvider.embed(text);
-          const matches = await this.vectorStore.search(queryEmbedding, this.semanticTopK);
-          const top = matches[0];
-          if (top && top.score >= threshold) {
-            const entry = await this.storage.get(top.id);
-            if (entry) {
-              this.logDebug(`Semantic hit (score=${top.score.toFixed(4)}) for key: ${top.id}`);
-              this.updateSemanticHitStats(entry);
-              return entry.value;
-            }
-            // Vector pointed at an expired/evicted entry — fall through to miss.
-          } else if (top && this.semanticLogNearMisses) {
-            this.stats.nearMisses++;
-            this.logDebug(
-              `Semantic near-miss (score=${top.score.toFixed(4)} < threshold=${threshold}) for key: ${top.id}`
-            );
-          }
-        } catch (error) {
-          this.logError('Semantic lookup error:', error);
-          // Fall through to the normal miss path on any embedding/search error.
-        }
-      }
-    }
-
-    // Cache miss - call the original function with retry logic
-    this.stats.cacheMisses++;
-    this.stats.byProvider[options.provider].requests++;
-    this.updateHitRate();
-    
-    let result: { value: T; tokenCount?: number; cost?: number };
-    let attempt = 0;
-    const maxRetries = 3;
-    
-    while (attempt < maxRetries) {
-      try {
-        result = await fn();
-        break;
-      } catch (error) {
-        attempt++;
-        this.logError(`API call attempt ${attempt} failed:`, error);
-        
-        if (attempt >= maxRetries) {
-          this.logError('All API call attempts failed, throwing error');
-          throw error;
-        }
-        
-        // Exponential backoff (reduced for tests if debug mode)
-        const backoffMs = this.debug ? Math.pow(2, attempt) * 10 : Math.pow(2, attempt) * 1000;
-        await this.sleep(backoffMs);
-      }
-    }
-
-    const endTime = Date.now();
-    this.updateResponseTimeStats(endTime - startTime);
+    const { value } = await this.wrapWithMeta(fn, options);
+    return value;
+  }
 
-    const { value, tokenCount = 0, cost = 0 } = result!;
+  /**
+   * Like wrap(), but also report how the value was served: hit type, matched
+   * key, similarity score, entry age and remaining TTL, the original cost and
+   * the latency of this call.
+   */
+  async wrapWithMeta<T>(
+    fn: (signal?: AbortSignal) => Promise<{ value: T; tokenCount?: number; cost?: number }>,
+    options: WrapOptions
+  ): Promise<WrapResult<T>> {
+    this.validateWrapOptions(options);
 
-    // Try to store in cache with error handling
+    const startTime = Date.now();
+    const caller = createCallerSignal(options.signal, options.timeoutMs);
     try {
-      const newEntry: CacheEntry = {
-        key,
-        value,
-        timestamp: Date.now(),
-        ttl: options.ttl || this.config.ttl,
-        provider: options.provider,
-        model: options.model,
-        tokenCount,
-        cost,
-      };
-
-      await this.storage.set(key, newEntry);
-      this.logDebug(`Cache set for key: ${key}`);
-    } catch (error) {
-      this.logError('Cache set error:', error);
-      // Don't throw on cache set error, just log it
-    }
-
-    // Index the embedding so future paraphrases hit. The exact key is the
-    // vector id, so a later semantic hit maps straight back to this entry.
-    if (semanticOn && queryEmbedding && this.vectorStore) {
-      try {
-        await this.vectorStore.add(key, queryEmbedding);
-      } catch (error) {
-        this.logError('Vector store add error:', error);
-      }
+      const { value, meta } = await this.lookupOrCall(fn, options, caller.signal);
+      return { value, meta: { ...meta, latencyMs: Date.now() - startTime } };
+    } finally {
+      caller.dispose();
     }
-
-    return value;
   }
 
   getStats(): CacheStats {
@@ -176,7 +209,15 @@ export class AIResponseCache {
       cacheHits: 0,
       cacheMisses: 0,
       semanticHits: 0,
+      staleHits: 0,
+      earlyRefreshes: 0,
       nearMisses: 0,
+      coalescedRequests: 0,
+      distributedWaits: 0,
+      negativeHits: 0,
+      retries: 0,
+      verifierRejections: 0,
+      guardRejections: 0,
       hitRate: 0,
       totalCostSaved: 0,
       averageResponseTime: 0,
@@ -192,9 +233,12 @@ export class AIResponseCache {
       if (this.semanticEnabled && this.vectorStore) {
         await this.vectorStore.clear();
       }
+      this.outcomes.clear();
+      this.outcomeIdsByKey.clear();
+      this.blockedPairs.clear();
       this.logDebug('Cache cleared successfully');
     } catch (error) {
-      this.logError('Cache clear error:', error);
+      this.reportError('clear', 'Cache clear error:', error);
       throw error;
     }
   }
@@ -202,10 +246,12 @@ export class AIResponseCache {
   async delete(key: string): Promise<boolean> {
     try {
       const result = await this.storage.delete(key);
+      // Even with no entry left, a vector for this key would be an orphan.
+      await this.forgetVector(key);
       this.logDebug(`Cache delete for key: ${key}, result: ${result}`);
       return result;
     } catch (error) {
-      this.logError('Cache delete error:', error);
+      this.reportError('delete', 'Cache delete error:', error, { key });
       return false;
     }
   }
@@ -214,7 +260,7 @@ export class AIResponseCache {
     try {
       return await this.storage.has(key);
     } catch (error) {
-      this.logError('Cache has error:', error);
+      this.reportError('has', 'Cache has error:', error, { key });
       return false;
     }
   }
@@ -229,7 +275,7 @@ export class AIResponseCache {
     try {
       return await this.storage.size();
     } catch (error) {
-      this.logError('Cache size error:', error);
+      this.reportError('size', 'Cache size error:', error);
       return 0;
     }
   }
@@ -243,14 +289,34 @@ export class AIResponseCache {
     if (merged.maxSize <= 0) {
       throw new Error('Max size must be positive');
     }
-    if (!['memory', 'redis'].includes(merged.storage)) {
-      throw new Error('Storage must be either "memory" or "redis"');
+    if (typeof merged.storage !== 'object' && !['memory', 'redis'].includes(merged.storage)) {
+      throw new Error('Storage must be either "memory" or "redis", or a StorageInterface');
+    }
+    if (
+      merged.staleWhileRevalidate !== undefined &&
+      (typeof merged.staleWhileRevalidate !== 'number' || merged.staleWhileRevalidate < 0)
+    ) {
+      throw new Error('staleWhileRevalidate must be a non-negative number');
+    }
+    const context = merged.semantic?.context;
+    if (context?.strategy === 'window' && !(Number.isInteger(context.turns) && context.turns > 0)) {
+      throw new Error('semantic.context.turns must be a positive integer');
+    }
+    const shadow = merged.semantic?.shadow;
+    if (shadow?.sampleRate !== undefined && !(shadow.sampleRate >= 0 && shadow.sampleRate <= 1)) {
+      throw new Error('semantic.shadow.sampleRate must be between 0 and 1');
+    }
+    if (
+      shadow?.thresholds !== undefined &&
+      (shadow.thresholds.length === 0 || shadow.thresholds.some((threshold) => !(threshold >= 0 && threshold <= 1)))
+    ) {
+      throw new Error('semantic.shadow.thresholds must be a non-empty list of numbers between 0 and 1');
     }
     
     return merged;
   }
 
-  private validateWrapOptions(options: any): void {
+  private validateWrapOptions(options: WrapOptions): void {
     if (!options.provider || typeof options.provider !== 'string') {
       throw new Error('Provider is required and must be a string');
     }
@@ -260,22 +326,40 @@ export class AIResponseCache {
     if (options.ttl !== undefined && (typeof options.ttl !== 'number' || options.ttl <= 0)) {
       throw new Error('TTL must be a positive number');
     }
+    if (options.timeoutMs !== undefined && (typeof options.timeoutMs !== 'number' || options.timeoutMs <= 0)) {
+      throw new Error('timeoutMs must be a positive number');
+    }
+    if (options.mode !== undefined && !CACHE_MODES.includes(options.mode)) {
+      throw new Error(`mode must be one of: ${CACHE_MODES.join(', ')}`);
+    }
+    if (
+      options.staleWhileRevalidate !== undefined &&
+      (typeof options.staleWhileRevalidate !== 'number' || options.staleWhileRevalidate < 0)
+    ) {
+      throw new Error('staleWhileRevalidate must be a non-negative number');
+    }
   }
 
   private initializeStorage(): StorageInterface {
+    if (typeof this.config.storage === 'object') return this.config.storage;
     try {
       if (this.config.storage === 'redis') {
         if (!this.config.redisOptions || Object.keys(this.config.redisOptions).length === 0) {
           this.logError('Redis options are required when using Redis storage');
           throw new Error('Redis options are required when using Redis storage');
         }
-        return new RedisStorage(this.config.redisOptions, this.config.keyPrefix);
+        return new RedisStorage(
+          this.config.redisOptions,
+          this.config.keyPrefix,
+          this.config.distributedLock,
+          this.logger
+        );
       } else {
         return new MemoryStorage(this.config.maxSize);
       }
     } catch (error) {
       this.logError('Storage initialization error:', error);
-      this.logError('Falling back to memory storage');
+      this.logWarn('Falling back to memory storage');
       return new MemoryStorage(this.config.maxSize);
     }
   }
@@ -286,62 +370,914 @@ export class AIResponseCache {
     if (!this.semanticEnabled) return;
 
     this.semanticThreshold = sem.threshold ?? 0.95;
-    this.semanticTopK = sem.topK ?? 1;
+    this.semanticTopK = sem.topK ?? 3;
     this.semanticLogNearMisses = sem.logNearMisses ?? false;
+    this.semanticScope = sem.scope ?? DEFAULT_SEMANTIC_SCOPE;
+    this.semanticContext = sem.context ?? { strategy: 'last-message' };
+    if (sem.calibration?.enabled) {
+      this.calibrator = new ThresholdCalibrator({ ...sem.calibration, baseThreshold: this.semanticThreshold });
+    }
+    if (sem.shadow?.enabled) {
+      this.shadow = {
+        mode: sem.shadow.mode ?? 'shadow',
+        comparator: sem.shadow.comparator ?? new ExactTextComparator(),
+        sampleRate: sem.shadow.sampleRate ?? 0.05,
+        recorder: new ShadowRecorder(sem.shadow.thresholds ?? [0.85, 0.9, 0.95]),
+      };
+    }
     this.embeddingProvider = sem.provider ?? new LocalEmbeddingProvider({ model: sem.model });
     // Default the vector store to match the cache's storage backend, so a
     // Redis-backed cache keeps semantic vectors on the same single Redis.
     this.vectorStore =
       sem.vectorStore ??
       (this.config.storage === 'redis'
-        ? new RedisVectorStore({ redisOptions: this.config.redisOptions })
+        ? new RedisVectorStore({ redisOptions: this.config.redisOptions, logger: this.logger })
         : new MemoryVectorStore());
     this.logDebug(
       `Semantic tier enabled (provider=${this.embeddingProvider.id}, threshold=${this.semanticThreshold})`
     );
+
+    const sweepIntervalMs = sem.sweepIntervalMs ?? 600000;
+    if (sweepIntervalMs > 0 && this.vectorStore.ids) {
+      this.vectorSweepTimer = setInterval(() => void this.sweepVectors(), sweepIntervalMs);
+      // Never keep the process alive just to sweep.
+      this.vectorSweepTimer.unref?.();
+    }
+  }
+
+  private async lookupOrCall<T>(fn: ProviderFn<T>, options: WrapOptions, signal?: AbortSignal): Promise<Served<T>> {
+    throwIfAborted(signal);
+    const mode: CacheMode = options.mode ?? getScopedCacheMode() ?? 'default';
+    const startTime = Date.now();
+    const key = options.cacheKey || this.generateKey(options.provider, options.model, options.prompt, options.params);
+
+    if (mode === 'bypass') {
+      this.logDebug('Cache bypassed for this call');
+      const { result } = await this.callWithRetry(fn, options, key, signal);
+      return { value: result.value, meta: { hitType: 'bypass', cached: false, key, cost: result.cost ?? 0 } };
+    }
+
+    // Warming writes aren't cache traffic, so they stay out of the hit rate.
+    const countsAsTraffic = mode !== 'write-only';
+    // refresh/write-only never read; read-only/cache-only never write.
+    const reads = mode !== 'refresh' && mode !== 'write-only';
+    const writes = mode !== 'read-only' && mode !== 'cache-only';
+    if (countsAsTraffic) this.stats.totalRequests++;
+    this.initializeProviderStats(options.provider);
+
+    // Try to get from cache with error handling
+    let cachedEntry: CacheEntry | null = null;
+    if (reads) {
+      try {
+        cachedEntry = await this.storage.get(key);
+      } catch (error) {
+        this.reportError('get', 'Cache get error:', error, this.eventContext(key, options));
+        // Continue to API call on cache error
+      }
+    }
+
+    if (cachedEntry?.kind === 'error') {
+      // A cached deterministic failure: rethrow it instead of calling the provider.
+      if (isEntryFresh(cachedEntry) && this.isNegativeCacheOn(options)) {
+        this.logDebug(`Negative cache hit for key: ${key}`, { key });
+        this.stats.negativeHits++;
+        this.updateHitRate();
+        throw reconstructError(cachedEntry.error!);
+      }
+    } else if (cachedEntry && isEntryFresh(cachedEntry)) {
+      this.logDebug(`Cache hit for key: ${key}`, { key });
+      this.updateCacheHitStats(cachedEntry);
+      if (writes && this.shouldRecomputeEarly(cachedEntry, options)) {
+        this.logDebug(`Early recompute for key: ${key}`, { key });
+        this.stats.earlyRefreshes++;
+        this.revalidateInBackground(fn, options, key);
+      }
+      return this.servedHit('exact', key, cachedEntry, options, startTime);
+    } else if (cachedEntry && this.isWithinStaleWindow(cachedEntry, options)) {
+      this.logDebug(`Serving stale entry for key: ${key}`, { key });
+      this.stats.staleHits++;
+      this.updateCacheHitStats(cachedEntry);
+      if (writes) {
+        this.revalidateInBackground(fn, options, key);
+      }
+      return this.servedHit('stale', key, cachedEntry, options, startTime);
+    }
+
+    // Single-flight: a concurrent miss for the same key is already calling
+    // the provider — share its result instead of paying for it twice.
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      return this.joinInFlight<T>(pending, key, signal);
+    }
+
+    // Semantic tier — runs only on an exact miss, so the hot path stays
+    // sub-millisecond and pays no embedding cost. Embedding is computed once
+    // and reused for both the search here and the add() on a full miss.
+    let query: SemanticQuery | null = null;
+    // In shadow mode: whether a shadow lookup ran, and what it would have served.
+    let shadowLookup = false;
+    let shadowPick: SemanticCandidate | undefined;
+    const shadowing = this.shadow?.mode === 'shadow';
+    const semanticOn = options.semantic?.enabled ?? this.semanticEnabled;
+    if (semanticOn && this.embeddingProvider && this.vectorStore) {
+      const context = resolveSemanticContext(options.prompt, options.semantic?.context ?? this.semanticContext);
+      if (context.text) {
+        const threshold =
+          options.semantic?.threshold ?? this.calibrator?.thresholdFor(this.routeFor(options)) ?? this.semanticThreshold;
+        // With a verifier, the cosine bar only decides what reaches it.
+        const verification = this.verificationFor(options);
+        let recall = verification ? verification.recallThreshold : threshold;
+        // Shadow mode projects lower thresholds too, so it looks that far down.
+        if (shadowing) recall = Math.min(recall, this.shadow!.recorder.minThreshold);
+        const guardChecks = this.guardChecksFor(options);
+        const vectorMeta = this.semanticMetaFor(options, context);
+        // Only vectors stored for a compatible call (same model, params, ...) can match.
+        const filter = this.scopeFilter(vectorMeta, options);
+        try {
+          const embedding = await raceWithSignal(this.embeddingProvider.embed(context.text), signal);
+          query = { embedding, meta: vectorMeta };
+          // refresh/write-only still embed, so the stored entry gets indexed.
+          if (reads) {
+            const matches = await raceWithSignal(
+              this.vectorStore.search(embedding, this.semanticTopK, filter),
+              signal
+            );
+            shadowLookup = shadowing;
+            const top = matches[0];
+            if (top && top.score >= recall) {
+              // Matches are best-first; a vector can outlive its entry, so
+              // only candidates whose entry is still live are considered.
+              // A pairing labelled bad through feedback() never matches again.
+              const unblocked = matches.filter((match) => !this.isBlocked(key, match.id));
+              const { passed, rejected } = this.guardCandidates(context.text, unblocked, recall, guardChecks);
+              const live = await this.liveCandidates(passed, recall, verification ? passed.length : 1);
+              let chosen: SemanticCandidate | undefined = live[0];
+              let verifierScore: number | undefined;
+              if (verification && live.length > 0) {
+                let reason: string | undefined;
+                ({ chosen, verifierScore, reason } = await this.verifyCandidates(context.text, live, verification, signal));
+                if (!chosen) {
+                  this.stats.verifierRejections++;
+                  this.reportNearMiss(key, options, live[0].match, recall, { reason, verifierScore });
+                }
+              } else if (!chosen && rejected) {
+                this.stats.guardRejections++;
+                this.reportNearMiss(key, options, rejected.match, recall, { reason: rejected.reason });
+              }
+              if (chosen && shadowing) {
+                // Note what would have been served, and call the provider anyway.
+                shadowPick = chosen;
+              } else if (chosen) {
+                const { match, entry } = chosen;
+                this.logDebug(`Semantic hit (score=${match.score.toFixed(4)}) for key: ${match.id}`);
+                this.updateSemanticHitStats(entry);
+                this.emit('semanticHit', {
+                  ...this.eventContext(key, options),
+                  matchedKey: match.id,
+                  score: match.score,
+                  verifierScore,
+                  cost: entry.cost,
+                  latencyMs: Date.now() - startTime,
+                });
+                const hit = this.served<T>('semantic', key, match.id, entry, match.score, verifierScore);
+                hit.meta.requestId = this.rememberOutcome(key, options, match, entry);
+                if (this.shadow?.mode === 'sample' && Math.random() < this.shadow.sampleRate) {
+                  this.sampleInBackground(fn, options, key, chosen);
+                }
+                return hit;
+              }
+              // Every candidate pointed at an expired/evicted (or stale) entry,
+              // or failed the guard or verification — fall through to miss.
+            } else if (top) {
+              this.reportNearMiss(key, options, top, recall);
+            }
+          }
+        } catch (error) {
+          if (error instanceof CacheAbortError) throw error;
+          this.reportError('semantic', 'Semantic lookup error:', error, this.eventContext(key, options));
+          // Fall through to the normal miss path on any embedding/search error.
+        }
+
+        // Nothing cached yet, but a paraphrase may already be in flight.
+        // Shadow mode doesn't share those either.
+        const neighbours =
+          reads && query && !shadowing
+            ? this.inFlightNeighbours(query.embedding, recall, filter).filter(
+                (neighbour) => !this.guardMismatch(context.text!, neighbour.call.query!.meta.text, guardChecks)
+              )
+            : [];
+        // Without a verifier, the check and the flight registration below
+        // stay synchronous, so two concurrent paraphrases can't both lead.
+        let neighbour = verification ? null : neighbours[0];
+        if (verification && neighbours.length > 0) {
+          try {
+            neighbour = await this.verifyInFlight(query!, neighbours, verification, signal);
+          } catch (error) {
+            if (error instanceof CacheAbortError) throw error;
+            this.reportError('semantic', 'Semantic verification error:', error, this.eventContext(key, options));
+          }
+        }
+        if (neighbour) {
+          return this.joinInFlight<T>(neighbour.call, key, signal, neighbour.score);
+        }
+      }
+    }
+
+    // The embedding/search above awaited, so another caller may have become
+    // the leader for this key in the meantime.
+    const racing = this.inFlight.get(key);
+    if (racing) {
+      return this.joinInFlight<T>(racing, key, signal);
+    }
+
+    this.emit('miss', { ...this.eventContext(key, options), latencyMs: Date.now() - startTime });
+    if (mode === 'cache-only') {
+      this.stats.cacheMisses++;
+      this.updateHitRate();
+      throw new CacheMissError(key);
+    }
+
+    // Cache miss - call the original function with retry logic
+    if (countsAsTraffic) {
+      this.stats.cacheMisses++;
+      this.updateHitRate();
+    }
+    this.stats.byProvider[options.provider].requests++;
+
+    if (!writes) {
+      // read-only: not registered as a flight either, so callers that would
+      // store the result never end up sharing a call that doesn't.
+      const { result } = await this.callWithRetry(fn, options, key, signal);
+      this.updateResponseTimeStats(Date.now() - startTime);
+      if (shadowLookup) this.recordShadowLookup(key, options, shadowPick, result.value);
+      return {
+        value: result.value,
+        meta: { hitType: 'miss', cached: false, key, matchedKey: key, ageMs: 0, cost: result.cost ?? 0 },
+      };
+    }
+
+    // Registered synchronously (no await since the checks above), so every
+    // later caller for this key sees it.
+    const call = this.startFlight(key, options.provider, query, (flightSignal) =>
+      this.callAndStore(fn, options, key, query, startTime, flightSignal)
+    );
+    const { value, cost = 0, peerEntry } = await this.awaitFlight<T>(call, signal);
+    if (shadowLookup) this.recordShadowLookup(key, options, shadowPick, value);
+    if (peerEntry) {
+      // Another process called the provider while this one waited on its lock.
+      const served = this.served<T>('coalesced', key, key, peerEntry);
+      return { value, meta: { ...served.meta, cost: 0 } };
+    }
+    const ttlRemainingMs = (options.ttl || this.config.ttl) * 1000;
+    return { value, meta: { hitType: 'miss', cached: false, key, matchedKey: key, ageMs: 0, ttlRemainingMs, cost } };
+  }
+
+  /**
+   * Leader half of a miss: call the provider (with retries), store the entry
+   * and index its embedding. Followers coalesced onto this call get the same
+   * result — or the same error.
+   */
+  private async callAndStore<T>(
+    fn: ProviderFn<T>,
+    options: WrapOptions,
+    key: string,
+    query: SemanticQuery | null,
+    startTime: number,
+    signal: AbortSignal
+  ): Promise<FlightResult<T>> {
+    const lock = await this.acquireDistributedLock(key);
+    if (lock.peerEntry?.kind === 'error') {
+      // The holder's call failed and it cached the failure. Rethrow it like a
+      // negative cache hit; without negative caching, call the provider.
+      if (this.isNegativeCacheOn(options)) {
+        this.stats.distributedWaits++;
+        throw reconstructError(lock.peerEntry.error!);
+      }
+    } else if (lock.peerEntry) {
+      const { value, tokenCount, cost } = lock.peerEntry;
+      this.stats.distributedWaits++;
+      this.stats.totalCostSaved += cost;
+      this.stats.byProvider[options.provider].costSaved += cost;
+      return { value, tokenCount, cost, peerEntry: lock.peerEntry };
+    }
+    try {
+      return await this.callProviderAndStore(fn, options, key, query, startTime, signal);
+    } finally {
+      if (lock.token) {
+        await this.storage.releaseLock!(key, lock.token);
+      }
+    }
   }
 
   /**
-   * Pick the text to embed. We embed the last user message only — system
-   * prompts and prior history pollute similarity. Falls back sensibly for
-   * string prompts and plain objects.
+   * Cross-process half of single-flight (only with `distributedLock` on a
+   * storage that supports it). Either we take the lock and become the one
+   * process that calls the provider, or we wait for the holder's entry. If
+   * the holder fails or dies we try to take over; once the wait times out we
+   * call the provider without the lock rather than fail the request.
    */
-  private extractEmbedText(prompt: any): string | null {
-    if (prompt == null) return null;
-    if (typeof prompt === 'string') return prompt.trim() || null;
-
-    if (Array.isArray(prompt)) {
-      for (let i = prompt.length - 1; i >= 0; i--) {
-        const msg = prompt[i];
-        if (msg && (msg.role === 'user' || msg.role === undefined)) {
-          const text = this.messageContentToText(msg.content ?? msg);
-          if (text) return text;
+  private async acquireDistributedLock(
+    key: string
+  ): Promise<{ token?: string; peerEntry?: CacheEntry }> {
+    const lockConfig = this.config.distributedLock;
+    const storage = this.storage;
+    if (!lockConfig?.enabled || !storage.acquireLock || !storage.releaseLock || !storage.waitForEntry) {
+      return {};
+    }
+
+    const deadline = Date.now() + (lockConfig.waitTimeoutMs ?? 10000);
+    try {
+      while (Date.now() < deadline) {
+        const token = await storage.acquireLock(key);
+        if (token) return { token };
+
+        this.logDebug(`Waiting on distributed lock for key: ${key}`, { key });
+        const entry = await storage.waitForEntry(key, deadline - Date.now());
+        if (entry) return { peerEntry: entry };
+      }
+      this.logDebug(`Distributed lock wait timed out for key: ${key}`, { key });
+    } catch (error) {
+      this.reportError('lock', 'Distributed lock error:', error, { key });
+    }
+    return {};
+  }
+
+  private async callProviderAndStore<T>(
+    fn: ProviderFn<T>,
+    options: WrapOptions,
+    key: string,
+    query: SemanticQuery | null,
+    startTime: number,
+    signal: AbortSignal
+  ): Promise<ProviderResult<T>> {
+    let outcome: { result: ProviderResult<T>; computeTime: number };
+    try {
+      outcome = await this.callWithRetry(fn, options, key, signal);
+    } catch (error) {
+      if (!signal.aborted) {
+        await this.storeNegativeEntry(key, options, error);
+      }
+      throw error;
+    }
+    const { result, computeTime } = outcome;
+
+    const endTime = Date.now();
+    this.updateResponseTimeStats(endTime - startTime);
+
+    const { value, tokenCount = 0, cost = 0 } = result;
+
+    // Try to store in cache with error handling
+    try {
+      const newEntry: CacheEntry = {
+        key,
+        value,
+        timestamp: Date.now(),
+        ttl: options.ttl || this.config.ttl,
+        provider: options.provider,
+        model: options.model,
+        tokenCount,
+        cost,
+        computeTime,
+      };
+      const staleWindow = this.staleWindowFor(options);
+      if (staleWindow > 0) {
+        newEntry.staleWhileRevalidate = staleWindow;
+      }
+
+      await this.storage.set(key, newEntry);
+      this.logDebug(`Cache set for key: ${key}`, { key });
+    } catch (error) {
+      this.reportError('set', 'Cache set error:', error, this.eventContext(key, options));
+      // Don't throw on cache set error, just log it
+    }
+
+    // Index the embedding so future paraphrases hit. The exact key is the
+    // vector id, so a later semantic hit maps straight back to this entry.
+    if (query && this.vectorStore) {
+      try {
+        await this.vectorStore.add(key, query.embedding, query.meta);
+      } catch (error) {
+        this.reportError('vector', 'Vector store add error:', error, this.eventContext(key, options));
+      }
+    }
+
+    return { value, tokenCount, cost };
+  }
+
+  /** Call the provider, retrying per the merged retry policy. */
+  private async callWithRetry<T>(
+    fn: ProviderFn<T>,
+    options: WrapOptions,
+    key: string,
+    signal?: AbortSignal
+  ): Promise<{ result: ProviderResult<T>; computeTime: number }> {
+    let attempt = 0;
+    // Backoff is reduced in debug mode so tests don't wait seconds.
+    const retry = resolveRetryPolicy(this.debug ? { baseDelayMs: 10 } : undefined, this.config.retry, options.retry);
+
+    while (true) {
+      try {
+        const attemptStart = Date.now();
+        const result = await fn(signal);
+        return { result, computeTime: Date.now() - attemptStart };
+      } catch (error) {
+        attempt++;
+        // Every caller has gone; don't retry on their behalf.
+        if (signal?.aborted) throw error;
+        this.logWarn(`API call attempt ${attempt} failed:`, error, { key, attempt });
+        
+        const context = this.eventContext(key, options);
+        if (attempt >= retry.maxAttempts) {
+          this.logError('All API call attempts failed, throwing error', error, context);
+          this.emit('error', { ...context, operation: 'provider', error });
+          throw error;
         }
+        if (!retry.shouldRetry(error, attempt)) {
+          this.logError('API error is not retryable, throwing error', error, context);
+          this.emit('error', { ...context, operation: 'provider', error });
+          throw error;
+        }
+        const delayMs = computeRetryDelay(retry, attempt, error);
+        if (delayMs === null) {
+          this.logError('Server-requested retry delay exceeds maxDelayMs, throwing error', error, context);
+          this.emit('error', { ...context, operation: 'provider', error });
+          throw error;
+        }
+
+        this.stats.retries++;
+        this.emit('retry', { ...context, attempt, delayMs, error });
+        await abortableSleep(delayMs, signal);
+      }
+    }
+  }
+
+  /** Remember a deterministic provider failure, if negative caching is on for this call. */
+  private async storeNegativeEntry(key: string, options: WrapOptions, error: unknown): Promise<void> {
+    if (!this.isNegativeCacheOn(options)) return;
+    const isCacheable = this.config.negativeCache?.isCacheable ?? isDeterministicError;
+    if (!isCacheable(error)) return;
+
+    try {
+      const entry: CacheEntry = {
+        key,
+        value: null,
+        timestamp: Date.now(),
+        ttl: options.negativeCache?.ttl ?? this.config.negativeCache?.ttl ?? 60,
+        provider: options.provider,
+        model: options.model,
+        tokenCount: 0,
+        cost: 0,
+        kind: 'error',
+        error: serializeError(error),
+      };
+      await this.storage.set(key, entry);
+      this.logDebug(`Negative cache set for key: ${key}`, { key });
+    } catch (storeError) {
+      this.reportError('set', 'Negative cache set error:', storeError, this.eventContext(key, options));
+    }
+  }
+
+  private isNegativeCacheOn(options: WrapOptions): boolean {
+    return options.negativeCache?.enabled ?? this.config.negativeCache?.enabled ?? false;
+  }
+
+  /**
+   * Refresh a stale entry off the request path. Registered as the in-flight
+   * call for the key, so concurrent stale reads start one refresh between
+   * them and a concurrent hard miss coalesces onto it.
+   */
+  private revalidateInBackground<T>(fn: ProviderFn<T>, options: WrapOptions, key: string): void {
+    if (this.inFlight.has(key)) return;
+
+    const call = this.startFlight(
+      key,
+      options.provider,
+      null,
+      (signal) => this.callAndStore(fn, options, key, null, Date.now(), signal),
+      true
+    );
+    call.promise.catch((error) =>
+      this.reportError('revalidate', 'Background revalidation failed:', error, this.eventContext(key, options))
+    );
+  }
+
+  /**
+   * Start a provider call and register it as in flight for `key` until it
+   * settles. A `detached` call (a background refresh) holds a waiter slot of
+   * its own, so callers that join and then abort never cancel it.
+   */
+  private startFlight(
+    key: string,
+    provider: string,
+    query: SemanticQuery | null,
+    run: (signal: AbortSignal) => Promise<FlightResult<any>>,
+    detached = false
+  ): InFlightCall {
+    const controller = new AbortController();
+    const call: InFlightCall = {
+      key,
+      promise: run(controller.signal),
+      provider,
+      query,
+      controller,
+      waiters: detached ? 1 : 0,
+    };
+    this.inFlight.set(key, call);
+    const settle = () => this.forgetFlight(call);
+    call.promise.then(settle, settle);
+    return call;
+  }
+
+  /**
+   * Wait on a shared provider call as one of its callers. A caller whose
+   * signal aborts stops waiting straight away; the provider call itself is
+   * only cancelled when the last caller waiting on it has aborted.
+   */
+  private async awaitFlight<T>(call: InFlightCall, signal?: AbortSignal): Promise<FlightResult<T>> {
+    call.waiters++;
+    try {
+      return await raceWithSignal(call.promise, signal);
+    } finally {
+      call.waiters--;
+      if (call.waiters === 0 && signal?.aborted) {
+        this.forgetFlight(call);
+        call.controller.abort();
+      }
+    }
+  }
+
+  private forgetFlight(call: InFlightCall): void {
+    if (this.inFlight.get(call.key) === call) {
+      this.inFlight.delete(call.key);
+    }
+  }
+
+  /**
+   * XFetch (Vattani et al., "Optimal Probabilistic Cache Stampede
+   * Prevention"): recompute when `now - computeTime * beta * ln(rand())`
+   * reaches the expiry. The chance rises as expiry nears, and sooner for
+   * entries that were slow to compute, so one caller usually refreshes a hot
+   * key before it expires instead of all of them at once after. The refresh
+   * runs in the background; this caller still gets the cached value.
+   */
+  private shouldRecomputeEarly(entry: CacheEntry, options: WrapOptions): boolean {
+    const enabled = options.earlyExpiration?.enabled ?? this.config.earlyExpiration?.enabled ?? false;
+    if (!enabled || !entry.computeTime) return false;
+
+    const beta = options.earlyExpiration?.beta ?? this.config.earlyExpiration?.beta ?? 1;
+    const gap = -entry.computeTime * beta * Math.log(Math.random());
+    return Date.now() + gap >= entryExpiresAt(entry);
+  }
+
+  private staleWindowFor(options: WrapOptions): number {
+    return options.staleWhileRevalidate ?? this.config.staleWhileRevalidate ?? 0;
+  }
+
+  private isWithinStaleWindow(entry: CacheEntry, options: WrapOptions): boolean {
+    const window = this.staleWindowFor(options);
+    return window > 0 && Date.now() <= entryExpiresAt(entry) + window * 1000;
+  }
+
+  private async joinInFlight<T>(call: InFlightCall, key: string, signal?: AbortSignal, score?: number): Promise<Served<T>> {
+    this.logDebug(`Coalesced onto in-flight call for key: ${key}`, { key });
+    this.stats.coalescedRequests++;
+    const { value, cost = 0 } = await this.awaitFlight<T>(call, signal);
+    this.stats.totalCostSaved += cost;
+    this.initializeProviderStats(call.provider);
+    this.stats.byProvider[call.provider].costSaved += cost;
+    return { value, meta: { hitType: 'coalesced', cached: true, key, matchedKey: call.key, score, ageMs: 0, cost } };
+  }
+
+  private servedHit<T>(
+    hitType: 'exact' | 'stale',
+    key: string,
+    entry: CacheEntry,
+    options: WrapOptions,
+    startTime: number
+  ): Served<T> {
+    const hit = this.served<T>(hitType, key, key, entry);
+    this.emit('hit', {
+      ...this.eventContext(key, options),
+      hitType,
+      cost: entry.cost,
+      ageMs: hit.meta.ageMs!,
+      latencyMs: Date.now() - startTime,
+    });
+    return hit;
+  }
+
+  /** A value served from a stored entry, with its provenance. */
+  private served<T>(
+    hitType: CacheHitType,
+    key: string,
+    matchedKey: string,
+    entry: CacheEntry,
+    score?: number,
+    verifierScore?: number
+  ): Served<T> {
+    const now = Date.now();
+    return {
+      value: entry.value,
+      meta: {
+        hitType,
+        cached: true,
+        key,
+        matchedKey,
+        score,
+        ...(verifierScore !== undefined && { verifierScore }),
+        ageMs: now - entry.timestamp,
+        ttlRemainingMs: entryExpiresAt(entry) - now,
+        cost: entry.cost,
+      },
+    };
+  }
+
+  /** Up to `limit` matches scoring at least `minScore` whose entry is still live and fresh, best first. */
+  private async liveCandidates(
+    matches: VectorSearchResult[],
+    minScore: number,
+    limit: number
+  ): Promise<SemanticCandidate[]> {
+    const live: SemanticCandidate[] = [];
+    for (const match of matches) {
+      if (match.score < minScore || live.length >= limit) break;
+      const entry = await this.storage.get(match.id);
+      if (entry && entry.kind !== 'error' && isEntryFresh(entry)) {
+        live.push({ match, entry });
+      }
+    }
+    return live;
+  }
+
+  /**
+   * Score each candidate's stored prompt text against the query and pick the
+   * best one that clears `minScore`. Candidates stored without their text
+   * (by an earlier version) can't be verified and never pass. With nothing
+   * chosen, `verifierScore` is the best score seen, if any.
+   */
+  private async verifyCandidates(
+    text: string,
+    live: SemanticCandidate[],
+    verification: ResolvedVerification,
+    signal?: AbortSignal
+  ): Promise<{ chosen?: SemanticCandidate; verifierScore?: number; reason?: string }> {
+    const verifiable = live.filter((candidate) => typeof candidate.match.meta?.text === 'string');
+    if (verifiable.length === 0) return { reason: 'no prompt text stored to verify against' };
+    const scores = await raceWithSignal(
+      verification.verifier.score(text, verifiable.map((candidate) => candidate.match.meta!.text)),
+      signal
+    );
+    let best = 0;
+    for (let i = 1; i < verifiable.length; i++) {
+      if (scores[i] > scores[best]) best = i;
+    }
+    const verifierScore = scores[best];
+    if (verifierScore >= verification.minScore) {
+      return { chosen: verifiable[best], verifierScore };
+    }
+    return {
+      verifierScore,
+      reason: `rejected by verifier (verifierScore=${verifierScore.toFixed(4)} < minScore=${verification.minScore})`,
+    };
+  }
+
+  private routeFor(options: WrapOptions): string {
+    return options.route ?? `${options.provider}:${options.model}`;
+  }
+
+  /** Keep a served semantic hit for feedback(); returns its requestId. */
+  private rememberOutcome(key: string, options: WrapOptions, match: VectorSearchResult, entry: CacheEntry): string {
+    const requestId = options.requestId ?? randomUUID();
+    this.outcomes.set(requestId, {
+      requestId,
+      key,
+      matchedKey: match.id,
+      score: match.score,
+      route: this.routeFor(options),
+      provider: options.provider,
+      model: options.model,
+      expiresAt: entryExpiresAt(entry),
+    });
+    this.outcomeIdsByKey.set(key, requestId);
+    if (this.outcomes.size > MAX_PENDING_FEEDBACK) {
+      this.forgetOutcome(this.outcomes.values().next().value!);
+    }
+    return requestId;
+  }
+
+  private forgetOutcome(outcome: SemanticOutcome): void {
+    this.outcomes.delete(outcome.requestId);
+    if (this.outcomeIdsByKey.get(outcome.key) === outcome.requestId) {
+      this.outcomeIdsByKey.delete(outcome.key);
+    }
+  }
+
+  private isBlocked(key: string, matchedKey: string): boolean {
+    const pair = `${key}\n${matchedKey}`;
+    const until = this.blockedPairs.get(pair);
+    if (until === undefined) return false;
+    if (Date.now() <= until) return true;
+    this.blockedPairs.delete(pair);
+    return false;
+  }
+
+  /**
+   * Split the matches above `minScore` into those the lexical guard lets
+   * through and the best one it rejected. Matches stored without their text
+   * can't be checked and pass.
+   */
+  private guardCandidates(
+    text: string,
+    matches: VectorSearchResult[],
+    minScore: number,
+    checks: LexicalGuardCheck[] | null
+  ): { passed: VectorSearchResult[]; rejected?: { match: VectorSearchResult; reason: string } } {
+    const passed: VectorSearchResult[] = [];
+    let rejected: { match: VectorSearchResult; reason: string } | undefined;
+    for (const match of matches) {
+      if (match.score < minScore) break;
+      const mismatch = this.guardMismatch(text, match.meta?.text, checks);
+      if (!mismatch) {
+        passed.push(match);
+      } else {
+        rejected ??= { match, reason: `rejected by guard (${mismatch})` };
       }
-      const last = prompt[prompt.length - 1];
-      return last ? this.messageContentToText(last.content ?? last) : null;
     }
+    return { passed, rejected };
+  }
+
+  /** The lexical guard's reason to reject `candidate` for `text`, or null. */
+  private guardMismatch(text: string, candidate: string | undefined, checks: LexicalGuardCheck[] | null): string | null {
+    if (!checks || candidate === undefined) return null;
+    return lexicalMismatch(text, candidate, checks)?.reason ?? null;
+  }
 
-    if (typeof prompt === 'object') {
-      if (typeof prompt.content === 'string') return prompt.content.trim() || null;
-      return JSON.stringify(prompt);
+  /** The guard checks for a call, or null when the guard is off for it. */
+  private guardChecksFor(options: WrapOptions): LexicalGuardCheck[] | null {
+    const config = this.config.semantic?.guard;
+    const override = options.semantic?.guard;
+    if (!(override?.enabled ?? config?.enabled)) return null;
+    return override?.checks ?? config?.checks ?? LEXICAL_GUARD_CHECKS;
+  }
+
+  private reportNearMiss(
+    key: string,
+    options: WrapOptions,
+    match: VectorSearchResult,
+    threshold: number,
+    rejection?: { reason?: string; verifierScore?: number }
+  ): void {
+    this.emit('nearMiss', {
+      ...this.eventContext(key, options),
+      matchedKey: match.id,
+      score: match.score,
+      threshold,
+      verifierScore: rejection?.verifierScore,
+      reason: rejection?.reason,
+    });
+    if (this.semanticLogNearMisses) {
+      this.stats.nearMisses++;
+      this.logDebug(
+        rejection
+          ? `Semantic near-miss (score=${match.score.toFixed(4)}, ${rejection.reason}) for key: ${match.id}`
+          : `Semantic near-miss (score=${match.score.toFixed(4)} < threshold=${threshold}) for key: ${match.id}`,
+        { key, matchedKey: match.id, score: match.score, reason: rejection?.reason }
+      );
     }
-    return String(prompt);
   }
 
-  private messageContentToText(content: any): string | null {
-    if (content == null) return null;
-    if (typeof content === 'string') return content.trim() || null;
-    // OpenAI multimodal: array of parts; concatenate the text parts.
-    if (Array.isArray(content)) {
-      const parts = content
-        .map((p) => (typeof p === 'string' ? p : typeof p?.text === 'string' ? p.text : ''))
-        .filter(Boolean);
-      const joined = parts.join(' ').trim();
-      return joined || null;
+  /** The verification settings for a call, or null when verification is off for it. */
+  private verificationFor(options: WrapOptions): ResolvedVerification | null {
+    const config = this.config.semantic?.verification;
+    const override = options.semantic?.verification;
+    if (!(override?.enabled ?? config?.enabled)) return null;
+    this.verifier ??= config?.verifier ?? new CrossEncoderVerifier();
+    return {
+      verifier: this.verifier,
+      recallThreshold: override?.recallThreshold ?? config?.recallThreshold ?? 0.85,
+      minScore: override?.minScore ?? config?.minScore ?? 0.5,
+    };
+  }
+
+  /** In-scope in-flight calls whose query embedding clears the threshold, most similar first. */
+  private inFlightNeighbours(embedding: number[], threshold: number, filter: VectorFilter): InFlightNeighbour[] {
+    const neighbours: InFlightNeighbour[] = [];
+    for (const call of this.inFlight.values()) {
+      if (!call.query || !matchesFilter(call.query.meta, filter)) continue;
+      const score = cosineSimilarity(embedding, call.query.embedding);
+      if (score >= threshold) neighbours.push({ call, score });
     }
-    if (typeof content === 'object' && typeof content.text === 'string') {
-      return content.text.trim() || null;
+    return neighbours.sort((a, b) => b.score - a.score);
+  }
+
+  /** Count a shadow lookup; with a would-be hit, compare it with the fresh response off the request path. */
+  private recordShadowLookup(key: string, options: WrapOptions, pick: SemanticCandidate | undefined, fresh: unknown): void {
+    if (!pick) {
+      this.shadow!.recorder.recordLookup();
+      return;
+    }
+    this.compareShadow('shadow', key, options, pick, fresh).catch((error) =>
+      this.reportError('shadow', 'Shadow comparison error:', error, this.eventContext(key, options))
+    );
+  }
+
+  /**
+   * Sample mode: call the provider for a semantic hit that was just served
+   * and compare its response with the served one. The response is not stored.
+   */
+  private sampleInBackground<T>(fn: ProviderFn<T>, options: WrapOptions, key: string, pick: SemanticCandidate): void {
+    this.callWithRetry(fn, options, key)
+      .then(({ result }) => this.compareShadow('sample', key, options, pick, result.value))
+      .catch((error) => this.reportError('shadow', 'Shadow sample error:', error, this.eventContext(key, options)));
+  }
+
+  private async compareShadow(
+    mode: 'shadow' | 'sample',
+    key: string,
+    options: WrapOptions,
+    pick: SemanticCandidate,
+    fresh: unknown
+  ): Promise<void> {
+    const { comparator, recorder } = this.shadow!;
+    const agreed = await comparator.agrees(fresh, pick.entry.value, options.prompt);
+    const { match } = pick;
+    if (mode === 'shadow') {
+      recorder.recordLookup({ score: match.score, agreed });
+    } else {
+      recorder.recordSample(agreed);
+    }
+    if (!agreed) {
+      this.logDebug(`Shadow ${mode} disagreement (score=${match.score.toFixed(4)}) for key: ${match.id}`, {
+        key,
+        matchedKey: match.id,
+        score: match.score,
+      });
+    }
+    this.emit('shadow', { ...this.eventContext(key, options), matchedKey: match.id, score: match.score, agreed, mode });
+  }
+
+  /** The in-flight neighbour the verifier scores best, if it clears `minScore`. */
+  private async verifyInFlight(
+    query: SemanticQuery,
+    neighbours: InFlightNeighbour[],
+    verification: ResolvedVerification,
+    signal?: AbortSignal
+  ): Promise<InFlightNeighbour | null> {
+    const verifiable = neighbours.filter((neighbour) => neighbour.call.query!.meta.text !== undefined);
+    if (verifiable.length === 0 || query.meta.text === undefined) return null;
+    const scores = await raceWithSignal(
+      verification.verifier.score(query.meta.text, verifiable.map((neighbour) => neighbour.call.query!.meta.text!)),
+      signal
+    );
+    let best = 0;
+    for (let i = 1; i < verifiable.length; i++) {
+      if (scores[i] > scores[best]) best = i;
+    }
+    return scores[best] >= verification.minScore ? verifiable[best] : null;
+  }
+
+  private semanticMetaFor(options: WrapOptions, context: SemanticContextKey): SemanticVectorMeta {
+    const meta: SemanticVectorMeta = {
+      provider: options.provider,
+      model: options.model,
+      paramsHash: generateHashedKeyForPayload(options.params),
+      systemPromptHash: generateHashedKeyForPayload(this.extractSystemPrompt(options)),
+      context: context.contextId,
+    };
+    if (context.historyHash) meta.historyHash = context.historyHash;
+    if (context.text) meta.text = context.text;
+    return meta;
+  }
+
+  /**
+   * The vector filter for a query: the fields of its meta named by the scope,
+   * plus its context strategy (and history hash) — texts embedded under
+   * different strategies aren't comparable.
+   */
+  private scopeFilter(meta: SemanticVectorMeta, options: WrapOptions): VectorFilter {
+    const scope = options.semantic?.scope ?? this.semanticScope;
+    const filter: VectorFilter = { context: meta.context };
+    if (meta.historyHash) filter.historyHash = meta.historyHash;
+    if (scope.includes('provider')) filter.provider = meta.provider;
+    if (scope.includes('model')) filter.model = meta.model;
+    if (scope.includes('params')) filter.paramsHash = meta.paramsHash;
+    if (scope.includes('systemPrompt')) filter.systemPromptHash = meta.systemPromptHash;
+    return filter;
+  }
+
+  /**
+   * The system prompt of a call, wherever the provider puts it: system or
+   * developer messages (OpenAI), `system` (Anthropic) or `systemInstruction`
+   * (Google) in params. Null when there is none.
+   */
+  private extractSystemPrompt(options: WrapOptions): any {
+    const fromParams = options.params?.system ?? options.params?.systemInstruction;
+    if (fromParams !== undefined) return fromParams;
+    if (Array.isArray(options.prompt)) {
+      const system = options.prompt
+        .filter((msg: any) => msg && (msg.role === 'system' || msg.role === 'developer'))
+        .map((msg: any) => msg.content);
+      if (system.length > 0) return system;
     }
     return null;
   }
@@ -387,18 +1323,328 @@ export class AIResponseCache {
       : responseTime;
   }
 
-  private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  private logDebug(message: string, fields?: LogFields): void {
+    this.logger.debug(message, fields);
+  }
+
+  private logWarn(message: string, error?: unknown, fields?: LogFields): void {
+    this.logger.warn(message, error === undefined ? fields : { ...fields, error });
   }
 
-  private logDebug(message: string, ...args: any[]): void {
-    if (this.debug) {
-      console.log(`[AIResponseCache] ${message}`, ...args);
+  private logError(message: string, error?: unknown, fields?: LogFields): void {
+    this.logger.error(message, error === undefined ? fields : { ...fields, error });
+  }
+
+  /**
+   * Log a failure the cache recovers from (or rethrows) as a warning and
+   * emit it as an 'error' event.
+   */
+  private reportError(
+    operation: CacheErrorOperation,
+    message: string,
+    error: unknown,
+    context: { key?: string; provider?: string; model?: string } = {}
+  ): void {
+    this.logWarn(message, error, { ...context, operation });
+    this.emit('error', { ...context, operation, error });
+  }
+
+  private eventContext(key: string, options: WrapOptions): { key: string; provider: string; model: string } {
+    return { key, provider: options.provider, model: options.model };
+  }
+
+  /** Re-emit storage lifecycle events (set, evict, expire, delete, error) from the cache. */
+  private forwardStorageEvents(): void {
+    const storage = this.storage;
+    if (!storage.on) return;
+    const forward = <E extends keyof StorageEventMap>(event: E) =>
+      storage.on!(event, (payload) => this.emit(event, payload as CacheEventMap[E]));
+    forward('set');
+    forward('evict');
+    forward('expire');
+    forward('delete');
+    forward('error');
+  }
+
+  /**
+   * Drop the vector of every entry the storage removes on its own — LRU
+   * eviction and expiry — so the semantic index doesn't outgrow the cache.
+   */
+  private pruneVectorsOnRemoval(): void {
+    if (!this.storage.on) return;
+    this.storage.on('evict', ({ key }) => void this.forgetVector(key));
+    this.storage.on('expire', ({ key }) => void this.forgetVector(key));
+  }
+
+  private async forgetVector(key: string): Promise<void> {
+    if (!this.vectorStore) return;
+    try {
+      await this.vectorStore.delete(key);
+    } catch (error) {
+      this.reportError('vector', 'Vector store delete error:', error, { key });
     }
   }
 
-  private logError(message: string, error?: any): void {
-    console.error(`[AIResponseCache] ${message}`, error);
+  /**
+   * Delete every vector whose cache entry no longer exists — e.g. Redis
+   * expired it, or another process deleted it. Runs every
+   * `semantic.sweepIntervalMs`; call it directly to reconcile now. Needs a
+   * vector store with `ids()`. Returns the number of vectors deleted.
+   */
+  async sweepVectors(): Promise<number> {
+    const vectorStore = this.vectorStore;
+    if (!vectorStore?.ids) return 0;
+
+    // Storage swallows its errors and reports a miss, which would look like
+    // a dead entry — so an error anywhere in the sweep stops the deletes.
+    let storageFailed = false;
+    const onError = () => {
+      storageFailed = true;
+    };
+    this.on('error', onError);
+    try {
+      const ids = await vectorStore.ids();
+      const orphans: string[] = [];
+      for (const id of ids) {
+        if (!(await this.storage.has(id))) orphans.push(id);
+      }
+      if (storageFailed) return 0;
+      let swept = 0;
+      for (const id of orphans) {
+        // The key may have been written, and its vector re-added, since the check above.
+        const written = await this.storage.has(id);
+        if (storageFailed) break;
+        if (written) continue;
+        await vectorStore.delete(id);
+        swept++;
+      }
+      if (swept > 0) {
+        this.logDebug(`Swept ${swept} orphaned vectors`);
+      }
+      return swept;
+    } catch (error) {
+      this.reportError('vector', 'Vector sweep error:', error);
+      return 0;
+    } finally {
+      this.off('error', onError);
+    }
+  }
+
+  /**
+   * Explain how wrap() would handle a call, without making it: the exact key
+   * and its entry, the text the semantic tier would embed, and the top-K
+   * neighbours with their scores, entries and whatever would reject them.
+   * Stats, events, stored entries and the provider are left alone; the only
+   * calls out are the embedding and, when verification is on, the verifier.
+   * Errors are thrown rather than reported.
+   */
+  async explain(options: WrapOptions): Promise<CacheExplanation> {
+    this.validateWrapOptions(options);
+    const mode: CacheMode = options.mode ?? getScopedCacheMode() ?? 'default';
+    const key = options.cacheKey || this.generateKey(options.provider, options.model, options.prompt, options.params);
+    const entry = await this.peekEntry(key);
+    const inFlight = this.inFlight.has(key);
+    const semanticOn = options.semantic?.enabled ?? this.semanticEnabled;
+    const semantic =
+      semanticOn && this.embeddingProvider && this.vectorStore ? await this.explainSemantic(key, options) : null;
+
+    // The same order of checks as lookupOrCall().
+    const reads = mode !== 'refresh' && mode !== 'write-only';
+    const value = entry?.kind === 'error' ? null : entry;
+    let outcome: ExplainOutcome = 'miss';
+    if (mode === 'bypass') {
+      outcome = 'bypass';
+    } else if (reads && entry?.kind === 'error' && isEntryFresh(entry) && this.isNegativeCacheOn(options)) {
+      outcome = 'negative';
+    } else if (reads && value && isEntryFresh(value)) {
+      outcome = 'exact';
+    } else if (reads && value && this.isWithinStaleWindow(value, options)) {
+      outcome = 'stale';
+    } else if (inFlight) {
+      outcome = 'coalesced';
+    } else if (reads && semantic?.matchedKey && !semantic.shadow) {
+      outcome = 'semantic';
+    }
+
+    return {
+      key,
+      mode,
+      exact: { exists: entry !== null, ...this.describeEntry(entry, options) },
+      inFlight,
+      semantic,
+      outcome,
+    };
+  }
+
+  /** The semantic half of explain(): settings, neighbours, and which one would be served. */
+  private async explainSemantic(key: string, options: WrapOptions): Promise<SemanticExplanation> {
+    const context = resolveSemanticContext(options.prompt, options.semantic?.context ?? this.semanticContext);
+    const route = this.routeFor(options);
+    const calibrated = this.calibrator?.thresholdFor(route);
+    const threshold = options.semantic?.threshold ?? calibrated ?? this.semanticThreshold;
+    const verification = this.verificationFor(options);
+    const shadowing = this.shadow?.mode === 'shadow';
+    let recall = verification ? verification.recallThreshold : threshold;
+    if (shadowing) recall = Math.min(recall, this.shadow!.recorder.minThreshold);
+    const guard = this.guardChecksFor(options);
+    const filter = this.scopeFilter(this.semanticMetaFor(options, context), options);
+
+    const explanation: SemanticExplanation = {
+      embedText: context.text,
+      context: context.contextId,
+      embeddingProvider: this.embeddingProvider.id,
+      route,
+      threshold,
+      thresholdSource:
+        options.semantic?.threshold !== undefined ? 'call' : calibrated !== undefined ? 'calibration' : 'config',
+      ...(verification && { recallThreshold: verification.recallThreshold }),
+      scope: options.semantic?.scope ?? this.semanticScope,
+      filter,
+      guard,
+      verification: verification && { verifier: verification.verifier.id, minScore: verification.minScore },
+      shadow: shadowing,
+      neighbours: [],
+    };
+    if (!context.text) return explanation;
+
+    const embedding = await this.embeddingProvider.embed(context.text);
+    const matches = await this.vectorStore.search(embedding, this.semanticTopK, filter);
+    // Neighbours that pass every check before the verifier, best first.
+    const eligible: ExplainedNeighbour[] = [];
+    for (const match of matches) {
+      const neighbour: ExplainedNeighbour = {
+        key: match.id,
+        score: match.score,
+        clearsThreshold: match.score >= recall,
+        ...this.describeEntry(await this.peekEntry(match.id), options),
+      };
+      if (typeof match.meta?.text === 'string') neighbour.text = match.meta.text;
+      const mismatch = this.guardMismatch(context.text, neighbour.text, guard);
+      if (!neighbour.clearsThreshold) {
+        neighbour.rejected = `score ${match.score.toFixed(4)} < threshold ${recall}`;
+      } else if (this.isBlocked(key, match.id)) {
+        neighbour.rejected = 'labelled bad through feedback()';
+      } else if (mismatch) {
+        neighbour.rejected = `rejected by guard (${mismatch})`;
+      } else if (neighbour.entry !== 'fresh') {
+        neighbour.rejected = `entry is ${neighbour.entry}`;
+      } else {
+        eligible.push(neighbour);
+      }
+      explanation.neighbours.push(neighbour);
+    }
+
+    let chosen: ExplainedNeighbour | undefined = eligible[0];
+    if (verification && eligible.length > 0) {
+      chosen = undefined;
+      const verifiable = eligible.filter((neighbour) => neighbour.text !== undefined);
+      for (const neighbour of eligible) {
+        if (neighbour.text === undefined) neighbour.rejected = 'no prompt text stored to verify against';
+      }
+      if (verifiable.length > 0) {
+        const scores = await verification.verifier.score(context.text, verifiable.map((neighbour) => neighbour.text!));
+        verifiable.forEach((neighbour, i) => {
+          neighbour.verifierScore = scores[i];
+          if (scores[i] < verification.minScore) {
+            neighbour.rejected = `rejected by verifier (verifierScore=${scores[i].toFixed(4)} < minScore=${verification.minScore})`;
+          } else if (!chosen || scores[i] > chosen.verifierScore!) {
+            chosen = neighbour;
+          }
+        });
+      }
+    }
+    for (const neighbour of eligible) {
+      if (chosen && neighbour !== chosen && !neighbour.rejected) neighbour.rejected = `outranked by ${chosen.key}`;
+    }
+    if (chosen) explanation.matchedKey = chosen.key;
+    return explanation;
+  }
+
+  /** Read an entry without expiring it, where the storage supports that. */
+  private peekEntry(key: string): Promise<CacheEntry | null> {
+    return this.storage.peek ? this.storage.peek(key) : this.storage.get(key);
+  }
+
+  private describeEntry(
+    entry: CacheEntry | null,
+    options: WrapOptions
+  ): { entry: ExplainedEntryState; ageMs?: number; ttlRemainingMs?: number } {
+    if (!entry) return { entry: 'missing' };
+    const now = Date.now();
+    let state: ExplainedEntryState = 'expired';
+    if (entry.kind === 'error') state = 'error';
+    else if (isEntryFresh(entry, now)) state = 'fresh';
+    else if (this.isWithinStaleWindow(entry, options)) state = 'stale';
+    return { entry: state, ageMs: now - entry.timestamp, ttlRemainingMs: entryExpiresAt(entry) - now };
+  }
+
+  /**
+   * Label a semantic hit, by the `requestId` from its meta (or the one you
+   * passed) or by its cache key. A 'bad' label stops that query from being
+   * matched to that entry again; with calibration on, every label also
+   * tunes the route's threshold. Each hit can be labelled once. Returns
+   * false when there is no recent semantic hit by that id or key.
+   */
+  async feedback(keyOrRequestId: string, label: FeedbackLabel): Promise<boolean> {
+    if (label !== 'good' && label !== 'bad') {
+      throw new Error("label must be 'good' or 'bad'");
+    }
+    const requestId = this.outcomes.has(keyOrRequestId) ? keyOrRequestId : this.outcomeIdsByKey.get(keyOrRequestId);
+    const outcome = requestId === undefined ? undefined : this.outcomes.get(requestId);
+    if (!outcome) {
+      this.logDebug(`No semantic hit awaiting feedback for: ${keyOrRequestId}`);
+      return false;
+    }
+    this.forgetOutcome(outcome);
+
+    if (label === 'bad') {
+      const now = Date.now();
+      for (const [pair, until] of this.blockedPairs) {
+        if (now > until) this.blockedPairs.delete(pair);
+      }
+      this.blockedPairs.set(`${outcome.key}\n${outcome.matchedKey}`, outcome.expiresAt);
+    }
+
+    let threshold: number | undefined;
+    if (this.calibrator) {
+      threshold = this.calibrator.record(outcome.route, outcome.score, label);
+      try {
+        await this.config.semantic.calibration?.onUpdate?.(this.calibrator.exportState());
+      } catch (error) {
+        this.reportError('feedback', 'Calibration onUpdate error:', error, { key: outcome.key });
+      }
+    }
+    this.logDebug(`Feedback '${label}' for key: ${outcome.key} (matched ${outcome.matchedKey})`, { key: outcome.key });
+    this.emit('feedback', {
+      key: outcome.key,
+      provider: outcome.provider,
+      model: outcome.model,
+      matchedKey: outcome.matchedKey,
+      score: outcome.score,
+      route: outcome.route,
+      label,
+      threshold,
+    });
+    return true;
+  }
+
+  /**
+   * What shadow mode has measured so far: the projected semantic hit rate
+   * and disagreement rate at each configured threshold, plus the sample-mode
+   * checks of served hits. Null when `semantic.shadow` is off.
+   */
+  getShadowReport(): ShadowReport | null {
+    return this.shadow ? this.shadow.recorder.report(this.shadow.comparator.id) : null;
+  }
+
+  /** Start the shadow report over. */
+  resetShadowReport(): void {
+    this.shadow?.recorder.reset();
+  }
+
+  /** The calibrator's current state, to persist and pass back as `semantic.calibration.state`; null when calibration is off. */
+  exportCalibration(): CalibrationState | null {
+    return this.calibrator?.exportState() ?? null;
   }
 
   // Pattern-based cache invalidation (BRD REQ-004)
@@ -413,22 +1659,27 @@ export class AIResponseCache {
       let deletedCount = 0;
       for (const key of matchingKeys) {
         const deleted = await this.storage.delete(key);
+        await this.forgetVector(key);
         if (deleted) deletedCount++;
       }
       
       this.logDebug(`Deleted ${deletedCount} keys matching pattern: ${pattern}`);
       return deletedCount;
     } catch (error) {
-      this.logError('Pattern delete error:', error);
+      this.reportError('delete', 'Pattern delete error:', error);
       return 0;
     }
   }
 
   // Disconnect from storage (useful for Redis)
   async disconnect(): Promise<void> {
+    clearInterval(this.vectorSweepTimer);
+    this.vectorSweepTimer = undefined;
     try {
-      if (this.storage instanceof RedisStorage) {
-        await (this.storage as RedisStorage).disconnect();
+      // Stops RedisStorage's connection, or a custom storage's timers.
+      const storage = this.storage as { disconnect?: () => Promise<void> };
+      if (typeof storage.disconnect === 'function') {
+        await storage.disconnect();
       }
       // Close the vector store's own connection if it owns one (e.g. RedisVectorStore).
       const vectorStore = this.vectorStore as { disconnect?: () => Promise<void> } | undefined;
@@ -437,7 +1688,7 @@ export class AIResponseCache {
       }
       this.logDebug('Storage disconnected successfully');
     } catch (error) {
-      this.logError('Storage disconnect error:', error);
+      this.reportError('disconnect', 'Storage disconnect error:', error);
     }
   }
 
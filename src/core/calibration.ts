@@ -0,0 +1,97 @@
+import { CalibrationConfig, CalibrationState, FeedbackLabel } from './types.js';
+
+/**
+ * Learns a semantic threshold per route from labelled hits. Each route keeps
+ * a sliding window of (score, label) samples. Once it has `minSamples`, the
+ * threshold moves to the lowest score at which the labelled hits above it
+ * still reach `targetPrecision`. When every labelled hit is good, it steps
+ * down by `step` to find out whether a looser threshold still holds.
+ * Thresholds always stay within [minThreshold, maxThreshold].
+ */
+export class ThresholdCalibrator {
+  private baseThreshold: number;
+  private targetPrecision: number;
+  private minThreshold: number;
+  private maxThreshold: number;
+  private minSamples: number;
+  private maxSamples: number;
+  private step: number;
+  private routes: CalibrationState['routes'] = {};
+
+  constructor(config: Omit<CalibrationConfig, 'enabled' | 'onUpdate'> & { baseThreshold?: number } = {}) {
+    this.baseThreshold = config.baseThreshold ?? 0.95;
+    this.targetPrecision = config.targetPrecision ?? 0.95;
+    this.minThreshold = config.minThreshold ?? 0.85;
+    this.maxThreshold = config.maxThreshold ?? 0.99;
+    this.minSamples = config.minSamples ?? 20;
+    this.maxSamples = config.maxSamples ?? 200;
+    this.step = config.step ?? 0.005;
+
+    if (!(this.targetPrecision > 0 && this.targetPrecision <= 1)) {
+      throw new Error('calibration.targetPrecision must be in (0, 1]');
+    }
+    if (this.minThreshold > this.maxThreshold) {
+      throw new Error('calibration.minThreshold must not exceed calibration.maxThreshold');
+    }
+    if (!(Number.isInteger(this.minSamples) && this.minSamples > 0) || this.maxSamples < this.minSamples) {
+      throw new Error('calibration.minSamples must be a positive integer no greater than maxSamples');
+    }
+    if (config.state) this.importState(config.state);
+  }
+
+  /** The calibrated threshold for `route`, or undefined until it has enough labels. */
+  thresholdFor(route: string): number | undefined {
+    return this.routes[route]?.threshold;
+  }
+
+  /** Add a labelled hit and recalibrate its route. Returns the route's threshold afterwards. */
+  record(route: string, score: number, label: FeedbackLabel): number | undefined {
+    const state = (this.routes[route] ??= { samples: [] });
+    state.samples.push({ score, label });
+    if (state.samples.length > this.maxSamples) {
+      state.samples.splice(0, state.samples.length - this.maxSamples);
+    }
+    this.recalibrate(route);
+    return state.threshold;
+  }
+
+  /** A JSON-serialisable copy of every route's samples and threshold, for persisting. */
+  exportState(): CalibrationState {
+    return JSON.parse(JSON.stringify({ version: 1, routes: this.routes }));
+  }
+
+  /** Replace the current state with one from exportState(). */
+  importState(state: CalibrationState): void {
+    if (state?.version !== 1 || typeof state.routes !== 'object') {
+      throw new Error('Unsupported calibration state');
+    }
+    this.routes = JSON.parse(JSON.stringify(state.routes));
+  }
+
+  private recalibrate(route: string): void {
+    const state = this.routes[route];
+    if (state.samples.length < this.minSamples) return;
+
+    // Walk from the highest score down; `lowest` ends at the lowest score
+    // whose cumulative precision still meets the target.
+    const sorted = [...state.samples].sort((a, b) => b.score - a.score);
+    let good = 0;
+    let lowest: number | undefined;
+    sorted.forEach((sample, index) => {
+      if (sample.label === 'good') good++;
+      if (good / (index + 1) >= this.targetPrecision) lowest = sample.score;
+    });
+
+    const current = state.threshold ?? this.baseThreshold;
+    let next: number;
+    if (lowest === undefined) {
+      next = this.maxThreshold;
+    } else if (lowest === sorted[sorted.length - 1].score) {
+      // Every labelled hit so far meets the target: probe a little lower.
+      next = Math.min(current, lowest) - this.step;
+    } else {
+      next = lowest;
+    }
+    state.threshold = Math.min(this.maxThreshold, Math.max(this.minThreshold, next));
+  }
+}
@@ -9,4 +9,11 @@ export const DEFAULT_CACHE_CONFIG: Required<CacheConfig> = {
   enableStats: true,
   debug: false,
   semantic: { enabled: false },
+  distributedLock: { enabled: false },
+  staleWhileRevalidate: 0,
+  earlyExpiration: { enabled: false },
+  retry: {},
+  negativeCache: { enabled: false },
+  logger: 'console',
+  logSampling: { enabled: false },
 };
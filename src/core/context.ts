@@ -0,0 +1,35 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { CacheMode } from './types.js';
+
+const modeScope = new AsyncLocalStorage<CacheMode>();
+
+/**
+ * Run `fn` with `mode` applied to every wrap() call made inside it,
+ * including calls made after awaits. A `mode` passed to an individual call
+ * still wins, and nested scopes override outer ones.
+ */
+export function withCacheMode<T>(mode: CacheMode, fn: () => T): T {
+  return modeScope.run(mode, fn);
+}
+
+/** The mode set by the innermost enclosing withCacheMode(), if any. */
+export function getScopedCacheMode(): CacheMode | undefined {
+  return modeScope.getStore();
+}
+
+/**
+ * Map a request's `Cache-Control` header to a cache mode, for middleware:
+ * `no-store` → 'bypass', `only-if-cached` → 'cache-only', `no-cache` or
+ * `max-age=0` → 'refresh'. Returns undefined when no directive applies.
+ */
+export function cacheModeFromCacheControl(header: string | string[] | null | undefined): CacheMode | undefined {
+  if (!header) return undefined;
+  const directives = (Array.isArray(header) ? header.join(',') : header)
+    .split(',')
+    .map(directive => directive.trim().toLowerCase().replace(/\s+/g, ''));
+
+  if (directives.includes('no-store')) return 'bypass';
+  if (directives.includes('only-if-cached')) return 'cache-only';
+  if (directives.includes('no-cache') || directives.includes('max-age=0')) return 'refresh';
+  return undefined;
+}
@@ -0,0 +1,54 @@
+import { CachedErrorData } from './types.js';
+
+/**
+ * Thrown by wrap() (and the provider wrappers) when the caller's `signal`
+ * aborts or its `timeoutMs` elapses. `name` is 'AbortError', matching the
+ * DOM convention, so generic abort handling keeps working.
+ */
+export class CacheAbortError extends Error {
+  /** 'TIMEOUT' when `timeoutMs` elapsed, 'ABORTED' when the caller's signal fired. */
+  readonly code: 'ABORTED' | 'TIMEOUT';
+
+  constructor(code: 'ABORTED' | 'TIMEOUT' = 'ABORTED', message?: string) {
+    super(message ?? (code === 'TIMEOUT' ? 'The operation timed out' : 'The operation was aborted'));
+    this.name = 'AbortError';
+    this.code = code;
+  }
+}
+
+/**
+ * Rethrown from a negative-cache entry in place of the provider's original
+ * error. Carries the original `name`, `message`, `status`, `code` and `type`,
+ * so status/code checks keep working; it is not an instance of the SDK's
+ * error class.
+ */
+export class CachedProviderError extends Error {
+  readonly status?: number;
+  readonly code?: string;
+  readonly type?: string;
+  /** Always true — this error was served from the cache, not the provider. */
+  readonly cached = true;
+
+  constructor(data: CachedErrorData) {
+    super(data.message);
+    this.name = data.name;
+    this.status = data.status;
+    this.code = data.code;
+    this.type = data.type;
+  }
+}
+
+/**
+ * Thrown by a `cache-only` call when nothing usable is cached for it, so
+ * callers can tell "not cached" apart from a provider failure.
+ */
+export class CacheMissError extends Error {
+  /** The exact cache key that was looked up. */
+  readonly key: string;
+
+  constructor(key: string) {
+    super(`No cached response for key: ${key}`);
+    this.name = 'CacheMissError';
+    this.key = key;
+  }
+}
@@ -0,0 +1,55 @@
+import { CacheLogger } from './types.js';
+import { consoleLogger } from '../utils/logger.js';
+
+type Listener<P> = (payload: P) => void;
+
+/**
+ * Minimal typed event emitter for the cache and its storage backends.
+ * Unlike Node's EventEmitter, emitting 'error' with no listener is a no-op,
+ * and a listener that throws is logged rather than breaking the cache
+ * operation that emitted the event.
+ */
+export class CacheEventEmitter<Events extends object> {
+  private listeners = new Map<keyof Events, Set<Listener<any>>>();
+  /** Where a throwing listener is reported; subclasses swap in their configured logger. */
+  protected logger: CacheLogger = consoleLogger('[smart-ai-cache] ');
+
+  on<E extends keyof Events>(event: E, listener: Listener<Events[E]>): this {
+    let set = this.listeners.get(event);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(event, set);
+    }
+    set.add(listener);
+    return this;
+  }
+
+  once<E extends keyof Events>(event: E, listener: Listener<Events[E]>): this {
+    const wrapper: Listener<Events[E]> = (payload) => {
+      this.off(event, wrapper);
+      listener(payload);
+    };
+    return this.on(event, wrapper);
+  }
+
+  off<E extends keyof Events>(event: E, listener: Listener<Events[E]>): this {
+    this.listeners.get(event)?.delete(listener);
+    return this;
+  }
+
+  listenerCount(event: keyof Events): number {
+    return this.listeners.get(event)?.size ?? 0;
+  }
+
+  protected emit<E extends keyof Events>(event: E, payload: Events[E]): void {
+    const set = this.listeners.get(event);
+    if (!set) return;
+    for (const listener of [...set]) {
+      try {
+        listener(payload);
+      } catch (error) {
+        this.logger.error(`Listener for '${String(event)}' threw:`, { error });
+      }
+    }
+  }
+}
@@ -0,0 +1,31 @@
+import { CachedErrorData } from './types.js';
+import { CachedProviderError } from './errors.js';
+import { getErrorStatus } from './retry.js';
+
+/**
+ * Default negative-cache classifier: failures that the same request will hit
+ * again every time. 400 (validation, context length exceeded, content policy),
+ * 404 (unknown model) and 422. Auth errors (401/403), rate limits and server
+ * errors depend on the environment, not the request, so they are never cached.
+ */
+export function isDeterministicError(error: unknown): boolean {
+  const status = getErrorStatus(error);
+  return status === 400 || status === 404 || status === 422;
+}
+
+/** The parts of a provider error worth keeping — JSON-safe for Redis. */
+export function serializeError(error: any): CachedErrorData {
+  const data: CachedErrorData = {
+    name: typeof error?.name === 'string' ? error.name : 'Error',
+    message: typeof error?.message === 'string' ? error.message : String(error),
+  };
+  const status = getErrorStatus(error);
+  if (status !== undefined) data.status = status;
+  if (typeof error?.code === 'string') data.code = error.code;
+  if (typeof error?.type === 'string') data.type = error.type;
+  return data;
+}
+
+export function reconstructError(data: CachedErrorData): CachedProviderError {
+  return new CachedProviderError(data);
+}
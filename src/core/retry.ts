@@ -0,0 +1,106 @@
+import { RetryPolicy } from './types.js';
+
+/** A RetryPolicy with every field filled in. */
+export type ResolvedRetryPolicy = Required<RetryPolicy>;
+
+/**
+ * HTTP status carried by a provider SDK error. OpenAI and Anthropic `APIError`
+ * and Google's `GoogleGenerativeAIFetchError` all expose `status`; plain
+ * fetch/axios-style errors use `statusCode` or `response.status`.
+ */
+export function getErrorStatus(error: any): number | undefined {
+  const status = error?.status ?? error?.statusCode ?? error?.response?.status;
+  return typeof status === 'number' ? status : undefined;
+}
+
+function getHeader(headers: any, name: string): string | undefined {
+  if (!headers) return undefined;
+  if (typeof headers.get === 'function') {
+    return headers.get(name) ?? undefined;
+  }
+  const value = headers[name] ?? headers[name.toLowerCase()];
+  return value == null ? undefined : String(value);
+}
+
+/**
+ * Server-requested delay before retrying, in ms: OpenAI's `retry-after-ms`,
+ * a standard `Retry-After` (seconds or HTTP date), or Google's `RetryInfo`
+ * error detail (e.g. `retryDelay: "30s"`).
+ */
+export function getRetryAfterMs(error: any): number | undefined {
+  const headers = error?.headers ?? error?.response?.headers;
+
+  const retryAfterMs = parseFloat(getHeader(headers, 'retry-after-ms') ?? '');
+  if (Number.isFinite(retryAfterMs) && retryAfterMs >= 0) return retryAfterMs;
+
+  const retryAfter = getHeader(headers, 'retry-after');
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (Number.isFinite(seconds) && seconds >= 0) return seconds * 1000;
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+  }
+
+  if (Array.isArray(error?.errorDetails)) {
+    for (const detail of error.errorDetails) {
+      const match = typeof detail?.retryDelay === 'string' && /^([\d.]+)s$/.exec(detail.retryDelay);
+      if (match) return parseFloat(match[1]) * 1000;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Default retry classification. Network failures and 5xx are transient;
+ * 408 and 429 are worth retrying; every other 4xx (bad request, auth,
+ * not found, …) fails the same way every time. Caller aborts never retry.
+ */
+export function isRetryableError(error: any): boolean {
+  if (error?.name === 'AbortError' || error?.name === 'APIUserAbortError') return false;
+  const status = getErrorStatus(error);
+  if (status === undefined) return true;
+  if (status === 408 || status === 429) return true;
+  return status >= 500;
+}
+
+export function resolveRetryPolicy(
+  ...policies: Array<RetryPolicy | undefined>
+): ResolvedRetryPolicy {
+  const merged = Object.assign({}, ...policies) as RetryPolicy;
+  return {
+    maxAttempts: merged.maxAttempts ?? 3,
+    backoff: merged.backoff ?? 'exponential',
+    baseDelayMs: merged.baseDelayMs ?? 1000,
+    maxDelayMs: merged.maxDelayMs ?? 60000,
+    jitter: merged.jitter ?? 'none',
+    shouldRetry: merged.shouldRetry ?? ((error: unknown) => isRetryableError(error)),
+  };
+}
+
+/**
+ * Delay before the retry that follows failed attempt number `attempt`
+ * (1-based). A server-provided delay wins over the backoff curve; returns
+ * null when that delay is longer than `maxDelayMs`, i.e. not worth waiting.
+ */
+export function computeRetryDelay(policy: ResolvedRetryPolicy, attempt: number, error: unknown): number | null {
+  const serverDelay = getRetryAfterMs(error);
+  if (serverDelay !== undefined) {
+    return serverDelay <= policy.maxDelayMs ? serverDelay : null;
+  }
+
+  let delay: number;
+  if (typeof policy.backoff === 'function') {
+    delay = policy.backoff(attempt);
+  } else if (policy.backoff === 'linear') {
+    delay = policy.baseDelayMs * attempt;
+  } else if (policy.backoff === 'constant') {
+    delay = policy.baseDelayMs;
+  } else {
+    delay = policy.baseDelayMs * Math.pow(2, attempt);
+  }
+  delay = Math.min(delay, policy.maxDelayMs);
+
+  if (policy.jitter === 'full') return Math.random() * delay;
+  if (policy.jitter === 'equal') return delay / 2 + Math.random() * (delay / 2);
+  return delay;
+}
@@ -0,0 +1,106 @@
+import { SemanticContext } from './types.js';
+import { generateHashedKeyForPayload } from '../utils/key-generator.js';
+
+/**
+ * How much of a conversation the semantic tier looks at, per the configured
+ * context strategy: the text to embed, an id recorded with the vector (only
+ * vectors stored under the same strategy can match), and for 'history-hash'
+ * the hash of the earlier turns, which must match exactly.
+ */
+export interface SemanticContextKey {
+  text: string | null;
+  contextId: string;
+  historyHash?: string;
+}
+
+export function resolveSemanticContext(prompt: any, context: SemanticContext): SemanticContextKey {
+  switch (context.strategy) {
+    case 'history-hash':
+      return {
+        text: lastUserMessageText(prompt),
+        contextId: 'history-hash',
+        historyHash: generateHashedKeyForPayload(precedingTurns(prompt).map(turnOf)),
+      };
+    case 'window':
+      return { text: windowText(prompt, context.turns), contextId: `window:${context.turns}` };
+    case 'custom':
+      return { text: context.embedText(prompt)?.trim() || null, contextId: `custom:${context.id ?? 'default'}` };
+    default:
+      return { text: lastUserMessageText(prompt), contextId: 'last-message' };
+  }
+}
+
+/**
+ * The last user message. System prompts and prior history are left out —
+ * they pollute similarity. Falls back sensibly for string / object prompts.
+ */
+export function lastUserMessageText(prompt: any): string | null {
+  if (prompt == null) return null;
+  if (typeof prompt === 'string') return prompt.trim() || null;
+
+  if (Array.isArray(prompt)) {
+    for (let i = prompt.length - 1; i >= 0; i--) {
+      const msg = prompt[i];
+      if (msg && (msg.role === 'user' || msg.role === undefined)) {
+        const text = messageContentToText(msg.content ?? msg);
+        if (text) return text;
+      }
+    }
+    const last = prompt[prompt.length - 1];
+    return last ? messageContentToText(last.content ?? last) : null;
+  }
+
+  if (typeof prompt === 'object') {
+    if (typeof prompt.content === 'string') return prompt.content.trim() || null;
+    return JSON.stringify(prompt);
+  }
+  return String(prompt);
+}
+
+function messageContentToText(content: any): string | null {
+  if (content == null) return null;
+  if (typeof content === 'string') return content.trim() || null;
+  // OpenAI multimodal: array of parts; concatenate the text parts.
+  if (Array.isArray(content)) {
+    const parts = content
+      .map((p) => (typeof p === 'string' ? p : typeof p?.text === 'string' ? p.text : ''))
+      .filter(Boolean);
+    const joined = parts.join(' ').trim();
+    return joined || null;
+  }
+  if (typeof content === 'object' && typeof content.text === 'string') {
+    return content.text.trim() || null;
+  }
+  return null;
+}
+
+function isSystemMessage(msg: any): boolean {
+  return msg?.role === 'system' || msg?.role === 'developer';
+}
+
+/** Conversation turns (no system messages) up to and including the last user message. */
+function conversationTurns(prompt: any): any[] {
+  if (!Array.isArray(prompt)) return prompt == null ? [] : [prompt];
+  let end = prompt.length - 1;
+  while (end >= 0 && !(prompt[end] && (prompt[end].role === 'user' || prompt[end].role === undefined))) end--;
+  if (end < 0) end = prompt.length - 1;
+  return prompt.slice(0, end + 1).filter((msg) => !isSystemMessage(msg));
+}
+
+function precedingTurns(prompt: any): any[] {
+  return conversationTurns(prompt).slice(0, -1);
+}
+
+function turnOf(msg: any): { role?: string; text: string | null } {
+  return { role: msg?.role, text: messageContentToText(msg?.content ?? msg) };
+}
+
+function windowText(prompt: any, turns: number): string | null {
+  if (!Array.isArray(prompt)) return lastUserMessageText(prompt);
+  const lines = conversationTurns(prompt)
+    .slice(-Math.max(1, turns))
+    .map(turnOf)
+    .filter((turn) => turn.text)
+    .map((turn) => (turn.role ? `${turn.role}: ${turn.text}` : turn.text));
+  return lines.join('\n') || null;
+}
@@ -1,6 +1,19 @@
 import { RedisOptions } from 'ioredis';
 import { EmbeddingProvider } from '../embeddings/embedding-provider.js';
 import { VectorStore } from '../vector/vector-store.js';
+import { SemanticVerifier } from '../verification/verifier.js';
+import { LexicalGuardCheck } from '../verification/lexical-guard.js';
+import { ResponseComparator } from '../shadow/comparator.js';
+import type { StorageInterface } from '../storage/redis-storage.js';
+
+/** A provider error as stored in a negative-cache entry. */
+export interface CachedErrorData {
+  name: string;
+  message: string;
+  status?: number;
+  code?: string;
+  type?: string;
+}
 
 export interface CacheEntry {
   key: string;
@@ -11,6 +24,16 @@ export interface CacheEntry {
   model: string;
   tokenCount: number;
   cost: number;
+  /**
+   * Seconds past `ttl` during which the entry may still be served stale while
+   * a background refresh runs. Storage keeps the entry until then.
+   */
+  staleWhileRevalidate?: number;
+  /** How long the provider call that produced the value took, in ms. Drives early expiration. */
+  computeTime?: number;
+  /** 'error' marks a negative-cache entry: `error` is rethrown instead of returning `value`. Default: 'value'. */
+  kind?: 'value' | 'error';
+  error?: CachedErrorData;
 }
 
 /**
@@ -27,23 +50,617 @@ export interface SemanticConfig {
   vectorStore?: VectorStore;
   /** Cosine similarity required for a hit. Default: 0.95 (deliberately high). */
   threshold?: number;
-  /** Nearest-neighbours to fetch per lookup. Default: 1. */
+  /**
+   * Nearest-neighbours to fetch per lookup. When the best match points at an
+   * entry that is gone, the next one above threshold is tried. Default: 3.
+   */
   topK?: number;
   /** Model id passed to the default LocalEmbeddingProvider. */
   model?: string;
   /** Log queries that fell just below threshold, to help tune it. Default: false. */
   logNearMisses?: boolean;
+  /**
+   * What a semantic match must share with the query. Default: all four — the
+   * same provider, model, params (temperature, response_format, ...) and
+   * system prompt. Drop fields to share answers more widely.
+   */
+  scope?: SemanticScopeField[];
+  /** How much of a multi-turn conversation a match considers. Default: { strategy: 'last-message' }. */
+  context?: SemanticContext;
+  /**
+   * How often to drop vectors whose cache entry no longer exists (e.g. Redis
+   * expired it), in ms. Needs a vector store with `ids()`. 0 disables. Default: 600000.
+   */
+  sweepIntervalMs?: number;
+  /** Re-score candidates with a verifier before serving them. Off by default. */
+  verification?: VerificationConfig;
+  /** Reject candidates whose prompt differs from the query in key content. Off by default. */
+  guard?: LexicalGuardConfig;
+  /** Tune `threshold` per route from feedback() labels. Off by default. */
+  calibration?: CalibrationConfig;
+  /** Compare what the semantic tier serves (or would serve) with fresh responses. Off by default. */
+  shadow?: ShadowConfig;
+}
+
+/**
+ * Measure the semantic tier against real traffic:
+ * - `shadow`: never serve a semantic hit. On an exact miss, find what would
+ *   have been served and its score, call the provider anyway, and compare
+ *   the two responses. getShadowReport() projects the hit and disagreement
+ *   rates at each of `thresholds`.
+ * - `sample`: serve semantic hits as usual, and for `sampleRate` of them
+ *   also call the provider in the background and compare. The fresh
+ *   response is only compared, never cached.
+ */
+export interface ShadowConfig {
+  /** Master switch. Default: false. */
+  enabled: boolean;
+  /** Default: 'shadow'. */
+  mode?: 'shadow' | 'sample';
+  /** Decides whether two responses agree. Default: ExactTextComparator. */
+  comparator?: ResponseComparator;
+  /** Cosine thresholds to project the report at (shadow mode). Default: [0.85, 0.9, 0.95]. */
+  thresholds?: number[];
+  /** Share of served semantic hits to check, in [0, 1] (sample mode). Default: 0.05. */
+  sampleRate?: number;
+}
+
+/** Projected outcome at one threshold, from shadow lookups. */
+export interface ShadowThresholdReport {
+  threshold: number;
+  /** Lookups whose would-be hit scored at least `threshold`. */
+  hits: number;
+  /** hits / lookups. */
+  hitRate: number;
+  /** Of those hits, how many the comparator said disagreed with the fresh response. */
+  disagreements: number;
+  /** disagreements / hits; 0 with no hits. */
+  disagreementRate: number;
+}
+
+/** What getShadowReport() returns. */
+export interface ShadowReport {
+  /** Id of the comparator that judged the responses. */
+  comparator: string;
+  /** Exact misses that ran a shadow semantic lookup, with or without a would-be hit. */
+  lookups: number;
+  /** One row per configured threshold, lowest first. */
+  thresholds: ShadowThresholdReport[];
+  /** Served semantic hits checked against a fresh call (sample mode). */
+  sampled: { checked: number; disagreements: number; disagreementRate: number };
+  /** When counting started: construction, or the last resetShadowReport(). */
+  since: Date;
+}
+
+/** A user's verdict on a semantic hit, given through feedback(). */
+export type FeedbackLabel = 'good' | 'bad';
+
+/**
+ * Per-route threshold calibration from feedback() labels. The learned
+ * threshold replaces `threshold` for the route; a per-call threshold still
+ * wins.
+ */
+export interface CalibrationConfig {
+  /** Master switch. Default: false. */
+  enabled: boolean;
+  /** Share of served semantic hits that should be labelled good. Default: 0.95. */
+  targetPrecision?: number;
+  /** The threshold never drops below this. Default: 0.85. */
+  minThreshold?: number;
+  /** Nor rises above this. Default: 0.99. */
+  maxThreshold?: number;
+  /** Labels a route needs before its threshold moves. Default: 20. */
+  minSamples?: number;
+  /** Labels kept per route (most recent). Default: 200. */
+  maxSamples?: number;
+  /** How far to lower a threshold whose hits are all good, per label. Default: 0.005. */
+  step?: number;
+  /** State saved from an earlier run (see `onUpdate` and exportCalibration()). */
+  state?: CalibrationState;
+  /** Called with the new state after each label, e.g. to persist it. */
+  onUpdate?: (state: CalibrationState) => void | Promise<void>;
+}
+
+/** The calibrator's JSON-serialisable state: recent labels and the threshold per route. */
+export interface CalibrationState {
+  version: 1;
+  routes: Record<string, { threshold?: number; samples: Array<{ score: number; label: FeedbackLabel }> }>;
+}
+
+/**
+ * Dependency-free check run on every semantic candidate before it is served:
+ * a candidate is rejected when its prompt and the query differ in numbers,
+ * dates, quoted strings, named entities, code identifiers or negation —
+ * however close their embeddings are.
+ */
+export interface LexicalGuardConfig {
+  /** Master switch. Default: false. */
+  enabled: boolean;
+  /** Which differences reject a candidate. Default: all of them. */
+  checks?: LexicalGuardCheck[];
+}
+
+/**
+ * Two-stage matching: the vector search recalls every candidate above
+ * `recallThreshold`, then `verifier` scores each (query, cached prompt) pair
+ * and only a pair scoring at least `minScore` is a hit. While on, the
+ * recall threshold stands in for `threshold`.
+ */
+export interface VerificationConfig {
+  /** Master switch. Default: false. */
+  enabled: boolean;
+  /** Default: CrossEncoderVerifier (local, via `@xenova/transformers`). */
+  verifier?: SemanticVerifier;
+  /** Cosine similarity a candidate needs to reach the verifier. Default: 0.85. */
+  recallThreshold?: number;
+  /** Verifier score a candidate needs to be served. Default: 0.5. */
+  minScore?: number;
+}
+
+/**
+ * Context strategy for chat prompts:
+ * - `last-message`: embed the last user message only.
+ * - `history-hash`: embed the last user message, and only match calls whose
+ *   earlier turns are identical.
+ * - `window`: embed the last `turns` turns (roles included) as one text.
+ * - `custom`: embed whatever `embedText(prompt)` returns. Give each distinct
+ *   function its own `id`, so vectors from different functions never match.
+ */
+export type SemanticContext =
+  | { strategy: 'last-message' }
+  | { strategy: 'history-hash' }
+  | { strategy: 'window'; turns: number }
+  | { strategy: 'custom'; embedText: (prompt: any) => string | null; id?: string };
+
+export type SemanticScopeField = 'provider' | 'model' | 'params' | 'systemPrompt';
+
+/** Metadata stored with each semantic vector; `scope` picks the fields a match must share. */
+export interface SemanticVectorMeta {
+  provider: string;
+  model: string;
+  /** Hash of the call's params. */
+  paramsHash: string;
+  /** Hash of the system prompt (system/developer messages, or Anthropic/Google system params). */
+  systemPromptHash: string;
+  /** The context strategy the vector was embedded under, e.g. 'last-message' or 'window:3'. */
+  context: string;
+  /** Hash of the earlier turns, with the 'history-hash' strategy. */
+  historyHash?: string;
+  /** The text that was embedded, so a verifier can compare later queries against it. */
+  text?: string;
+}
+
+/**
+ * Opt-in cross-process single-flight for shared storage (RedisStorage). On a
+ * miss, one process takes a per-key SET NX PX lease and calls the provider;
+ * the others wait for its entry instead of making the same call.
+ */
+export interface DistributedLockConfig {
+  /** Master switch. Default: false. */
+  enabled: boolean;
+  /** Lock lease. Should exceed your slowest provider call. Default: 30000ms. */
+  leaseMs?: number;
+  /** How long a waiter waits before calling the provider itself. Default: 10000ms. */
+  waitTimeoutMs?: number;
+  /** How often a waiter checks for the entry. Default: 50ms. */
+  pollIntervalMs?: number;
+}
+
+/**
+ * Probabilistic early expiration (XFetch). As a hot entry nears its expiry, a
+ * growing share of hits trigger a background refresh — weighted by how long
+ * the original call took — so a popular prompt doesn't expire under load and
+ * stampede the provider.
+ */
+export interface EarlyExpirationConfig {
+  /** Master switch. Default: false. */
+  enabled: boolean;
+  /** Above 1 refreshes earlier, below 1 later. Default: 1. */
+  beta?: number;
+}
+
+/**
+ * How wrap() retries a failing provider call. Every field is optional; the
+ * config-level policy is merged under any per-call one.
+ */
+export interface RetryPolicy {
+  /** Total attempts, including the first call. Default: 3. */
+  maxAttempts?: number;
+  /**
+   * Delay curve by failed-attempt number (1-based): 'exponential'
+   * (base × 2^n), 'linear' (base × n), 'constant', or your own function.
+   * Default: 'exponential'.
+   */
+  backoff?: 'exponential' | 'linear' | 'constant' | ((attempt: number) => number);
+  /** Default: 1000ms (10ms in debug mode). */
+  baseDelayMs?: number;
+  /**
+   * Cap on any single delay. A server-provided Retry-After longer than this
+   * fails the call instead of waiting. Default: 60000ms.
+   */
+  maxDelayMs?: number;
+  /** 'full' waits rand(0, delay); 'equal' waits delay/2 + rand(0, delay/2). Default: 'none'. */
+  jitter?: 'none' | 'full' | 'equal';
+  /**
+   * Whether to retry after `error` on failed attempt `attempt`. Default:
+   * isRetryableError — network errors, 408, 429 and 5xx only.
+   */
+  shouldRetry?: (error: unknown, attempt: number) => boolean;
+}
+
+/**
+ * Opt-in negative caching. A provider failure the classifier deems
+ * deterministic is stored for a short TTL, and identical calls rethrow it
+ * (as a CachedProviderError) without calling the provider.
+ */
+export interface NegativeCacheConfig {
+  /** Master switch. Default: false. */
+  enabled: boolean;
+  /** Seconds to keep a cached failure. Default: 60. */
+  ttl?: number;
+  /** Which errors to cache. Default: isDeterministicError (400, 404, 422). */
+  isCacheable?: (error: unknown) => boolean;
+}
+
+/** Structured fields attached to a log line; a failure is passed as `error`. */
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Logger for the `logger` option. The `(message, fields)` signature matches
+ * winston and console-style loggers; wrap a pino logger with pinoLogger().
+ */
+export interface CacheLogger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
+
+/**
+ * Sample repeated warnings and errors: after `burst` lines with the same
+ * message inside `windowMs`, further ones are dropped until the window ends.
+ * The next line logged for that message carries a `suppressed` count.
+ */
+export interface LogSamplingConfig {
+  enabled: boolean;
+  /** Default: 60000. */
+  windowMs?: number;
+  /** Lines logged per message per window before sampling kicks in. Default: 1. */
+  burst?: number;
 }
 
 export interface CacheConfig {
   ttl?: number;
   maxSize?: number;
-  storage?: 'memory' | 'redis';
+  /** A built-in backend, or any StorageInterface instance (e.g. PostgresStorage). Default: 'memory'. */
+  storage?: 'memory' | 'redis' | StorageInterface;
   redisOptions?: RedisOptions;
   keyPrefix?: string;
   enableStats?: boolean;
   debug?: boolean;
   semantic?: SemanticConfig;
+  distributedLock?: DistributedLockConfig;
+  /**
+   * Seconds past TTL during which an expired entry is still returned
+   * immediately while one background call refreshes it. Default: 0 (off).
+   */
+  staleWhileRevalidate?: number;
+  earlyExpiration?: EarlyExpirationConfig;
+  retry?: RetryPolicy;
+  negativeCache?: NegativeCacheConfig;
+  /**
+   * Where the cache, its storage and vector store log. 'console' (the
+   * default) prints with an `[AIResponseCache]` prefix and shows debug lines
+   * only when `debug` is on; 'silent' drops everything. A custom logger gets
+   * every level and filters them itself.
+   */
+  logger?: CacheLogger | 'console' | 'silent';
+  logSampling?: LogSamplingConfig;
+}
+
+/**
+ * How a call uses the cache:
+ * - `default`: serve hits, call the provider and store on a miss.
+ * - `bypass`: skip the cache entirely (no lookup, no write, not counted in stats).
+ * - `refresh`: skip the lookup, call the provider and overwrite the entry.
+ * - `read-only`: serve hits; on a miss call the provider but never write.
+ * - `write-only`: like `refresh`, for warming — not counted as cache traffic.
+ * - `cache-only`: serve hits; never call the provider, throw CacheMissError on a miss.
+ */
+export type CacheMode = 'default' | 'bypass' | 'refresh' | 'read-only' | 'write-only' | 'cache-only';
+
+/** Per-call options shared by wrap() and the provider wrapper methods. */
+export interface ProviderCallOptions {
+  /**
+   * Cache mode for this call. Overrides a mode set for the surrounding
+   * async scope with withCacheMode(); defaults to 'default'.
+   */
+  mode?: CacheMode;
+  /**
+   * Cancels this caller's wait (lookup, backoff sleep and provider call)
+   * with a CacheAbortError. A provider call shared with other coalesced
+   * callers keeps running until all of them have aborted.
+   */
+  signal?: AbortSignal;
+  /** Abort this caller after this many ms (CacheAbortError with code 'TIMEOUT'). */
+  timeoutMs?: number;
+  /**
+   * Groups calls for threshold calibration, e.g. 'support-chat'. Default:
+   * `provider:model`.
+   */
+  route?: string;
+  /**
+   * Your id for this request (e.g. a chat message id), to pass to feedback()
+   * later. A semantic hit gets a generated one when omitted; see `meta.requestId`.
+   */
+  requestId?: string;
+}
+
+/** Options for a single wrap() call. */
+export interface WrapOptions extends ProviderCallOptions {
+  provider: string;
+  model: string;
+  /** Use this key instead of one generated from provider, model, prompt and params. */
+  cacheKey?: string;
+  ttl?: number;
+  prompt?: any;
+  params?: any;
+  /** Per-call semantic overrides (e.g. a looser/tighter threshold for one route). */
+  semantic?: {
+    enabled?: boolean;
+    threshold?: number;
+    scope?: SemanticScopeField[];
+    context?: SemanticContext;
+    verification?: { enabled?: boolean; recallThreshold?: number; minScore?: number };
+    guard?: { enabled?: boolean; checks?: LexicalGuardCheck[] };
+  };
+  /** Per-call stale-while-revalidate window in seconds; overrides the config. */
+  staleWhileRevalidate?: number;
+  /** Per-call early expiration overrides. */
+  earlyExpiration?: { enabled?: boolean; beta?: number };
+  /** Per-call retry overrides, merged over the config's policy. */
+  retry?: RetryPolicy;
+  /** Per-call negative caching overrides. */
+  negativeCache?: { enabled?: boolean; ttl?: number };
+}
+
+/** How a response was served. */
+export type CacheHitType = 'exact' | 'semantic' | 'stale' | 'coalesced' | 'miss' | 'bypass';
+
+/** Provenance of a response returned by wrapWithMeta(). */
+export interface CacheMeta {
+  hitType: CacheHitType;
+  /** True for every hit type except 'miss' and 'bypass' (no provider call was made for this caller). */
+  cached: boolean;
+  /** The exact cache key of this call. */
+  key: string;
+  /** On semantic hits: the id to pass to feedback() if the answer turns out wrong (or right). */
+  requestId?: string;
+  /** Key of the entry or in-flight call that served the value (a neighbour's key on a semantic match). */
+  matchedKey?: string;
+  /** Cosine similarity, for semantic hits and calls coalesced onto a paraphrase. */
+  score?: number;
+  /** The verifier's score, for semantic hits when verification is on. */
+  verifierScore?: number;
+  /** Age of the served entry in ms (0 for a fresh provider call). */
+  ageMs?: number;
+  /** Ms until the served entry expires; negative when a stale entry was served. */
+  ttlRemainingMs?: number;
+  /**
+   * What the response originally cost — the amount saved when it was served
+   * from the cache. 0 when another process's call served it while this one
+   * waited on the distributed lock.
+   */
+  cost: number;
+  /** Time this call spent in the cache, including any provider call. */
+  latencyMs: number;
+}
+
+/** Result of wrapWithMeta() and the provider `...WithMeta` methods. */
+export interface WrapResult<T> {
+  value: T;
+  meta: CacheMeta;
+}
+
+/** What wrap() would do with a call, as predicted by explain(). */
+export type ExplainOutcome = 'exact' | 'stale' | 'negative' | 'coalesced' | 'semantic' | 'miss' | 'bypass';
+
+/** A stored entry's state: servable, servable stale, past both, or a cached provider failure. */
+export type ExplainedEntryState = 'fresh' | 'stale' | 'expired' | 'error' | 'missing';
+
+/** One vector search neighbour, as seen by explain(). */
+export interface ExplainedNeighbour {
+  /** Cache key of the neighbour's entry. */
+  key: string;
+  score: number;
+  /** Whether `score` reaches the threshold (the recall threshold, with verification on). */
+  clearsThreshold: boolean;
+  entry: ExplainedEntryState;
+  ageMs?: number;
+  ttlRemainingMs?: number;
+  /** The prompt text stored with the vector. */
+  text?: string;
+  /** The verifier's score, when verification is on and the neighbour reached it. */
+  verifierScore?: number;
+  /** Why this neighbour would not be served; unset for the one that would. */
+  rejected?: string;
+}
+
+/** The semantic half of an explanation. */
+export interface SemanticExplanation {
+  /** The text the context strategy picked to embed; null when the prompt has none. */
+  embedText: string | null;
+  /** The context strategy id recorded with vectors, e.g. `last-message` or `window:3`. */
+  context: string;
+  /** Id of the embedding provider. */
+  embeddingProvider: string;
+  route: string;
+  threshold: number;
+  /** Where `threshold` came from: the call, the route's calibration, or the config. */
+  thresholdSource: 'call' | 'calibration' | 'config';
+  /** The bar for reaching the verifier, when verification is on. */
+  recallThreshold?: number;
+  scope: SemanticScopeField[];
+  /** The meta filter the search ran with: the scope fields plus the context strategy. */
+  filter: Record<string, string | number | boolean>;
+  /** Lexical guard checks applied; null when the guard is off. */
+  guard: LexicalGuardCheck[] | null;
+  /** Verifier id and minScore; null when verification is off. */
+  verification: { verifier: string; minScore: number } | null;
+  /** Shadow mode is on, so a match is only recorded, never served. */
+  shadow: boolean;
+  /** The top-K neighbours, best first. */
+  neighbours: ExplainedNeighbour[];
+  /** The neighbour the semantic tier would pick, if any. */
+  matchedKey?: string;
+}
+
+/** Result of explain(). */
+export interface CacheExplanation {
+  /** The exact cache key for the call. */
+  key: string;
+  mode: CacheMode;
+  /** The entry stored under `key`. */
+  exact: { exists: boolean; entry: ExplainedEntryState; ageMs?: number; ttlRemainingMs?: number };
+  /** A provider call for `key` is running right now. */
+  inFlight: boolean;
+  /** Null when the semantic tier is off for this call. */
+  semantic: SemanticExplanation | null;
+  outcome: ExplainOutcome;
+}
+
+/** Fields carried by every cache lifecycle event. */
+export interface CacheEventBase {
+  /** The exact cache key the event is about. */
+  key: string;
+  provider?: string;
+  model?: string;
+}
+
+/** An exact (or stale) hit served from storage. */
+export interface CacheHitEvent extends CacheEventBase {
+  hitType: 'exact' | 'stale';
+  /** Original cost of the response, saved by this hit. */
+  cost: number;
+  ageMs: number;
+  /** Lookup latency of this call. */
+  latencyMs: number;
+}
+
+/** A paraphrase served through the semantic tier. */
+export interface CacheSemanticHitEvent extends CacheEventBase {
+  /** Key of the entry that answered the call. */
+  matchedKey: string;
+  score: number;
+  /** The verifier's score, when verification is on. */
+  verifierScore?: number;
+  cost: number;
+  latencyMs: number;
+}
+
+/** The closest semantic neighbour scored below the threshold. */
+export interface CacheNearMissEvent extends CacheEventBase {
+  matchedKey: string;
+  score: number;
+  threshold: number;
+  /** Set when the candidate cleared the recall threshold but the verifier rejected it. */
+  verifierScore?: number;
+  /** Why a candidate above the threshold was rejected, e.g. `numbers differ: [5] vs [10]`. */
+  reason?: string;
+}
+
+/** Nothing usable was cached; the provider is about to be called (or, for cache-only, the call fails). */
+export interface CacheMissEvent extends CacheEventBase {
+  latencyMs: number;
+}
+
+/** An entry was written to storage. */
+export interface CacheSetEvent extends CacheEventBase {
+  ttl: number;
+  cost: number;
+  /** How long the provider call that produced the entry took, when known. */
+  latencyMs?: number;
+  kind: 'value' | 'error';
+}
+
+/** An entry left storage: evicted for space, dropped as expired, or deleted. */
+export type CacheEntryRemovedEvent = CacheEventBase;
+
+/** A semantic hit was labelled through feedback(). */
+export interface CacheFeedbackEvent extends CacheEventBase {
+  /** Key of the entry that answered the call. */
+  matchedKey: string;
+  score: number;
+  route: string;
+  label: FeedbackLabel;
+  /** The route's calibrated threshold after this label, when calibration is on and has one. */
+  threshold?: number;
+}
+
+/** A fresh response was compared with the one the semantic tier served or would have served. */
+export interface CacheShadowEvent extends CacheEventBase {
+  /** Key of the entry the semantic tier picked. */
+  matchedKey: string;
+  score: number;
+  agreed: boolean;
+  /** 'shadow' for a would-be hit, 'sample' for a served hit that was checked. */
+  mode: 'shadow' | 'sample';
+}
+
+/** A failed provider attempt is about to be retried. */
+export interface CacheRetryEvent extends CacheEventBase {
+  /** The attempt that failed (1-based). */
+  attempt: number;
+  delayMs: number;
+  error: unknown;
+}
+
+export type CacheErrorOperation =
+  | 'get'
+  | 'set'
+  | 'delete'
+  | 'clear'
+  | 'has'
+  | 'size'
+  | 'keys'
+  | 'purge'
+  | 'semantic'
+  | 'vector'
+  | 'lock'
+  | 'revalidate'
+  | 'provider'
+  | 'connection'
+  | 'disconnect'
+  | 'feedback'
+  | 'shadow';
+
+/**
+ * Something failed. Most of these are degraded, not fatal: the cache logs
+ * them and carries on. 'provider' is a provider failure that reached the caller.
+ */
+export interface CacheErrorEvent extends Partial<CacheEventBase> {
+  operation: CacheErrorOperation;
+  error: unknown;
+}
+
+/** Events emitted by the storage backends. */
+export interface StorageEventMap {
+  set: CacheSetEvent;
+  evict: CacheEntryRemovedEvent;
+  expire: CacheEntryRemovedEvent;
+  delete: CacheEntryRemovedEvent;
+  error: CacheErrorEvent;
+}
+
+/** Events emitted by AIResponseCache, including those forwarded from its storage. */
+export interface CacheEventMap extends StorageEventMap {
+  hit: CacheHitEvent;
+  semanticHit: CacheSemanticHitEvent;
+  nearMiss: CacheNearMissEvent;
+  miss: CacheMissEvent;
+  retry: CacheRetryEvent;
+  feedback: CacheFeedbackEvent;
+  shadow: CacheShadowEvent;
 }
 
 export interface ProviderConfig {
@@ -63,8 +680,28 @@ export interface CacheStats {
   cacheMisses: number;
   /** Subset of cacheHits served by the semantic tier (paraphrase matches). */
   semanticHits: number;
+  /** Subset of cacheHits served stale (past TTL) while a background refresh ran. */
+  staleHits: number;
+  /** Hits that also started a background refresh because the entry was about to expire (XFetch). */
+  earlyRefreshes: number;
   /** Queries that matched a vector below threshold (only counted when logNearMisses). */
   nearMisses: number;
+  /**
+   * Requests that arrived while an identical (or, with semantic on, similar
+   * enough) miss was already calling the provider, and shared its result
+   * instead of making a call of their own. Counted neither as hits nor misses.
+   */
+  coalescedRequests: number;
+  /** Misses served by an entry another process wrote while this one waited on the distributed lock. */
+  distributedWaits: number;
+  /** Calls answered by rethrowing a cached provider failure. Not counted as hits. */
+  negativeHits: number;
+  /** Provider calls that were retried after a failed attempt. */
+  retries: number;
+  /** Lookups whose semantic candidates were all rejected by the verifier. */
+  verifierRejections: number;
+  /** Lookups whose semantic candidates were all rejected by the lexical guard. */
+  guardRejections: number;
   hitRate: number;
   totalCostSaved: number;
   averageResponseTime: number;
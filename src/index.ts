@@ -1,10 +1,23 @@
 export { AIResponseCache } from './core/cache.js';
+export { isRetryableError, getRetryAfterMs, getErrorStatus } from './core/retry.js';
+export { CacheAbortError, CachedProviderError, CacheMissError } from './core/errors.js';
+export { withCacheMode, getScopedCacheMode, cacheModeFromCacheControl } from './core/context.js';
+export { ThresholdCalibrator } from './core/calibration.js';
+export { consoleLogger, silentLogger, pinoLogger, sampledLogger } from './utils/logger.js';
+export type { PinoLike } from './utils/logger.js';
+export { isDeterministicError } from './core/negative-cache.js';
 export { OpenAICache } from './providers/openai.js';
 export { AnthropicCache } from './providers/anthropic.js';
 export { GoogleCache } from './providers/google.js';
 export { MemoryStorage } from './storage/memory-storage.js';
 export { RedisStorage } from './storage/redis-storage.js';
 export type { StorageInterface } from './storage/redis-storage.js';
+export { PostgresStorage } from './storage/postgres-storage.js';
+export type { PostgresStorageOptions } from './storage/postgres-storage.js';
+export { migratePostgres } from './storage/postgres-schema.js';
+export type { PgQueryable, PostgresMigrationOptions } from './storage/postgres-schema.js';
+export { SqliteStorage } from './storage/sqlite-storage.js';
+export type { SqliteStorageOptions, SqliteDatabase, SqliteStatement } from './storage/sqlite-storage.js';
 
 // Semantic tier (Phase 1) — embeddings + vector stores
 export type { EmbeddingProvider } from './embeddings/embedding-provider.js';
@@ -13,6 +26,23 @@ export { OpenAIEmbeddingProvider } from './embeddings/openai.js';
 export { MockEmbeddingProvider } from './embeddings/mock.js';
 export type { VectorStore, VectorSearchResult } from './vector/vector-store.js';
 export { MemoryVectorStore, cosineSimilarity } from './vector/memory-vector-store.js';
+export type { MemoryVectorStoreOptions } from './vector/memory-vector-store.js';
 export { RedisVectorStore } from './vector/redis-vector-store.js';
+export type { RedisVectorStoreOptions, RedisLshOptions } from './vector/redis-vector-store.js';
+export { RediSearchVectorStore } from './vector/redisearch-vector-store.js';
+export type { RediSearchVectorStoreOptions } from './vector/redisearch-vector-store.js';
+export { PgVectorStore } from './vector/pgvector-store.js';
+export type { PgVectorStoreOptions } from './vector/pgvector-store.js';
+export { SqliteVectorStore } from './vector/sqlite-vector-store.js';
+export type { SqliteVectorStoreOptions } from './vector/sqlite-vector-store.js';
+export { HnswVectorStore } from './vector/hnsw-vector-store.js';
+export type { HnswVectorStoreOptions, HnswSnapshot } from './vector/hnsw-vector-store.js';
+export type { SemanticVerifier } from './verification/verifier.js';
+export { CrossEncoderVerifier } from './verification/cross-encoder.js';
+export { MockVerifier } from './verification/mock.js';
+export { lexicalMismatch, LEXICAL_GUARD_CHECKS } from './verification/lexical-guard.js';
+export type { LexicalGuardCheck, LexicalMismatch } from './verification/lexical-guard.js';
+export type { ResponseComparator, EmbeddingComparatorOptions } from './shadow/comparator.js';
+export { ExactTextComparator, EmbeddingComparator, responseText } from './shadow/comparator.js';
 
 export * from './core/types.js';
@@ -1,6 +1,6 @@
 import Anthropic from '@anthropic-ai/sdk';
 import { AIResponseCache } from '../core/cache.js';
-import { CacheConfig } from '../core/types.js';
+import { CacheConfig, ProviderCallOptions, WrapResult } from '../core/types.js';
 
 const ANTHROPIC_PRICING: Record<string, { input: number; output: number }> = {
   'claude-3-opus-20240229': { input: 15 / 1_000_000, output: 75 / 1_000_000 },
@@ -16,13 +16,23 @@ export class AnthropicCache extends AIResponseCache {
   }
 
   async messages(
-    params: Anthropic.MessageCreateParamsNonStreaming
+    params: Anthropic.MessageCreateParamsNonStreaming,
+    options: ProviderCallOptions = {}
   ): Promise<Anthropic.Message> {
+    const { value } = await this.messagesWithMeta(params, options);
+    return value;
+  }
+
+  /** messages() plus how the response was served (see wrapWithMeta()). */
+  async messagesWithMeta(
+    params: Anthropic.MessageCreateParamsNonStreaming,
+    options: ProviderCallOptions = {}
+  ): Promise<WrapResult<Anthropic.Message>> {
     const { model, messages, ...rest } = params;
 
-    return super.wrap(
-      async () => {
-        const response = await this.anthropic.messages.create(params) as Anthropic.Message;
+    return super.wrapWithMeta(
+      async (signal) => {
+        const response = await this.anthropic.messages.create(params, { signal }) as Anthropic.Message;
         let tokenCount = 0;
         let cost = 0;
         if (response.usage) {
@@ -39,6 +49,11 @@ export class AnthropicCache extends AIResponseCache {
         model,
         prompt: messages,
         params: rest,
+        signal: options.signal,
+        timeoutMs: options.timeoutMs,
+        mode: options.mode,
+        route: options.route,
+        requestId: options.requestId,
       }
     );
   }
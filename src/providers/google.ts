@@ -1,6 +1,6 @@
 import { GoogleGenerativeAI, GenerateContentRequest, GenerateContentResult } from '@google/generative-ai';
 import { AIResponseCache } from '../core/cache.js';
-import { CacheConfig } from '../core/types.js';
+import { CacheConfig, ProviderCallOptions, WrapResult } from '../core/types.js';
 
 const GOOGLE_PRICING: Record<string, { input: number; output: number }> = {
     'gemini-pro': { input: 0.000125 / 1000, output: 0.000375 / 1000 },
@@ -16,14 +16,25 @@ export class GoogleCache extends AIResponseCache {
 
   async generateContent(
     params: GenerateContentRequest,
-    modelName: string = 'gemini-pro'
+    modelName: string = 'gemini-pro',
+    options: ProviderCallOptions = {}
   ): Promise<GenerateContentResult> {
+    const { value } = await this.generateContentWithMeta(params, modelName, options);
+    return value;
+  }
+
+  /** generateContent() plus how the response was served (see wrapWithMeta()). */
+  async generateContentWithMeta(
+    params: GenerateContentRequest,
+    modelName: string = 'gemini-pro',
+    options: ProviderCallOptions = {}
+  ): Promise<WrapResult<GenerateContentResult>> {
     const { contents, ...rest } = params;
     const generativeModel = this.googleAI.getGenerativeModel({ model: modelName });
 
-    return super.wrap(
-      async () => {
-        const response = await generativeModel.generateContent(params);
+    return super.wrapWithMeta(
+      async (signal) => {
+        const response = await generativeModel.generateContent(params, { signal });
         // Note: Google's SDK does not provide token usage directly in the response.
         // A separate call to countTokens would be needed, which adds latency.
         // For this MVP, we will not implement cost calculation for Google models.
@@ -34,6 +45,11 @@ export class GoogleCache extends AIResponseCache {
         model: modelName,
         prompt: contents,
         params: rest,
+        signal: options.signal,
+        timeoutMs: options.timeoutMs,
+        mode: options.mode,
+        route: options.route,
+        requestId: options.requestId,
       }
     );
   }
@@ -1,6 +1,6 @@
 import OpenAI from 'openai';
 import { AIResponseCache } from '../core/cache.js';
-import { CacheConfig } from '../core/types.js';
+import { CacheConfig, ProviderCallOptions, WrapResult } from '../core/types.js';
 
 // Placeholder for actual pricing data
 const OPENAI_PRICING: Record<string, { input: number; output: number }> = {
@@ -17,13 +17,23 @@ export class OpenAICache extends AIResponseCache {
   }
 
   async chatCompletion(
-    params: OpenAI.ChatCompletionCreateParamsNonStreaming
+    params: OpenAI.ChatCompletionCreateParamsNonStreaming,
+    options: ProviderCallOptions = {}
   ): Promise<OpenAI.ChatCompletion> {
+    const { value } = await this.chatCompletionWithMeta(params, options);
+    return value;
+  }
+
+  /** chatCompletion() plus how the response was served (see wrapWithMeta()). */
+  async chatCompletionWithMeta(
+    params: OpenAI.ChatCompletionCreateParamsNonStreaming,
+    options: ProviderCallOptions = {}
+  ): Promise<WrapResult<OpenAI.ChatCompletion>> {
     const { model, messages, ...rest } = params;
 
-    return super.wrap(
-      async () => {
-        const response = await this.openai.chat.completions.create(params) as OpenAI.ChatCompletion;
+    return super.wrapWithMeta(
+      async (signal) => {
+        const response = await this.openai.chat.completions.create(params, { signal }) as OpenAI.ChatCompletion;
         let tokenCount = 0;
         let cost = 0;
         if (response.usage) {
@@ -40,6 +50,11 @@ export class OpenAICache extends AIResponseCache {
         model,
         prompt: messages,
         params: rest,
+        signal: options.signal,
+        timeoutMs: options.timeoutMs,
+        mode: options.mode,
+        route: options.route,
+        requestId: options.requestId,
       }
     );
   }
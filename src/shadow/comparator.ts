@@ -0,0 +1,92 @@
+import { EmbeddingProvider } from '../embeddings/embedding-provider.js';
+import { LocalEmbeddingProvider } from '../embeddings/local.js';
+import { cosineSimilarity } from '../vector/memory-vector-store.js';
+
+/**
+ * Judges shadow comparisons: given the response the provider just returned
+ * and the one the semantic tier would have served instead, decides whether
+ * serving the cached one would have been fine.
+ */
+export interface ResponseComparator {
+  /** Stable identifier, shown in the shadow report. */
+  readonly id: string;
+
+  /** Whether `cached` is an acceptable answer where `fresh` was returned. `prompt` is the call's prompt. */
+  agrees(fresh: unknown, cached: unknown, prompt: unknown): Promise<boolean>;
+}
+
+/**
+ * The text of a provider response: OpenAI chat or completion choices,
+ * Anthropic text blocks, Google candidate parts, a plain string — or, for
+ * anything else, its JSON.
+ */
+export function responseText(value: unknown): string {
+  if (typeof value === 'string') return value;
+  const response = value as any;
+  if (Array.isArray(response?.choices)) {
+    return response.choices
+      .map((choice: any) => choice?.message?.content ?? choice?.text ?? '')
+      .join('\n');
+  }
+  if (Array.isArray(response?.content)) {
+    return response.content
+      .filter((block: any) => typeof block?.text === 'string')
+      .map((block: any) => block.text)
+      .join('\n');
+  }
+  const candidates = response?.response?.candidates ?? response?.candidates;
+  if (Array.isArray(candidates)) {
+    return candidates
+      .flatMap((candidate: any) => candidate?.content?.parts ?? [])
+      .map((part: any) => part?.text ?? '')
+      .join('\n');
+  }
+  return JSON.stringify(value) ?? '';
+}
+
+function normalise(text: string): string {
+  return text.trim().replace(/\s+/g, ' ');
+}
+
+/**
+ * Agrees when both responses have the same text, ignoring surrounding and
+ * repeated whitespace. Strict — right for deterministic (temperature 0)
+ * calls and structured output; free-form answers rarely repeat word for word.
+ */
+export class ExactTextComparator implements ResponseComparator {
+  readonly id = 'exact-text';
+
+  async agrees(fresh: unknown, cached: unknown): Promise<boolean> {
+    return normalise(responseText(fresh)) === normalise(responseText(cached));
+  }
+}
+
+export interface EmbeddingComparatorOptions {
+  /** Default: LocalEmbeddingProvider. */
+  provider?: EmbeddingProvider;
+  /** Cosine similarity of the two answers needed to agree. Default: 0.9. */
+  minSimilarity?: number;
+}
+
+/**
+ * Agrees when the two answers embed close together: the same content in
+ * different words passes, a different fact usually doesn't.
+ */
+export class EmbeddingComparator implements ResponseComparator {
+  readonly id: string;
+  private provider: EmbeddingProvider;
+  private minSimilarity: number;
+
+  constructor(options: EmbeddingComparatorOptions = {}) {
+    this.provider = options.provider ?? new LocalEmbeddingProvider();
+    this.minSimilarity = options.minSimilarity ?? 0.9;
+    this.id = `embedding:${this.provider.id}`;
+  }
+
+  async agrees(fresh: unknown, cached: unknown): Promise<boolean> {
+    const [a, b] = [responseText(fresh), responseText(cached)];
+    if (normalise(a) === normalise(b)) return true;
+    const [freshEmbedding, cachedEmbedding] = await Promise.all([this.provider.embed(a), this.provider.embed(b)]);
+    return cosineSimilarity(freshEmbedding, cachedEmbedding) >= this.minSimilarity;
+  }
+}
@@ -0,0 +1,76 @@
+import { ShadowReport } from '../core/types.js';
+
+/**
+ * Tallies shadow comparisons into a ShadowReport. Counts are kept per
+ * reported threshold rather than per observation, so memory stays flat
+ * however long shadow mode runs.
+ */
+export class ShadowRecorder {
+  private thresholds: number[];
+  private lookups = 0;
+  private hits: number[] = [];
+  private disagreements: number[] = [];
+  private sampledChecked = 0;
+  private sampledDisagreements = 0;
+  private since = new Date();
+
+  constructor(thresholds: number[]) {
+    this.thresholds = [...new Set(thresholds)].sort((a, b) => a - b);
+    this.reset();
+  }
+
+  /** The lowest reported threshold: candidates below it can't count anywhere. */
+  get minThreshold(): number {
+    return this.thresholds[0];
+  }
+
+  /**
+   * A shadow lookup. `score` and `agreed` describe the would-be hit, if
+   * there was one.
+   */
+  recordLookup(hit?: { score: number; agreed: boolean }): void {
+    this.lookups++;
+    if (!hit) return;
+    this.thresholds.forEach((threshold, i) => {
+      if (hit.score < threshold) return;
+      this.hits[i]++;
+      if (!hit.agreed) this.disagreements[i]++;
+    });
+  }
+
+  /** A served semantic hit checked against a fresh call. */
+  recordSample(agreed: boolean): void {
+    this.sampledChecked++;
+    if (!agreed) this.sampledDisagreements++;
+  }
+
+  report(comparator: string): ShadowReport {
+    const rate = (count: number, total: number) => (total > 0 ? count / total : 0);
+    return {
+      comparator,
+      lookups: this.lookups,
+      thresholds: this.thresholds.map((threshold, i) => ({
+        threshold,
+        hits: this.hits[i],
+        hitRate: rate(this.hits[i], this.lookups),
+        disagreements: this.disagreements[i],
+        disagreementRate: rate(this.disagreements[i], this.hits[i]),
+      })),
+      sampled: {
+        checked: this.sampledChecked,
+        disagreements: this.sampledDisagreements,
+        disagreementRate: rate(this.sampledDisagreements, this.sampledChecked),
+      },
+      since: this.since,
+    };
+  }
+
+  reset(): void {
+    this.lookups = 0;
+    this.hits = this.thresholds.map(() => 0);
+    this.disagreements = this.thresholds.map(() => 0);
+    this.sampledChecked = 0;
+    this.sampledDisagreements = 0;
+    this.since = new Date();
+  }
+}
@@ -1,11 +1,14 @@
-import { CacheEntry } from '../core/types.js';
+import { CacheEntry, StorageEventMap } from '../core/types.js';
+import { CacheEventEmitter } from '../core/events.js';
 import { StorageInterface } from './redis-storage.js';
+import { entryRetainedUntil } from '../utils/expiry.js';
 
-export class MemoryStorage implements StorageInterface {
+export class MemoryStorage extends CacheEventEmitter<StorageEventMap> implements StorageInterface {
   private cache = new Map<string, CacheEntry>();
   private maxSize: number;
 
   constructor(maxSize: number = 1000) {
+    super();
     this.maxSize = maxSize;
   }
 
@@ -13,17 +16,31 @@ export class MemoryStorage implements StorageInterface {
     const entry = this.cache.get(key);
     if (!entry) return null;
     
-    // Check if entry has expired
-    if (Date.now() > entry.timestamp + entry.ttl * 1000) {
+    // Check if entry has expired (past any stale-while-revalidate window too)
+    if (Date.now() > entryRetainedUntil(entry)) {
       this.cache.delete(key);
+      this.emit('expire', { key, provider: entry.provider, model: entry.model });
       return null;
     }
     
     return entry;
   }
 
+  async peek(key: string): Promise<CacheEntry | null> {
+    return this.cache.get(key) ?? null;
+  }
+
   async set(key: string, entry: CacheEntry): Promise<void> {
     this.cache.set(key, entry);
+    this.emit('set', {
+      key,
+      provider: entry.provider,
+      model: entry.model,
+      ttl: entry.ttl,
+      cost: entry.cost,
+      latencyMs: entry.computeTime,
+      kind: entry.kind ?? 'value',
+    });
     
     // Implement LRU eviction if needed
     if (this.cache.size > this.maxSize) {
@@ -32,7 +49,11 @@ export class MemoryStorage implements StorageInterface {
   }
 
   async delete(key: string): Promise<boolean> {
-    return this.cache.delete(key);
+    const entry = this.cache.get(key);
+    if (!entry) return false;
+    this.cache.delete(key);
+    this.emit('delete', { key, provider: entry.provider, model: entry.model });
+    return true;
   }
 
   async clear(): Promise<void> {
@@ -64,7 +85,9 @@ export class MemoryStorage implements StorageInterface {
     }
 
     if (oldestKey) {
+      const evicted = this.cache.get(oldestKey)!;
       this.cache.delete(oldestKey);
+      this.emit('evict', { key: oldestKey, provider: evicted.provider, model: evicted.model });
     }
   }
-}
\ No newline at end of file
+}
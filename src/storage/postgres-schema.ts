@@ -0,0 +1,90 @@
+/**
+ * The part of a node-postgres `Pool` (or `Client`) the Postgres backends
+ * use. Inject your own pool; PostgresStorage and PgVectorStore can share it,
+ * and neither closes it.
+ */
+export interface PgQueryable {
+  query(text: string, params?: unknown[]): Promise<{ rows: any[]; rowCount: number | null }>;
+}
+
+export interface PostgresMigrationOptions {
+  /** Table for cache entries. Default: 'ai_cache_entries'. */
+  entriesTable?: string;
+  /** Table for embeddings. Default: 'ai_cache_vectors'. */
+  vectorsTable?: string;
+  /**
+   * Embedding dimension, e.g. 384 for the default local model. The vector
+   * column and its HNSW index need it; without it only the entries table is
+   * created.
+   */
+  dimensions?: number;
+  /** HNSW links per node. Default: 16. */
+  m?: number;
+  /** HNSW candidate list size while indexing. Default: 64. */
+  efConstruction?: number;
+}
+
+/** Double-quote a table name, optionally schema-qualified; anything but plain identifiers is rejected. */
+export function quoteTable(name: string): string {
+  if (!/^[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z_][A-Za-z0-9_]*)?$/.test(name)) {
+    throw new Error(`Invalid table name: ${name}`);
+  }
+  return name
+    .split('.')
+    .map((part) => `"${part}"`)
+    .join('.');
+}
+
+/** An index name derived from a table name (schema dropped, as Postgres puts indexes beside their table). */
+function indexName(table: string, suffix: string): string {
+  return `"${table.split('.').pop()}_${suffix}"`;
+}
+
+/**
+ * Create the tables and indexes PostgresStorage and PgVectorStore use. Every
+ * statement is `IF NOT EXISTS`, so it is safe to run on each deploy. The
+ * vector table needs the pgvector extension; creating it needs a role that
+ * may run `CREATE EXTENSION`.
+ */
+export async function migratePostgres(pool: PgQueryable, options: PostgresMigrationOptions = {}): Promise<void> {
+  const entriesTable = options.entriesTable ?? 'ai_cache_entries';
+  const entries = quoteTable(entriesTable);
+  await pool.query(
+    `CREATE TABLE IF NOT EXISTS ${entries} (
+      key TEXT PRIMARY KEY,
+      entry JSONB NOT NULL,
+      provider TEXT NOT NULL,
+      model TEXT NOT NULL,
+      expires_at BIGINT NOT NULL
+    )`
+  );
+  await pool.query(`CREATE INDEX IF NOT EXISTS ${indexName(entriesTable, 'provider_model_idx')} ON ${entries} (provider, model)`);
+  await pool.query(`CREATE INDEX IF NOT EXISTS ${indexName(entriesTable, 'expires_at_idx')} ON ${entries} (expires_at)`);
+
+  if (options.dimensions === undefined) return;
+  if (!Number.isInteger(options.dimensions) || options.dimensions < 1) {
+    throw new Error('dimensions must be a positive integer');
+  }
+  const vectorsTable = options.vectorsTable ?? 'ai_cache_vectors';
+  const vectors = quoteTable(vectorsTable);
+  const m = options.m ?? 16;
+  const efConstruction = options.efConstruction ?? 64;
+  if (!Number.isInteger(m) || !Number.isInteger(efConstruction)) {
+    throw new Error('m and efConstruction must be integers');
+  }
+  await pool.query('CREATE EXTENSION IF NOT EXISTS vector');
+  await pool.query(
+    `CREATE TABLE IF NOT EXISTS ${vectors} (
+      id TEXT PRIMARY KEY,
+      embedding vector(${options.dimensions}) NOT NULL,
+      meta JSONB,
+      provider TEXT,
+      model TEXT
+    )`
+  );
+  await pool.query(
+    `CREATE INDEX IF NOT EXISTS ${indexName(vectorsTable, 'embedding_idx')} ON ${vectors} ` +
+      `USING hnsw (embedding vector_cosine_ops) WITH (m = ${m}, ef_construction = ${efConstruction})`
+  );
+  await pool.query(`CREATE INDEX IF NOT EXISTS ${indexName(vectorsTable, 'provider_model_idx')} ON ${vectors} (provider, model)`);
+}
@@ -0,0 +1,180 @@
+import { CacheEntry, CacheErrorOperation, CacheLogger, StorageEventMap } from '../core/types.js';
+import { CacheEventEmitter } from '../core/events.js';
+import { consoleLogger } from '../utils/logger.js';
+import { entryRetainedUntil } from '../utils/expiry.js';
+import { StorageInterface } from './redis-storage.js';
+import { PgQueryable, quoteTable } from './postgres-schema.js';
+
+export interface PostgresStorageOptions {
+  /** A node-postgres Pool (or anything with the same `query`). Shared with PgVectorStore if you like; never closed here. */
+  pool: PgQueryable;
+  /** Table created by migratePostgres(). Default: 'ai_cache_entries'. */
+  table?: string;
+  /**
+   * How often rows past their lifetime are deleted, in ms. Reads never return
+   * them either way. 0 turns the purge off. Default: 60000.
+   */
+  purgeIntervalMs?: number;
+  /** Where failures this storage recovers from are logged. Default: console. */
+  logger?: CacheLogger;
+}
+
+/**
+ * Postgres-backed storage: one row per entry, holding the entry as JSONB, its
+ * provider and model in indexed columns, and `expires_at` — when the entry
+ * may be dropped (epoch ms, TTL plus any stale-while-revalidate window). Run
+ * migratePostgres() once to create the table.
+ *
+ * Emits set, delete, expire (on a read past the lifetime, and for each row
+ * the background purge removes) and 'error' for failures it swallows.
+ */
+export class PostgresStorage extends CacheEventEmitter<StorageEventMap> implements StorageInterface {
+  private pool: PgQueryable;
+  private table: string;
+  private purgeTimer?: ReturnType<typeof setInterval>;
+
+  constructor(options: PostgresStorageOptions) {
+    super();
+    this.pool = options.pool;
+    this.table = quoteTable(options.table ?? 'ai_cache_entries');
+    this.logger = options.logger ?? consoleLogger();
+    const purgeIntervalMs = options.purgeIntervalMs ?? 60000;
+    if (purgeIntervalMs > 0) {
+      this.purgeTimer = setInterval(() => void this.purgeExpired(), purgeIntervalMs);
+      // Never keep the process alive just to purge.
+      this.purgeTimer.unref?.();
+    }
+  }
+
+  /** Log (as a warning) and emit a failure this storage recovers from. */
+  private swallowed(operation: CacheErrorOperation, message: string, error: unknown, key?: string): void {
+    this.logger.warn(message, { key, operation, error });
+    this.emit('error', { key, operation, error });
+  }
+
+  async get(key: string): Promise<CacheEntry | null> {
+    try {
+      const { rows } = await this.pool.query(`SELECT entry FROM ${this.table} WHERE key = $1`, [key]);
+      if (rows.length === 0) return null;
+      const entry = rows[0].entry as CacheEntry;
+
+      // Check if entry has expired (past any stale-while-revalidate window too)
+      if (Date.now() > entryRetainedUntil(entry)) {
+        // Only if it wasn't rewritten since the read.
+        await this.pool.query(`DELETE FROM ${this.table} WHERE key = $1 AND expires_at < $2`, [key, Date.now()]);
+        this.emit('expire', { key, provider: entry.provider, model: entry.model });
+        return null;
+      }
+
+      return entry;
+    } catch (error) {
+      this.swallowed('get', 'Postgres get error:', error, key);
+      return null;
+    }
+  }
+
+  async peek(key: string): Promise<CacheEntry | null> {
+    const { rows } = await this.pool.query(`SELECT entry FROM ${this.table} WHERE key = $1`, [key]);
+    return rows.length > 0 ? (rows[0].entry as CacheEntry) : null;
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    try {
+      await this.pool.query(
+        `INSERT INTO ${this.table} (key, entry, provider, model, expires_at) VALUES ($1, $2, $3, $4, $5)
+         ON CONFLICT (key) DO UPDATE SET entry = EXCLUDED.entry, provider = EXCLUDED.provider,
+           model = EXCLUDED.model, expires_at = EXCLUDED.expires_at`,
+        [key, JSON.stringify(entry), entry.provider, entry.model, entryRetainedUntil(entry)]
+      );
+      this.emit('set', {
+        key,
+        provider: entry.provider,
+        model: entry.model,
+        ttl: entry.ttl,
+        cost: entry.cost,
+        latencyMs: entry.computeTime,
+        kind: entry.kind ?? 'value',
+      });
+    } catch (error) {
+      this.logger.error('Postgres set error:', { key, error });
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<boolean> {
+    try {
+      const { rows } = await this.pool.query(`DELETE FROM ${this.table} WHERE key = $1 RETURNING provider, model`, [key]);
+      if (rows.length === 0) return false;
+      this.emit('delete', { key, provider: rows[0].provider, model: rows[0].model });
+      return true;
+    } catch (error) {
+      this.swallowed('delete', 'Postgres delete error:', error, key);
+      return false;
+    }
+  }
+
+  async clear(): Promise<void> {
+    try {
+      await this.pool.query(`DELETE FROM ${this.table}`);
+    } catch (error) {
+      this.logger.error('Postgres clear error:', { error });
+      throw error;
+    }
+  }
+
+  async has(key: string): Promise<boolean> {
+    try {
+      const { rows } = await this.pool.query(`SELECT 1 FROM ${this.table} WHERE key = $1 AND expires_at >= $2`, [
+        key,
+        Date.now(),
+      ]);
+      return rows.length > 0;
+    } catch (error) {
+      this.swallowed('has', 'Postgres has error:', error, key);
+      return false;
+    }
+  }
+
+  async size(): Promise<number> {
+    try {
+      const { rows } = await this.pool.query(`SELECT count(*)::int AS count FROM ${this.table} WHERE expires_at >= $1`, [
+        Date.now(),
+      ]);
+      return Number(rows[0].count);
+    } catch (error) {
+      this.swallowed('size', 'Postgres size error:', error);
+      return 0;
+    }
+  }
+
+  async keys(): Promise<string[]> {
+    try {
+      const { rows } = await this.pool.query(`SELECT key FROM ${this.table} WHERE expires_at >= $1`, [Date.now()]);
+      return rows.map((row) => row.key as string);
+    } catch (error) {
+      this.swallowed('keys', 'Postgres keys error:', error);
+      return [];
+    }
+  }
+
+  /** Delete every row past its lifetime now; resolves with how many went. Runs on `purgeIntervalMs` too. */
+  async purgeExpired(): Promise<number> {
+    try {
+      const { rows } = await this.pool.query(
+        `DELETE FROM ${this.table} WHERE expires_at < $1 RETURNING key, provider, model`,
+        [Date.now()]
+      );
+      for (const row of rows) this.emit('expire', { key: row.key, provider: row.provider, model: row.model });
+      return rows.length;
+    } catch (error) {
+      this.swallowed('purge', 'Postgres purge error:', error);
+      return 0;
+    }
+  }
+
+  /** Stops the purge timer. The pool is yours to end. */
+  async disconnect(): Promise<void> {
+    clearInterval(this.purgeTimer);
+    this.purgeTimer = undefined;
+  }
+}
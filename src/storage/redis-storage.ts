@@ -1,5 +1,9 @@
+import { randomUUID } from 'crypto';
 import { Redis, RedisOptions } from 'ioredis';
-import { CacheEntry } from '../core/types.js';
+import { CacheEntry, CacheErrorOperation, CacheLogger, DistributedLockConfig, StorageEventMap } from '../core/types.js';
+import { CacheEventEmitter } from '../core/events.js';
+import { consoleLogger } from '../utils/logger.js';
+import { entryRetainedUntil, isEntryFresh } from '../utils/expiry.js';
 
 export interface StorageInterface {
   get(key: string): Promise<CacheEntry | null>;
@@ -9,22 +13,84 @@ export interface StorageInterface {
   has(key: string): Promise<boolean>;
   size(): Promise<number>;
   keys(): Promise<string[]>;
+
+  /**
+   * Optional: read an entry with no side effects — an expired entry is
+   * returned as is, not removed, and nothing is emitted. Used by explain().
+   */
+  peek?(key: string): Promise<CacheEntry | null>;
+
+  /**
+   * Optional cross-process single-flight. Lease a per-key lock; resolves with
+   * a token on success, or null when another process already holds it.
+   */
+  acquireLock?(key: string): Promise<string | null>;
+  /** Release a lock taken with acquireLock — only if the token still owns it. */
+  releaseLock?(key: string, token: string): Promise<void>;
+  /**
+   * Wait for the lock holder to write `key`. Resolves with the entry, or null
+   * once the lock is gone without an entry (holder failed or died) or after
+   * `timeoutMs`. An entry past its TTL, kept only to be served stale, is not
+   * the holder's unless it was written after the wait began.
+   */
+  waitForEntry?(key: string, timeoutMs: number): Promise<CacheEntry | null>;
+
+  /**
+   * Optional lifecycle events (set, evict, expire, delete, and errors the
+   * storage swallows). AIResponseCache forwards them to its own listeners.
+   */
+  on?<E extends keyof StorageEventMap>(event: E, listener: (payload: StorageEventMap[E]) => void): unknown;
 }
 
-export class RedisStorage implements StorageInterface {
+// Delete the lock only if we still own it, so a holder whose lease already
+// expired can't release a lock some other process has since taken.
+const RELEASE_LOCK_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('del', KEYS[1])
+end
+return 0
+`;
+
+/**
+ * Redis-backed storage. Emits set, expire (when a read finds an entry past
+ * its lifetime), delete, and 'error' for failures it swallows; Redis's own
+ * TTL expiry and maxmemory evictions happen server-side and are not observed.
+ */
+export class RedisStorage extends CacheEventEmitter<StorageEventMap> implements StorageInterface {
   private redis: Redis;
   private keyPrefix: string;
+  private lockPrefix: string;
+  private lockLeaseMs: number;
+  private lockPollIntervalMs: number;
 
-  constructor(options: RedisOptions, keyPrefix: string = 'ai-cache:') {
+  constructor(
+    options: RedisOptions,
+    keyPrefix: string = 'ai-cache:',
+    lock: DistributedLockConfig = { enabled: false },
+    logger: CacheLogger = consoleLogger()
+  ) {
+    super();
+    this.logger = logger;
     this.redis = new Redis(options);
     this.keyPrefix = keyPrefix;
+    // Outside `${keyPrefix}*`, so locks never show up in keys()/size()/clear().
+    this.lockPrefix = `lock:${keyPrefix}`;
+    this.lockLeaseMs = lock.leaseMs ?? 30000;
+    this.lockPollIntervalMs = lock.pollIntervalMs ?? 50;
     
     // Handle connection errors
     this.redis.on('error', (error: Error) => {
-      console.error('Redis connection error:', error);
+      this.logger.warn('Redis connection error:', { error });
+      this.emit('error', { operation: 'connection', error });
     });
   }
 
+  /** Log (as a warning) and emit a failure this storage recovers from. */
+  private swallowed(operation: CacheErrorOperation, message: string, error: unknown, key?: string): void {
+    this.logger.warn(message, { key, operation, error });
+    this.emit('error', { key, operation, error });
+  }
+
   private prefixKey(key: string): string {
     return `${this.keyPrefix}${key}`;
   }
@@ -36,27 +102,42 @@ export class RedisStorage implements StorageInterface {
       
       const entry = JSON.parse(data) as CacheEntry;
       
-      // Check if entry has expired
-      if (Date.now() > entry.timestamp + entry.ttl * 1000) {
-        await this.delete(key);
+      // Check if entry has expired (past any stale-while-revalidate window too)
+      if (Date.now() > entryRetainedUntil(entry)) {
+        await this.redis.del(this.prefixKey(key));
+        this.emit('expire', { key, provider: entry.provider, model: entry.model });
         return null;
       }
       
       return entry;
     } catch (error) {
-      console.error('Redis get error:', error);
+      this.swallowed('get', 'Redis get error:', error, key);
       return null;
     }
   }
 
+  async peek(key: string): Promise<CacheEntry | null> {
+    const data = await this.redis.get(this.prefixKey(key));
+    return data ? (JSON.parse(data) as CacheEntry) : null;
+  }
+
   async set(key: string, entry: CacheEntry): Promise<void> {
     try {
       const data = JSON.stringify(entry);
-      const ttlSeconds = Math.ceil(entry.ttl);
+      const ttlSeconds = Math.ceil(entry.ttl + (entry.staleWhileRevalidate ?? 0));
       
       await this.redis.setex(this.prefixKey(key), ttlSeconds, data);
+      this.emit('set', {
+        key,
+        provider: entry.provider,
+        model: entry.model,
+        ttl: entry.ttl,
+        cost: entry.cost,
+        latencyMs: entry.computeTime,
+        kind: entry.kind ?? 'value',
+      });
     } catch (error) {
-      console.error('Redis set error:', error);
+      this.logger.error('Redis set error:', { key, error });
       throw error;
     }
   }
@@ -64,9 +145,12 @@ export class RedisStorage implements StorageInterface {
   async delete(key: string): Promise<boolean> {
     try {
       const result = await this.redis.del(this.prefixKey(key));
+      if (result > 0) {
+        this.emit('delete', { key });
+      }
       return result > 0;
     } catch (error) {
-      console.error('Redis delete error:', error);
+      this.swallowed('delete', 'Redis delete error:', error, key);
       return false;
     }
   }
@@ -78,7 +162,7 @@ export class RedisStorage implements StorageInterface {
         await this.redis.del(...keys);
       }
     } catch (error) {
-      console.error('Redis clear error:', error);
+      this.logger.error('Redis clear error:', { error });
       throw error;
     }
   }
@@ -88,7 +172,7 @@ export class RedisStorage implements StorageInterface {
       const exists = await this.redis.exists(this.prefixKey(key));
       return exists === 1;
     } catch (error) {
-      console.error('Redis has error:', error);
+      this.swallowed('has', 'Redis has error:', error, key);
       return false;
     }
   }
@@ -98,7 +182,7 @@ export class RedisStorage implements StorageInterface {
       const keys = await this.redis.keys(`${this.keyPrefix}*`);
       return keys.length;
     } catch (error) {
-      console.error('Redis size error:', error);
+      this.swallowed('size', 'Redis size error:', error);
       return 0;
     }
   }
@@ -108,7 +192,7 @@ export class RedisStorage implements StorageInterface {
       const keys = await this.redis.keys(`${this.keyPrefix}*`);
       return keys.map((key: string) => key.replace(this.keyPrefix, ''));
     } catch (error) {
-      console.error('Redis keys error:', error);
+      this.swallowed('keys', 'Redis keys error:', error);
       return [];
     }
   }
@@ -117,7 +201,47 @@ export class RedisStorage implements StorageInterface {
     try {
       await this.redis.quit();
     } catch (error) {
-      console.error('Redis disconnect error:', error);
+      this.swallowed('disconnect', 'Redis disconnect error:', error);
     }
   }
-}
\ No newline at end of file
+
+  async acquireLock(key: string): Promise<string | null> {
+    const token = randomUUID();
+    const result = await this.redis.set(this.lockKey(key), token, 'PX', this.lockLeaseMs, 'NX');
+    return result === 'OK' ? token : null;
+  }
+
+  async releaseLock(key: string, token: string): Promise<void> {
+    try {
+      await this.redis.eval(RELEASE_LOCK_SCRIPT, 1, this.lockKey(key), token);
+    } catch (error) {
+      // The lease expires on its own; waiters just take a little longer.
+      this.swallowed('lock', 'Redis lock release error:', error, key);
+    }
+  }
+
+  async waitForEntry(key: string, timeoutMs: number): Promise<CacheEntry | null> {
+    const startedAt = Date.now();
+    const deadline = startedAt + timeoutMs;
+    const written = async () => {
+      const entry = await this.get(key);
+      return entry && (isEntryFresh(entry) || entry.timestamp >= startedAt) ? entry : null;
+    };
+    while (Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, this.lockPollIntervalMs));
+      const entry = await written();
+      if (entry) return entry;
+      // Check the entry before the lock: a holder that just finished has
+      // written it and then released the lock.
+      const locked = await this.redis.exists(this.lockKey(key));
+      if (locked === 0) {
+        return written();
+      }
+    }
+    return null;
+  }
+
+  private lockKey(key: string): string {
+    return `${this.lockPrefix}${key}`;
+  }
+}
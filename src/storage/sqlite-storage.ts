@@ -0,0 +1,252 @@
+import { CacheEntry, CacheErrorOperation, CacheLogger, StorageEventMap } from '../core/types.js';
+import { CacheEventEmitter } from '../core/events.js';
+import { consoleLogger } from '../utils/logger.js';
+import { entryRetainedUntil } from '../utils/expiry.js';
+import { StorageInterface } from './redis-storage.js';
+
+/** A prepared statement, as better-sqlite3 and `node:sqlite` both shape it. */
+export interface SqliteStatement {
+  run(...params: unknown[]): { changes: number | bigint };
+  get(...params: unknown[]): any;
+  all(...params: unknown[]): any[];
+}
+
+/**
+ * The part of a synchronous SQLite handle the SQLite backends use: a
+ * better-sqlite3 `Database` or a `node:sqlite` `DatabaseSync`. Inject your
+ * own; SqliteStorage and SqliteVectorStore can share it, and neither closes it.
+ */
+export interface SqliteDatabase {
+  exec(sql: string): unknown;
+  prepare(sql: string): SqliteStatement;
+}
+
+export interface SqliteStorageOptions {
+  db: SqliteDatabase;
+  /** Created if missing. Default: 'ai_cache_entries'. */
+  table?: string;
+  /** Entries kept before the least recently read are evicted. Default: 1000. */
+  maxSize?: number;
+  /**
+   * How often rows past their lifetime are deleted, in ms. Reads never return
+   * them either way. 0 turns the purge off. Default: 60000.
+   */
+  purgeIntervalMs?: number;
+  /** Where failures this storage recovers from are logged. Default: console. */
+  logger?: CacheLogger;
+}
+
+/** Validate a table name, so it can be spliced into SQL. */
+export function sqliteTable(name: string): string {
+  if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+    throw new Error(`Invalid table name: ${name}`);
+  }
+  return name;
+}
+
+/** The smallest string above every string starting with `prefix`, for an indexed range scan. */
+function prefixUpperBound(prefix: string): string {
+  return prefix.slice(0, -1) + String.fromCharCode(prefix.charCodeAt(prefix.length - 1) + 1);
+}
+
+/**
+ * SQLite-backed storage for a single node: desktop apps, CLIs, notebooks.
+ * Entries survive restarts without a server. One row per entry holds the
+ * JSON entry, its provider and model, `expires_at` (when it may be dropped,
+ * epoch ms) and `last_access`, a sequence number every read and write takes
+ * the next of, so eviction past `maxSize` is true LRU even within one
+ * millisecond. The table is created on construction.
+ *
+ * Emits set, evict, expire (on a read past the lifetime, and for each row the
+ * background purge removes), delete, and 'error' for failures it swallows.
+ */
+export class SqliteStorage extends CacheEventEmitter<StorageEventMap> implements StorageInterface {
+  private db: SqliteDatabase;
+  private table: string;
+  private maxSize: number;
+  private purgeTimer?: ReturnType<typeof setInterval>;
+  /** SQL for the next access number: one above every row's, so accesses from other processes sharing the file order too. */
+  private nextAccess: string;
+
+  constructor(options: SqliteStorageOptions) {
+    super();
+    this.db = options.db;
+    this.table = sqliteTable(options.table ?? 'ai_cache_entries');
+    this.maxSize = options.maxSize ?? 1000;
+    this.logger = options.logger ?? consoleLogger();
+    this.nextAccess = `(SELECT coalesce(max(last_access), 0) + 1 FROM ${this.table})`;
+    this.db.exec(
+      `CREATE TABLE IF NOT EXISTS ${this.table} (
+        key TEXT PRIMARY KEY,
+        entry TEXT NOT NULL,
+        provider TEXT NOT NULL,
+        model TEXT NOT NULL,
+        expires_at INTEGER NOT NULL,
+        last_access INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS ${this.table}_expires_at_idx ON ${this.table} (expires_at);
+      CREATE INDEX IF NOT EXISTS ${this.table}_last_access_idx ON ${this.table} (last_access);`
+    );
+    const purgeIntervalMs = options.purgeIntervalMs ?? 60000;
+    if (purgeIntervalMs > 0) {
+      this.purgeTimer = setInterval(() => void this.purgeExpired(), purgeIntervalMs);
+      // Never keep the process alive just to purge.
+      this.purgeTimer.unref?.();
+    }
+  }
+
+  /** Log (as a warning) and emit a failure this storage recovers from. */
+  private swallowed(operation: CacheErrorOperation, message: string, error: unknown, key?: string): void {
+    this.logger.warn(message, { key, operation, error });
+    this.emit('error', { key, operation, error });
+  }
+
+  async get(key: string): Promise<CacheEntry | null> {
+    try {
+      const row = this.db.prepare(`SELECT entry FROM ${this.table} WHERE key = ?`).get(key);
+      if (!row) return null;
+      const entry = JSON.parse(row.entry) as CacheEntry;
+
+      // Check if entry has expired (past any stale-while-revalidate window too)
+      if (Date.now() > entryRetainedUntil(entry)) {
+        this.db.prepare(`DELETE FROM ${this.table} WHERE key = ?`).run(key);
+        this.emit('expire', { key, provider: entry.provider, model: entry.model });
+        return null;
+      }
+
+      this.db.prepare(`UPDATE ${this.table} SET last_access = ${this.nextAccess} WHERE key = ?`).run(key);
+      return entry;
+    } catch (error) {
+      this.swallowed('get', 'SQLite get error:', error, key);
+      return null;
+    }
+  }
+
+  async peek(key: string): Promise<CacheEntry | null> {
+    const row = this.db.prepare(`SELECT entry FROM ${this.table} WHERE key = ?`).get(key);
+    return row ? (JSON.parse(row.entry) as CacheEntry) : null;
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    try {
+      this.db
+        .prepare(
+          `INSERT INTO ${this.table} (key, entry, provider, model, expires_at, last_access) VALUES (?, ?, ?, ?, ?, ${this.nextAccess})
+           ON CONFLICT (key) DO UPDATE SET entry = excluded.entry, provider = excluded.provider,
+             model = excluded.model, expires_at = excluded.expires_at, last_access = excluded.last_access`
+        )
+        .run(key, JSON.stringify(entry), entry.provider, entry.model, entryRetainedUntil(entry));
+      this.emit('set', {
+        key,
+        provider: entry.provider,
+        model: entry.model,
+        ttl: entry.ttl,
+        cost: entry.cost,
+        latencyMs: entry.computeTime,
+        kind: entry.kind ?? 'value',
+      });
+    } catch (error) {
+      this.logger.error('SQLite set error:', { key, error });
+      throw error;
+    }
+    this.evictLRU();
+  }
+
+  async delete(key: string): Promise<boolean> {
+    try {
+      const row = this.db.prepare(`SELECT provider, model FROM ${this.table} WHERE key = ?`).get(key);
+      if (!row) return false;
+      this.db.prepare(`DELETE FROM ${this.table} WHERE key = ?`).run(key);
+      this.emit('delete', { key, provider: row.provider, model: row.model });
+      return true;
+    } catch (error) {
+      this.swallowed('delete', 'SQLite delete error:', error, key);
+      return false;
+    }
+  }
+
+  async clear(): Promise<void> {
+    try {
+      this.db.prepare(`DELETE FROM ${this.table}`).run();
+    } catch (error) {
+      this.logger.error('SQLite clear error:', { error });
+      throw error;
+    }
+  }
+
+  async has(key: string): Promise<boolean> {
+    try {
+      return !!this.db.prepare(`SELECT 1 FROM ${this.table} WHERE key = ? AND expires_at >= ?`).get(key, Date.now());
+    } catch (error) {
+      this.swallowed('has', 'SQLite has error:', error, key);
+      return false;
+    }
+  }
+
+  async size(): Promise<number> {
+    try {
+      const row = this.db.prepare(`SELECT count(*) AS count FROM ${this.table} WHERE expires_at >= ?`).get(Date.now());
+      return Number(row.count);
+    } catch (error) {
+      this.swallowed('size', 'SQLite size error:', error);
+      return 0;
+    }
+  }
+
+  /** Live keys, or only those starting with `prefix` (a range scan on the primary key). */
+  async keys(prefix?: string): Promise<string[]> {
+    try {
+      const rows = prefix
+        ? this.db
+            .prepare(`SELECT key FROM ${this.table} WHERE key >= ? AND key < ? AND expires_at >= ? ORDER BY key`)
+            .all(prefix, prefixUpperBound(prefix), Date.now())
+        : this.db.prepare(`SELECT key FROM ${this.table} WHERE expires_at >= ? ORDER BY key`).all(Date.now());
+      return rows.map((row) => row.key as string);
+    } catch (error) {
+      this.swallowed('keys', 'SQLite keys error:', error);
+      return [];
+    }
+  }
+
+  /** Delete every row past its lifetime now; resolves with how many went. Runs on `purgeIntervalMs` too. */
+  async purgeExpired(): Promise<number> {
+    try {
+      const now = Date.now();
+      const expired = this.db
+        .prepare(`SELECT key, provider, model FROM ${this.table} WHERE expires_at < ?`)
+        .all(now);
+      if (expired.length === 0) return 0;
+      this.db.prepare(`DELETE FROM ${this.table} WHERE expires_at < ?`).run(now);
+      for (const row of expired) this.emit('expire', { key: row.key, provider: row.provider, model: row.model });
+      return expired.length;
+    } catch (error) {
+      this.swallowed('purge', 'SQLite purge error:', error);
+      return 0;
+    }
+  }
+
+  /** Stops the purge timer. The database is yours to close. */
+  async disconnect(): Promise<void> {
+    clearInterval(this.purgeTimer);
+    this.purgeTimer = undefined;
+  }
+
+  /** Drop the least recently read entries beyond maxSize. */
+  private evictLRU(): void {
+    try {
+      const { count } = this.db.prepare(`SELECT count(*) AS count FROM ${this.table}`).get();
+      const excess = Number(count) - this.maxSize;
+      if (excess <= 0) return;
+      const victims = this.db
+        .prepare(`SELECT key, provider, model FROM ${this.table} ORDER BY last_access ASC LIMIT ?`)
+        .all(excess);
+      const remove = this.db.prepare(`DELETE FROM ${this.table} WHERE key = ?`);
+      for (const row of victims) {
+        remove.run(row.key);
+        this.emit('evict', { key: row.key, provider: row.provider, model: row.model });
+      }
+    } catch (error) {
+      this.swallowed('set', 'SQLite eviction error:', error);
+    }
+  }
+}
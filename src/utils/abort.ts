@@ -0,0 +1,75 @@
+import { CacheAbortError } from '../core/errors.js';
+
+function abortError(signal: AbortSignal): CacheAbortError {
+  return signal.reason instanceof CacheAbortError ? signal.reason : new CacheAbortError('ABORTED');
+}
+
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) throw abortError(signal);
+}
+
+/**
+ * Combine a caller's `signal` and `timeoutMs` into one signal whose abort
+ * reason is a CacheAbortError. Call `dispose` when done to clear the timer.
+ */
+export function createCallerSignal(
+  signal?: AbortSignal,
+  timeoutMs?: number
+): { signal: AbortSignal | undefined; dispose: () => void } {
+  if (!signal && timeoutMs === undefined) {
+    return { signal: undefined, dispose: () => {} };
+  }
+
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(new CacheAbortError('ABORTED'));
+  if (signal?.aborted) {
+    onAbort();
+  } else {
+    signal?.addEventListener('abort', onAbort, { once: true });
+  }
+  const timer =
+    timeoutMs === undefined ? undefined : setTimeout(() => controller.abort(new CacheAbortError('TIMEOUT')), timeoutMs);
+
+  return {
+    signal: controller.signal,
+    dispose: () => {
+      if (timer) clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    },
+  };
+}
+
+/**
+ * Settle with `promise`, or reject with a CacheAbortError as soon as `signal`
+ * aborts. The underlying work is not cancelled — only the wait is.
+ */
+export function raceWithSignal<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(abortError(signal));
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(abortError(signal));
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      (value) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      (error) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+export function abortableSleep(ms: number, signal?: AbortSignal): Promise<void> {
+  if (!signal) return new Promise(resolve => setTimeout(resolve, ms));
+  let timer: ReturnType<typeof setTimeout>;
+  return raceWithSignal(
+    new Promise<void>(resolve => {
+      timer = setTimeout(resolve, ms);
+    }),
+    signal
+  ).finally(() => clearTimeout(timer));
+}
@@ -0,0 +1,18 @@
+import { CacheEntry } from '../core/types.js';
+
+/** When `entry` stops being fresh (epoch ms). */
+export function entryExpiresAt(entry: CacheEntry): number {
+  return entry.timestamp + entry.ttl * 1000;
+}
+
+/**
+ * When storage may drop `entry` (epoch ms): its TTL plus any
+ * stale-while-revalidate window it was written with.
+ */
+export function entryRetainedUntil(entry: CacheEntry): number {
+  return entryExpiresAt(entry) + (entry.staleWhileRevalidate ?? 0) * 1000;
+}
+
+export function isEntryFresh(entry: CacheEntry, now: number = Date.now()): boolean {
+  return now <= entryExpiresAt(entry);
+}
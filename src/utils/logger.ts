@@ -0,0 +1,87 @@
+import { CacheLogger, LogFields, LogSamplingConfig } from '../core/types.js';
+
+/**
+ * Logs to `console` as `<prefix><message>`, followed by `fields.error` for
+ * warnings and errors. Other fields are left out; the messages already name
+ * the key they are about. Debug lines are dropped unless `debug` is true.
+ */
+export function consoleLogger(prefix: string = '', debug: boolean = true): CacheLogger {
+  return {
+    debug: (message) => {
+      if (debug) console.log(`${prefix}${message}`);
+    },
+    info: (message) => console.info(`${prefix}${message}`),
+    warn: (message, fields) => console.warn(`${prefix}${message}`, fields?.error),
+    error: (message, fields) => console.error(`${prefix}${message}`, fields?.error),
+  };
+}
+
+export const silentLogger: CacheLogger = {
+  debug: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+};
+
+/** The subset of a pino logger that pinoLogger() needs. */
+export interface PinoLike {
+  debug(obj: object, msg?: string): void;
+  info(obj: object, msg?: string): void;
+  warn(obj: object, msg?: string): void;
+  error(obj: object, msg?: string): void;
+}
+
+/**
+ * Adapt a pino logger, which takes fields before the message. `error` is
+ * renamed to `err` so pino's standard error serializer picks it up.
+ */
+export function pinoLogger(pino: PinoLike): CacheLogger {
+  const forward = (level: keyof PinoLike) => (message: string, fields?: LogFields) => {
+    const { error, ...rest } = fields ?? {};
+    pino[level](error === undefined ? rest : { ...rest, err: error }, message);
+  };
+  return { debug: forward('debug'), info: forward('info'), warn: forward('warn'), error: forward('error') };
+}
+
+/**
+ * Wrap `logger` so a warning or error repeated with the same message is
+ * logged at most `burst` times per `windowMs`. Debug and info pass through.
+ */
+export function sampledLogger(logger: CacheLogger, config: Omit<LogSamplingConfig, 'enabled'> = {}): CacheLogger {
+  const windowMs = config.windowMs ?? 60000;
+  const burst = config.burst ?? 1;
+  const windows = new Map<string, { start: number; count: number }>();
+
+  const sample = (level: 'warn' | 'error') => (message: string, fields?: LogFields) => {
+    const now = Date.now();
+    let window = windows.get(message);
+    let suppressed = 0;
+    if (!window || now - window.start >= windowMs) {
+      suppressed = window ? Math.max(0, window.count - burst) : 0;
+      window = { start: now, count: 0 };
+      windows.set(message, window);
+    }
+    window.count++;
+    if (window.count > burst) return;
+    logger[level](message, suppressed > 0 ? { ...fields, suppressed } : fields);
+  };
+
+  return {
+    debug: (message, fields) => logger.debug(message, fields),
+    info: (message, fields) => logger.info(message, fields),
+    warn: sample('warn'),
+    error: sample('error'),
+  };
+}
+
+/** Resolve the `logger` and `logSampling` config options into a logger. */
+export function resolveLogger(
+  option: CacheLogger | 'console' | 'silent' | undefined,
+  sampling: LogSamplingConfig | undefined,
+  prefix: string,
+  debug: boolean
+): CacheLogger {
+  const base =
+    option === 'silent' ? silentLogger : option === undefined || option === 'console' ? consoleLogger(prefix, debug) : option;
+  return sampling?.enabled ? sampledLogger(base, sampling) : base;
+}
@@ -0,0 +1,371 @@
+import { VectorFilter, VectorStore, VectorSearchResult, matchesFilter } from './vector-store.js';
+
+export interface HnswVectorStoreOptions {
+  /** Links per node on the upper layers; layer 0 gets twice as many. Higher is better recall, more memory. Default: 16. */
+  M?: number;
+  /** Candidate list size while inserting. Higher builds a better graph, slower. Default: 200. */
+  efConstruction?: number;
+  /** Candidate list size while searching (at least topK). Higher is better recall, slower. Default: 64. */
+  efSearch?: number;
+  /** Source of randomness for layer assignment. Default: Math.random. */
+  random?: () => number;
+}
+
+/** What save() returns: the whole graph, JSON-serialisable. Pass it to HnswVectorStore.load(). */
+export interface HnswSnapshot {
+  version: 1;
+  M: number;
+  efConstruction: number;
+  efSearch: number;
+  dimension: number | null;
+  entryPoint: number | null;
+  maxLevel: number;
+  nodes: Array<{
+    id: string;
+    /** Normalised to unit length. */
+    vector: number[];
+    meta?: Record<string, any>;
+    level: number;
+    /** Neighbour node indexes, per layer. */
+    neighbours: number[][];
+    deleted?: boolean;
+  }>;
+}
+
+interface HnswNode {
+  id: string;
+  vector: Float32Array;
+  meta?: Record<string, any>;
+  level: number;
+  neighbours: number[][];
+  deleted: boolean;
+}
+
+/** A node and its similarity to the vector being searched for or inserted. */
+interface Candidate {
+  index: number;
+  similarity: number;
+}
+
+function dot(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+/** A unit-length copy, so cosine similarity is a dot product. A zero vector stays zero. */
+function normalise(vector: ArrayLike<number>): Float32Array {
+  const out = Float32Array.from(vector);
+  let norm = 0;
+  for (let i = 0; i < out.length; i++) norm += out[i] * out[i];
+  norm = Math.sqrt(norm);
+  if (norm > 0) {
+    for (let i = 0; i < out.length; i++) out[i] /= norm;
+  }
+  return out;
+}
+
+/** Insert into a list sorted by similarity, best first. */
+function insertBestFirst(list: Candidate[], candidate: Candidate): void {
+  let low = 0;
+  let high = list.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (list[mid].similarity >= candidate.similarity) low = mid + 1;
+    else high = mid;
+  }
+  list.splice(low, 0, candidate);
+}
+
+/**
+ * In-process approximate nearest-neighbour store: a Hierarchical Navigable
+ * Small World graph (Malkov & Yashunin, 2016). A search walks the sparse
+ * upper layers greedily, then explores `efSearch` candidates on the dense
+ * bottom layer — roughly logarithmic in the number of vectors, where
+ * MemoryVectorStore scans them all. Results are approximate; raise
+ * `efSearch` (or `M`) for recall, and keep MemoryVectorStore as the exact
+ * baseline.
+ *
+ * Deletes leave a tombstone that still routes searches but is never
+ * returned; once tombstones outnumber live vectors the graph is rebuilt.
+ * With a filter, non-matching nodes are walked through but not returned, so
+ * a very selective filter degrades towards a full scan rather than missing
+ * results.
+ */
+export class HnswVectorStore implements VectorStore {
+  /** Tunable between searches. */
+  efSearch: number;
+  private M: number;
+  private efConstruction: number;
+  private levelMultiplier: number;
+  private random: () => number;
+  private nodes: HnswNode[] = [];
+  private indexById = new Map<string, number>();
+  private entryPoint: number | null = null;
+  private maxLevel = 0;
+  private dimension: number | null = null;
+  private tombstones = 0;
+
+  constructor(options: HnswVectorStoreOptions = {}) {
+    this.M = options.M ?? 16;
+    this.efConstruction = options.efConstruction ?? 200;
+    this.efSearch = options.efSearch ?? 64;
+    this.random = options.random ?? Math.random;
+    if (!(Number.isInteger(this.M) && this.M >= 2)) {
+      throw new Error('M must be an integer of at least 2');
+    }
+    if (!(this.efConstruction > 0 && this.efSearch > 0)) {
+      throw new Error('efConstruction and efSearch must be positive');
+    }
+    this.levelMultiplier = 1 / Math.log(this.M);
+  }
+
+  /** Rebuild a store from save(). */
+  static load(snapshot: HnswSnapshot, options: Pick<HnswVectorStoreOptions, 'random'> = {}): HnswVectorStore {
+    if (snapshot?.version !== 1 || !Array.isArray(snapshot.nodes)) {
+      throw new Error('Unsupported HNSW snapshot');
+    }
+    const store = new HnswVectorStore({ ...options, M: snapshot.M, efConstruction: snapshot.efConstruction, efSearch: snapshot.efSearch });
+    store.dimension = snapshot.dimension;
+    store.entryPoint = snapshot.entryPoint;
+    store.maxLevel = snapshot.maxLevel;
+    store.nodes = snapshot.nodes.map((node, index) => {
+      if (!node.deleted) store.indexById.set(node.id, index);
+      return {
+        id: node.id,
+        vector: Float32Array.from(node.vector),
+        meta: node.meta,
+        level: node.level,
+        neighbours: node.neighbours.map((layer) => [...layer]),
+        deleted: !!node.deleted,
+      };
+    });
+    store.tombstones = store.nodes.length - store.indexById.size;
+    return store;
+  }
+
+  /** The whole graph as a JSON-serialisable snapshot, e.g. to write to disk and load() on restart. */
+  save(): HnswSnapshot {
+    return {
+      version: 1,
+      M: this.M,
+      efConstruction: this.efConstruction,
+      efSearch: this.efSearch,
+      dimension: this.dimension,
+      entryPoint: this.entryPoint,
+      maxLevel: this.maxLevel,
+      nodes: this.nodes.map((node) => ({
+        id: node.id,
+        vector: Array.from(node.vector),
+        ...(node.meta !== undefined && { meta: node.meta }),
+        level: node.level,
+        neighbours: node.neighbours.map((layer) => [...layer]),
+        ...(node.deleted && { deleted: true }),
+      })),
+    };
+  }
+
+  async add(id: string, vector: number[], meta?: Record<string, any>): Promise<void> {
+    this.checkDimension(vector);
+    const existing = this.indexById.get(id);
+    if (existing !== undefined) this.bury(existing);
+    this.insert({ id, vector: normalise(vector), meta, level: this.randomLevel(), neighbours: [], deleted: false });
+    // Overwrites leave tombstones too; refresh-heavy workloads re-add the same ids.
+    if (this.tombstones > this.indexById.size) this.rebuild();
+  }
+
+  async search(vector: number[], topK: number, filter?: VectorFilter): Promise<VectorSearchResult[]> {
+    if (this.entryPoint === null || this.indexById.size === 0 || topK <= 0) return [];
+    this.checkDimension(vector);
+    const query = normalise(vector);
+    const entry = this.descend(query, this.entryPoint, this.maxLevel, 0);
+    const found = this.searchLayer(query, [entry], Math.max(this.efSearch, topK), 0, (node) =>
+      !node.deleted && matchesFilter(node.meta, filter)
+    );
+    return found.slice(0, topK).map(({ index, similarity }) => {
+      const node = this.nodes[index];
+      return { id: node.id, score: similarity, meta: node.meta };
+    });
+  }
+
+  async delete(id: string): Promise<void> {
+    const index = this.indexById.get(id);
+    if (index === undefined) return;
+    this.bury(index);
+    if (this.tombstones > this.indexById.size) this.rebuild();
+  }
+
+  async clear(): Promise<void> {
+    this.nodes = [];
+    this.indexById.clear();
+    this.entryPoint = null;
+    this.maxLevel = 0;
+    this.dimension = null;
+    this.tombstones = 0;
+  }
+
+  async size(): Promise<number> {
+    return this.indexById.size;
+  }
+
+  async ids(): Promise<string[]> {
+    return Array.from(this.indexById.keys());
+  }
+
+  private checkDimension(vector: number[]): void {
+    if (this.dimension === null) {
+      this.dimension = vector.length;
+    } else if (vector.length !== this.dimension) {
+      throw new Error(`Vector has ${vector.length} dimensions; this store holds ${this.dimension}`);
+    }
+  }
+
+  private randomLevel(): number {
+    return Math.floor(-Math.log(1 - this.random()) * this.levelMultiplier);
+  }
+
+  private maxLinks(layer: number): number {
+    return layer === 0 ? this.M * 2 : this.M;
+  }
+
+  private insert(node: HnswNode): void {
+    const index = this.nodes.length;
+    node.neighbours = Array.from({ length: node.level + 1 }, () => []);
+    this.nodes.push(node);
+    this.indexById.set(node.id, index);
+    if (this.entryPoint === null) {
+      this.entryPoint = index;
+      this.maxLevel = node.level;
+      return;
+    }
+
+    let entries = [this.descend(node.vector, this.entryPoint, this.maxLevel, node.level)];
+    for (let layer = Math.min(node.level, this.maxLevel); layer >= 0; layer--) {
+      const found = this.searchLayer(node.vector, entries, this.efConstruction, layer);
+      node.neighbours[layer] = this.selectNeighbours(found, this.M);
+      for (const neighbour of node.neighbours[layer]) {
+        this.link(neighbour, index, layer);
+      }
+      entries = found.map((candidate) => candidate.index);
+    }
+    if (node.level > this.maxLevel) {
+      this.maxLevel = node.level;
+      this.entryPoint = index;
+    }
+  }
+
+  /**
+   * Add `to` to `from`'s links on `layer`. Over the limit, the least similar
+   * link is dropped — re-running the selection heuristic on every back-link
+   * makes inserts several times slower for little recall.
+   */
+  private link(from: number, to: number, layer: number): void {
+    const node = this.nodes[from];
+    const links = node.neighbours[layer];
+    links.push(to);
+    if (links.length <= this.maxLinks(layer)) return;
+    let worst = 0;
+    let worstSimilarity = Infinity;
+    links.forEach((index, i) => {
+      const similarity = dot(node.vector, this.nodes[index].vector);
+      if (similarity < worstSimilarity) {
+        worst = i;
+        worstSimilarity = similarity;
+      }
+    });
+    links.splice(worst, 1);
+  }
+
+  /**
+   * The neighbour-selection heuristic: take candidates best first, skipping
+   * one that is closer to an already-selected neighbour than to the node —
+   * that keeps links pointing in different directions. Skipped candidates
+   * fill any places left.
+   */
+  private selectNeighbours(candidates: Candidate[], limit: number): number[] {
+    const selected: Candidate[] = [];
+    const skipped: Candidate[] = [];
+    for (const candidate of candidates) {
+      if (selected.length >= limit) break;
+      const vector = this.nodes[candidate.index].vector;
+      const diverse = selected.every((other) => dot(vector, this.nodes[other.index].vector) < candidate.similarity);
+      (diverse ? selected : skipped).push(candidate);
+    }
+    for (const candidate of skipped) {
+      if (selected.length >= limit) break;
+      selected.push(candidate);
+    }
+    return selected.map((candidate) => candidate.index);
+  }
+
+  /** Greedy walk from `entry` down through the layers above `toLayer`; returns the closest node found. */
+  private descend(query: Float32Array, entry: number, fromLayer: number, toLayer: number): number {
+    let current = entry;
+    for (let layer = fromLayer; layer > toLayer; layer--) {
+      current = this.searchLayer(query, [current], 1, layer)[0].index;
+    }
+    return current;
+  }
+
+  /**
+   * Best-first search of one layer from `entries`, keeping the `ef` most
+   * similar nodes `accept` allows (all of them without it), best first.
+   * Rejected nodes are still explored through.
+   */
+  private searchLayer(
+    query: Float32Array,
+    entries: number[],
+    ef: number,
+    layer: number,
+    accept?: (node: HnswNode) => boolean
+  ): Candidate[] {
+    const visited = new Set<number>(entries);
+    const candidates: Candidate[] = [];
+    const results: Candidate[] = [];
+    for (const index of entries) {
+      const candidate = { index, similarity: dot(query, this.nodes[index].vector) };
+      insertBestFirst(candidates, candidate);
+      if (!accept || accept(this.nodes[index])) insertBestFirst(results, candidate);
+    }
+    results.splice(ef);
+
+    while (candidates.length > 0) {
+      const current = candidates.shift()!;
+      if (results.length >= ef && current.similarity < results[results.length - 1].similarity) break;
+      for (const index of this.nodes[current.index].neighbours[layer] ?? []) {
+        if (visited.has(index)) continue;
+        visited.add(index);
+        const similarity = dot(query, this.nodes[index].vector);
+        if (results.length >= ef && similarity <= results[results.length - 1].similarity) continue;
+        insertBestFirst(candidates, { index, similarity });
+        if (!accept || accept(this.nodes[index])) {
+          insertBestFirst(results, { index, similarity });
+          if (results.length > ef) results.pop();
+        }
+      }
+    }
+    return results;
+  }
+
+  private bury(index: number): void {
+    const node = this.nodes[index];
+    node.deleted = true;
+    this.indexById.delete(node.id);
+    this.tombstones++;
+  }
+
+  /** Re-insert the live nodes into a fresh graph, dropping the tombstones. */
+  private rebuild(): void {
+    const live = this.nodes.filter((node) => !node.deleted);
+    const dimension = this.dimension;
+    this.nodes = [];
+    this.indexById.clear();
+    this.entryPoint = null;
+    this.maxLevel = 0;
+    this.tombstones = 0;
+    this.dimension = live.length > 0 ? dimension : null;
+    for (const node of live) {
+      this.insert({ ...node, neighbours: [] });
+    }
+  }
+}
@@ -1,4 +1,4 @@
-import { VectorStore, VectorSearchResult } from './vector-store.js';
+import { VectorFilter, VectorStore, VectorSearchResult, matchesFilter } from './vector-store.js';
 
 /** Cosine similarity of two equal-length vectors. Returns 0 on mismatch/zero. */
 export function cosineSimilarity(a: number[], b: number[]): number {
@@ -15,36 +15,145 @@ export function cosineSimilarity(a: number[], b: number[]): number {
   return denom === 0 ? 0 : dot / denom;
 }
 
+export interface MemoryVectorStoreOptions {
+  /**
+   * How vectors are held: 'float32' (4 bytes per dimension) or 'int8'
+   * (1 byte per dimension, scores off by about 0.01). Default: 'float32'.
+   */
+  encoding?: 'float32' | 'int8';
+}
+
 /**
- * Zero-config, in-process vector store. Brute-force cosine over a Map — O(n)
- * per search, which is perfectly fine for the cache-sized working sets this
- * targets. The production path is RedisVectorStore.
+ * Zero-config, in-process vector store. Brute-force cosine — O(n) per search,
+ * which is perfectly fine for the cache-sized working sets this targets. The
+ * production path is RedisVectorStore.
+ *
+ * Vectors sit back to back in one typed array (float32, or int8 with a
+ * per-vector scale), so 384 dimensions take 1.5 KB, or 384 bytes as int8.
+ * Each vector's norm is computed once on insert, which leaves one dot
+ * product per stored vector on each search. Every vector must have the
+ * dimension of the first; clear() resets it.
  */
 export class MemoryVectorStore implements VectorStore {
-  private vectors = new Map<string, number[]>();
+  private encoding: 'float32' | 'int8';
+  private dimension: number | null = null;
+  /** Slot i holds its vector at [i * dimension, (i + 1) * dimension). */
+  private data: Float32Array | Int8Array;
+  /** Per slot, what turns the raw dot product into cosine: 1 / norm of the stored values. */
+  private factors = new Float32Array(0);
+  private slotIds: string[] = [];
+  private metas: Array<Record<string, any> | undefined> = [];
+  private slots = new Map<string, number>();
 
-  async add(id: string, vector: number[]): Promise<void> {
-    this.vectors.set(id, vector);
+  constructor(options: MemoryVectorStoreOptions = {}) {
+    this.encoding = options.encoding ?? 'float32';
+    this.data = this.encoding === 'int8' ? new Int8Array(0) : new Float32Array(0);
+  }
+
+  async add(id: string, vector: number[], meta?: Record<string, any>): Promise<void> {
+    if (this.dimension === null) this.dimension = vector.length;
+    this.checkDimension(vector);
+    let slot = this.slots.get(id);
+    if (slot === undefined) {
+      slot = this.slotIds.length;
+      this.reserve(slot + 1);
+      this.slots.set(id, slot);
+      this.slotIds.push(id);
+      this.metas.push(meta);
+    } else {
+      this.metas[slot] = meta;
+    }
+    this.write(slot, vector);
   }
 
-  async search(vector: number[], topK: number): Promise<VectorSearchResult[]> {
+  async search(vector: number[], topK: number, filter?: VectorFilter): Promise<VectorSearchResult[]> {
+    if (topK <= 0 || this.slotIds.length === 0) return [];
+    this.checkDimension(vector);
+    const dimension = this.dimension!;
+    const query = Float32Array.from(vector);
+    let norm = 0;
+    for (const x of query) norm += x * x;
+    const queryFactor = norm === 0 ? 0 : 1 / Math.sqrt(norm);
+
     const results: VectorSearchResult[] = [];
-    for (const [id, vec] of this.vectors.entries()) {
-      results.push({ id, score: cosineSimilarity(vector, vec) });
+    for (let slot = 0; slot < this.slotIds.length; slot++) {
+      const meta = this.metas[slot];
+      if (!matchesFilter(meta, filter)) continue;
+      const offset = slot * dimension;
+      let dot = 0;
+      for (let i = 0; i < dimension; i++) dot += query[i] * this.data[offset + i];
+      results.push({ id: this.slotIds[slot], score: dot * this.factors[slot] * queryFactor, meta });
     }
     results.sort((a, b) => b.score - a.score);
-    return results.slice(0, Math.max(0, topK));
+    return results.slice(0, topK);
   }
 
   async delete(id: string): Promise<void> {
-    this.vectors.delete(id);
+    const slot = this.slots.get(id);
+    if (slot === undefined) return;
+    // Move the last vector into the gap, so the array stays dense.
+    const last = this.slotIds.length - 1;
+    if (slot !== last) {
+      const dimension = this.dimension!;
+      this.data.copyWithin(slot * dimension, last * dimension, (last + 1) * dimension);
+      this.factors[slot] = this.factors[last];
+      this.slotIds[slot] = this.slotIds[last];
+      this.metas[slot] = this.metas[last];
+      this.slots.set(this.slotIds[slot], slot);
+    }
+    this.slotIds.pop();
+    this.metas.pop();
+    this.slots.delete(id);
   }
 
   async clear(): Promise<void> {
-    this.vectors.clear();
+    this.dimension = null;
+    this.data = this.encoding === 'int8' ? new Int8Array(0) : new Float32Array(0);
+    this.factors = new Float32Array(0);
+    this.slotIds = [];
+    this.metas = [];
+    this.slots.clear();
   }
 
   async size(): Promise<number> {
-    return this.vectors.size;
+    return this.slotIds.length;
+  }
+
+  async ids(): Promise<string[]> {
+    return [...this.slotIds];
+  }
+
+  private checkDimension(vector: number[]): void {
+    if (vector.length !== this.dimension) {
+      throw new Error(`Vector has ${vector.length} dimensions; this store holds ${this.dimension}`);
+    }
+  }
+
+  /** Grow the arrays, doubling, to hold at least `count` vectors. */
+  private reserve(count: number): void {
+    if (count <= this.factors.length) return;
+    const capacity = Math.max(count, this.factors.length * 2, 64);
+    const data = this.encoding === 'int8' ? new Int8Array(capacity * this.dimension!) : new Float32Array(capacity * this.dimension!);
+    data.set(this.data);
+    this.data = data;
+    const factors = new Float32Array(capacity);
+    factors.set(this.factors);
+    this.factors = factors;
+  }
+
+  private write(slot: number, vector: number[]): void {
+    const offset = slot * this.dimension!;
+    if (this.data instanceof Int8Array) {
+      let max = 0;
+      for (const x of vector) max = Math.max(max, Math.abs(x));
+      // Symmetric per-vector scale; it cancels out of the cosine, so only the norm of the integers is kept.
+      const scale = max / 127 || 1;
+      for (let i = 0; i < vector.length; i++) this.data[offset + i] = Math.round(vector[i] / scale);
+    } else {
+      this.data.set(vector, offset);
+    }
+    let norm = 0;
+    for (let i = 0; i < vector.length; i++) norm += this.data[offset + i] * this.data[offset + i];
+    this.factors[slot] = norm === 0 ? 0 : 1 / Math.sqrt(norm);
   }
 }
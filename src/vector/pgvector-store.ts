@@ -0,0 +1,86 @@
+import { VectorFilter, VectorStore, VectorSearchResult } from './vector-store.js';
+import { PgQueryable, quoteTable } from '../storage/postgres-schema.js';
+
+export interface PgVectorStoreOptions {
+  /** A node-postgres Pool (or anything with the same `query`). Can be the one PostgresStorage uses; never closed here. */
+  pool: PgQueryable;
+  /** Table created by migratePostgres() with `dimensions`. Default: 'ai_cache_vectors'. */
+  table?: string;
+}
+
+/** Meta fields with their own indexed column; every other filter field is matched inside the JSONB meta. */
+const COLUMN_FIELDS = ['provider', 'model'];
+
+/**
+ * Vector store on Postgres with the pgvector extension. Embeddings go in a
+ * `vector(n)` column with an HNSW index (cosine), so the nearest neighbours
+ * come from one `ORDER BY embedding <=> $1 LIMIT k` query. Run
+ * migratePostgres() with `dimensions` once to create the table.
+ *
+ * A filter is part of the query: provider and model use their indexed
+ * columns, other fields JSONB containment on the meta. pgvector applies
+ * such filters after the index scan, so a narrow filter can return fewer
+ * than `topK` rows; raise `hnsw.ef_search`, or on pgvector 0.8+ set
+ * `hnsw.iterative_scan`, on the pool's connections if that matters.
+ */
+export class PgVectorStore implements VectorStore {
+  private pool: PgQueryable;
+  private table: string;
+
+  constructor(options: PgVectorStoreOptions) {
+    this.pool = options.pool;
+    this.table = quoteTable(options.table ?? 'ai_cache_vectors');
+  }
+
+  async add(id: string, vector: number[], meta?: Record<string, any>): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO ${this.table} (id, embedding, meta, provider, model) VALUES ($1, $2::vector, $3, $4, $5)
+       ON CONFLICT (id) DO UPDATE SET embedding = EXCLUDED.embedding, meta = EXCLUDED.meta,
+         provider = EXCLUDED.provider, model = EXCLUDED.model`,
+      [id, JSON.stringify(vector), meta ? JSON.stringify(meta) : null, meta?.provider ?? null, meta?.model ?? null]
+    );
+  }
+
+  async search(vector: number[], topK: number, filter?: VectorFilter): Promise<VectorSearchResult[]> {
+    if (topK <= 0) return [];
+    const params: unknown[] = [JSON.stringify(vector), topK];
+    const conditions: string[] = [];
+    const rest: VectorFilter = {};
+    for (const [field, value] of Object.entries(filter ?? {})) {
+      if (COLUMN_FIELDS.includes(field) && typeof value === 'string') {
+        params.push(value);
+        conditions.push(`${field} = $${params.length}`);
+      } else {
+        rest[field] = value;
+      }
+    }
+    if (Object.keys(rest).length > 0) {
+      params.push(JSON.stringify(rest));
+      conditions.push(`meta @> $${params.length}::jsonb`);
+    }
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const { rows } = await this.pool.query(
+      `SELECT id, meta, 1 - (embedding <=> $1::vector) AS score FROM ${this.table} ${where}
+       ORDER BY embedding <=> $1::vector LIMIT $2`,
+      params
+    );
+    return rows.map((row) => ({ id: row.id, score: Number(row.score), meta: row.meta ?? undefined }));
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.pool.query(`DELETE FROM ${this.table} WHERE id = $1`, [id]);
+  }
+
+  async clear(): Promise<void> {
+    await this.pool.query(`DELETE FROM ${this.table}`);
+  }
+
+  async size(): Promise<number> {
+    const { rows } = await this.pool.query(`SELECT count(*)::int AS count FROM ${this.table}`);
+    return Number(rows[0].count);
+  }
+
+  async ids(): Promise<string[]> {
+    return (await this.pool.query(`SELECT id FROM ${this.table}`)).rows.map((row) => row.id as string);
+  }
+}
@@ -1,6 +1,23 @@
-import { Redis, RedisOptions } from 'ioredis';
-import { VectorStore, VectorSearchResult } from './vector-store.js';
-import { cosineSimilarity } from './memory-vector-store.js';
+import { ChainableCommander, Redis, RedisOptions } from 'ioredis';
+import { VectorFilter, VectorStore, VectorSearchResult, matchesFilter } from './vector-store.js';
+import { CacheLogger } from '../core/types.js';
+import { consoleLogger } from '../utils/logger.js';
+
+export interface RedisLshOptions {
+  /** Independent hash tables. More tables find more neighbours but read more buckets. Default: 4. */
+  tables?: number;
+  /** Hyperplanes per table, i.e. bits per bucket signature. More bits make smaller buckets. Default: 8. */
+  bits?: number;
+  /** Also read the buckets one bit away from the query's (multi-probe). Default: true. */
+  multiProbe?: boolean;
+  /**
+   * Most vectors fetched per search. When the buckets hold more that pass
+   * the search filter, the ones found in the most buckets are kept. Default: 1000.
+   */
+  maxCandidates?: number;
+  /** Seeds the hyperplanes. Default: 1. */
+  seed?: number;
+}
 
 export interface RedisVectorStoreOptions {
   /** Reuse an existing ioredis client (e.g. share one connection with RedisStorage). */
@@ -8,66 +25,387 @@ export interface RedisVectorStoreOptions {
   /** Or let the store create its own client from these options. */
   redisOptions?: RedisOptions;
   /**
-   * Redis hash key that holds all vectors (field = id, value = JSON-encoded vector).
-   * Default: 'ai-cache:vectors'.
+   * Redis hash key that holds all vectors (field = id, value = the packed
+   * vector). Meta lives in `<indexKey>:meta` and the LSH buckets in sets
+   * under `<indexKey>:lsh:`. Default: 'ai-cache:vectors'.
    */
   indexKey?: string;
+  /**
+   * How each vector is packed: 'float32' (4 bytes per dimension) or 'int8'
+   * (1 byte per dimension, scores off by about 0.01). Default: 'float32'.
+   */
+  encoding?: 'float32' | 'int8';
+  /**
+   * Random-hyperplane LSH buckets, so a search only fetches the vectors that
+   * share a bucket with the query. false scans every vector on each search.
+   * Every process sharing `indexKey` must use the same settings; a change is
+   * detected on startup and the buckets are rebuilt.
+   */
+  lsh?: RedisLshOptions | false;
+  /** Where connection errors on a client this store creates are logged. Default: console. */
+  logger?: CacheLogger;
+}
+
+/** Record tags, in the first byte of a packed vector. JSON records (the old format) start with '[' or '{'. */
+const FLOAT32 = 1;
+const INT8 = 2;
+
+/** Whether a stored meta record passes `filter`; malformed meta never does. */
+function metaMatches(raw: string | null, filter?: VectorFilter): boolean {
+  if (!filter) return true;
+  try {
+    return matchesFilter(raw ? (JSON.parse(raw) as Record<string, any>) : undefined, filter);
+  } catch {
+    return false;
+  }
+}
+
+/** Scale a vector to unit length, so cosine similarity is a dot product. */
+function normalise(vector: number[]): Float32Array {
+  let norm = 0;
+  for (const x of vector) norm += x * x;
+  norm = Math.sqrt(norm) || 1;
+  return Float32Array.from(vector, (x) => x / norm);
+}
+
+/** Pack a unit vector: a 4-byte header, then float32s, or a float32 scale and one int8 per dimension. */
+export function encodeVector(unit: Float32Array, encoding: 'float32' | 'int8'): Buffer {
+  if (encoding === 'int8') {
+    let max = 0;
+    for (const x of unit) max = Math.max(max, Math.abs(x));
+    const scale = max / 127 || 1;
+    const buffer = Buffer.alloc(8 + unit.length);
+    buffer[0] = INT8;
+    buffer.writeFloatLE(scale, 4);
+    for (let i = 0; i < unit.length; i++) buffer.writeInt8(Math.round(unit[i] / scale), 8 + i);
+    return buffer;
+  }
+  const buffer = Buffer.alloc(4 + unit.length * 4);
+  buffer[0] = FLOAT32;
+  for (let i = 0; i < unit.length; i++) buffer.writeFloatLE(unit[i], 4 + i * 4);
+  return buffer;
+}
+
+/** Unpack a record written by encodeVector(); null for anything else. */
+export function decodeVector(raw: Buffer): Float32Array | null {
+  if (raw[0] === FLOAT32) {
+    const vector = new Float32Array((raw.length - 4) / 4);
+    for (let i = 0; i < vector.length; i++) vector[i] = raw.readFloatLE(4 + i * 4);
+    return vector;
+  }
+  if (raw[0] === INT8) {
+    const scale = raw.readFloatLE(4);
+    const vector = new Float32Array(raw.length - 8);
+    for (let i = 0; i < vector.length; i++) vector[i] = raw.readInt8(8 + i) * scale;
+    return vector;
+  }
+  return null;
+}
+
+/**
+ * Read one stored vector and its meta, in the packed format or the JSON
+ * format earlier versions wrote (the vector, or `{ v, m }` with its meta).
+ */
+export function readVectorRecord(
+  raw: Buffer,
+  metaJson?: string | null
+): { vector: number[]; meta?: Record<string, any> } | null {
+  if (raw[0] === 0x5b || raw[0] === 0x7b) {
+    const parsed = JSON.parse(raw.toString()) as number[] | { v: number[]; m?: Record<string, any> };
+    return Array.isArray(parsed) ? { vector: parsed } : { vector: parsed.v, meta: parsed.m };
+  }
+  const vector = decodeVector(raw);
+  if (!vector) return null;
+  return { vector: Array.from(vector), meta: metaJson ? JSON.parse(metaJson) : undefined };
+}
+
+/** Cosine similarity of a unit query and a stored record, or null when the record is unreadable or another dimension. */
+function scoreRecord(query: Float32Array, raw: Buffer | null): number | null {
+  const stored = raw && decodeVector(raw);
+  if (!stored || stored.length !== query.length) return null;
+  let dot = 0;
+  let norm = 0;
+  for (let i = 0; i < query.length; i++) {
+    dot += query[i] * stored[i];
+    norm += stored[i] * stored[i];
+  }
+  // float32 records are stored unit length; int8 ones are only close to it.
+  if (raw![0] === FLOAT32) return dot;
+  return norm === 0 ? 0 : dot / Math.sqrt(norm);
+}
+
+// mulberry32: small, seedable, and the same in every process.
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
 }
 
 /**
  * Production vector store backed by **plain Redis** — the exact same server the
- * exact-match cache uses. No RediSearch / Redis Stack module required: vectors
- * live in a single Redis hash and cosine similarity is computed in Node
- * (brute-force, mirroring MemoryVectorStore). This keeps the architecture to a
- * single Redis version. It is O(n) per lookup, which is fine for cache-sized
- * working sets; swap in a native vector index later if you outgrow it.
+ * exact-match cache uses. No RediSearch / Redis Stack module required.
+ *
+ * Vectors are packed as binary (float32, or int8 with `encoding: 'int8'`) in
+ * one hash. Each is also added to an LSH bucket per table: the bucket is the
+ * side of `bits` random hyperplanes the vector falls on, so similar vectors
+ * tend to share buckets. A search reads the query's buckets (and, with
+ * multi-probe, their one-bit neighbours), fetches at most `maxCandidates`
+ * vectors and ranks them in Node. Results are approximate; `lsh: false`
+ * restores the exact brute-force scan.
+ *
+ * Vectors stored as JSON by earlier versions are converted on first use.
  */
 export class RedisVectorStore implements VectorStore {
   private redis: Redis;
   private indexKey: string;
+  private metaKey: string;
   private ownsConnection: boolean;
+  private encoding: 'float32' | 'int8';
+  private lsh: Required<RedisLshOptions> | null;
+  /** Hyperplanes per dimension, tables × bits of them, generated from the seed. */
+  private planes = new Map<number, Float32Array[]>();
+  /** Converts old records and rebuilds buckets when the LSH settings changed; once per instance. */
+  private readyPromise?: Promise<void>;
 
   constructor(options: RedisVectorStoreOptions = {}) {
     this.ownsConnection = !options.redis;
     this.redis = options.redis ?? new Redis(options.redisOptions ?? {});
     this.indexKey = options.indexKey ?? 'ai-cache:vectors';
+    this.metaKey = `${this.indexKey}:meta`;
+    this.encoding = options.encoding ?? 'float32';
+    this.lsh =
+      options.lsh === false
+        ? null
+        : {
+            tables: options.lsh?.tables ?? 4,
+            bits: options.lsh?.bits ?? 8,
+            multiProbe: options.lsh?.multiProbe ?? true,
+            maxCandidates: options.lsh?.maxCandidates ?? 1000,
+            seed: options.lsh?.seed ?? 1,
+          };
+    if (this.lsh) {
+      const { tables, bits, maxCandidates } = this.lsh;
+      if (!Number.isInteger(tables) || tables < 1 || !Number.isInteger(bits) || bits < 1 || bits > 30) {
+        throw new Error('lsh.tables must be a positive integer and lsh.bits an integer from 1 to 30');
+      }
+      if (!(maxCandidates > 0)) throw new Error('lsh.maxCandidates must be positive');
+    }
+    if (this.ownsConnection) {
+      // A shared client's errors are its owner's to handle.
+      const logger = options.logger ?? consoleLogger();
+      this.redis.on('error', (error: Error) => logger.warn('Redis vector store connection error:', { error }));
+    }
   }
 
-  async add(id: string, vector: number[]): Promise<void> {
-    await this.redis.hset(this.indexKey, id, JSON.stringify(vector));
+  async add(id: string, vector: number[], meta?: Record<string, any>): Promise<void> {
+    await this.ready();
+    const previous = this.lsh ? await this.redis.hgetBuffer(this.indexKey, id) : null;
+    await this.write(id, normalise(vector), meta, previous);
   }
 
-  async search(vector: number[], topK: number): Promise<VectorSearchResult[]> {
-    const all = await this.redis.hgetall(this.indexKey);
+  async search(vector: number[], topK: number, filter?: VectorFilter): Promise<VectorSearchResult[]> {
+    await this.ready();
+    if (topK <= 0) return [];
+    const query = normalise(vector);
+
+    let ids: string[];
+    let raws: Array<Buffer | null>;
+    let metas: Array<string | null>;
+    if (this.lsh) {
+      ({ ids, metas } = await this.candidates(query, filter));
+      if (ids.length === 0) return [];
+      raws = await this.redis.hmgetBuffer(this.indexKey, ...ids);
+    } else {
+      const all = await this.redis.hgetallBuffer(this.indexKey);
+      ids = Object.keys(all);
+      if (ids.length === 0) return [];
+      raws = Object.values(all);
+      metas = await this.redis.hmget(this.metaKey, ...ids);
+    }
+
     const results: VectorSearchResult[] = [];
-    for (const [id, json] of Object.entries(all)) {
+    for (const [i, id] of ids.entries()) {
       try {
-        const vec = JSON.parse(json) as number[];
-        results.push({ id, score: cosineSimilarity(vector, vec) });
+        const score = scoreRecord(query, raws[i]);
+        if (score === null) continue;
+        const meta = metas[i] ? (JSON.parse(metas[i]!) as Record<string, any>) : undefined;
+        if (!matchesFilter(meta, filter)) continue;
+        results.push({ id, score, meta });
       } catch {
         // Skip malformed entries rather than failing the whole lookup.
       }
     }
     results.sort((a, b) => b.score - a.score);
-    return results.slice(0, Math.max(0, topK));
+    return results.slice(0, topK);
   }
 
   async delete(id: string): Promise<void> {
-    await this.redis.hdel(this.indexKey, id);
+    await this.ready();
+    const previous = this.lsh ? await this.redis.hgetBuffer(this.indexKey, id) : null;
+    const batch = this.redis.multi();
+    if (previous) this.unbucket(batch, id, previous);
+    batch.hdel(this.indexKey, id).hdel(this.metaKey, id);
+    await batch.exec();
   }
 
   async clear(): Promise<void> {
-    await this.redis.del(this.indexKey);
+    const buckets = await this.redis.keys(`${this.indexKey}:lsh:*`);
+    await this.redis.del(this.indexKey, this.metaKey, `${this.indexKey}:format`, ...buckets);
   }
 
   async size(): Promise<number> {
     return this.redis.hlen(this.indexKey);
   }
 
+  async ids(): Promise<string[]> {
+    return this.redis.hkeys(this.indexKey);
+  }
+
   /** Only closes the connection if this store created it. */
   async disconnect(): Promise<void> {
     if (this.ownsConnection) {
       await this.redis.quit();
     }
   }
+
+  /** Store a vector, its meta and its bucket memberships in one transaction, leaving the buckets of `previous`. */
+  private async write(id: string, unit: Float32Array, meta: Record<string, any> | undefined, previous: Buffer | null) {
+    const batch = this.redis.multi();
+    if (previous) this.unbucket(batch, id, previous);
+    const record = encodeVector(unit, this.encoding);
+    batch.hset(this.indexKey, id, record);
+    if (meta) batch.hset(this.metaKey, id, JSON.stringify(meta));
+    else batch.hdel(this.metaKey, id);
+    if (this.lsh) {
+      // Bucket the vector as stored: int8 rounding can flip a hyperplane sign,
+      // and unbucket() and migrate() only see the stored record.
+      for (const key of this.bucketKeys(decodeVector(record)!, false)) batch.sadd(key, id);
+    }
+    await batch.exec();
+  }
+
+  private unbucket(batch: ChainableCommander, id: string, raw: Buffer): void {
+    const stored = decodeVector(raw);
+    if (!stored || !this.lsh) return;
+    for (const key of this.bucketKeys(stored, false)) batch.srem(key, id);
+  }
+
+  /**
+   * Ids in the query's buckets that pass `filter`, those found in the most
+   * buckets first, at most maxCandidates, with their meta. The filter runs
+   * before the cut, so vectors outside it cannot crowd out those inside.
+   */
+  private async candidates(
+    query: Float32Array,
+    filter?: VectorFilter
+  ): Promise<{ ids: string[]; metas: Array<string | null> }> {
+    const batch = this.redis.pipeline();
+    for (const key of this.bucketKeys(query, this.lsh!.multiProbe)) batch.smembers(key);
+    const votes = new Map<string, number>();
+    for (const [error, members] of (await batch.exec()) ?? []) {
+      if (error) throw error;
+      for (const id of members as string[]) votes.set(id, (votes.get(id) ?? 0) + 1);
+    }
+    const { maxCandidates } = this.lsh!;
+    const ranked = [...votes.keys()];
+    if (ranked.length > maxCandidates) ranked.sort((a, b) => votes.get(b)! - votes.get(a)!);
+
+    // Read meta a cut's worth at a time until enough candidates pass.
+    const ids: string[] = [];
+    const metas: Array<string | null> = [];
+    for (let start = 0; start < ranked.length && ids.length < maxCandidates; start += maxCandidates) {
+      const slice = ranked.slice(start, start + maxCandidates);
+      const sliceMetas = await this.redis.hmget(this.metaKey, ...slice);
+      for (const [i, id] of slice.entries()) {
+        if (ids.length < maxCandidates && metaMatches(sliceMetas[i], filter)) {
+          ids.push(id);
+          metas.push(sliceMetas[i]);
+        }
+      }
+    }
+    return { ids, metas };
+  }
+
+  /** The bucket of `unit` in each table, plus each one-bit neighbour when probing. */
+  private bucketKeys(unit: Float32Array, probe: boolean): string[] {
+    const { tables, bits } = this.lsh!;
+    const planes = this.hyperplanes(unit.length);
+    const keys: string[] = [];
+    for (let table = 0; table < tables; table++) {
+      let signature = 0;
+      for (let bit = 0; bit < bits; bit++) {
+        const plane = planes[table * bits + bit];
+        let dot = 0;
+        for (let i = 0; i < unit.length; i++) dot += plane[i] * unit[i];
+        if (dot >= 0) signature |= 1 << bit;
+      }
+      const prefix = `${this.indexKey}:lsh:${unit.length}:${table}:`;
+      keys.push(prefix + signature.toString(16));
+      if (probe) {
+        for (let bit = 0; bit < bits; bit++) keys.push(prefix + (signature ^ (1 << bit)).toString(16));
+      }
+    }
+    return keys;
+  }
+
+  private hyperplanes(dimension: number): Float32Array[] {
+    let planes = this.planes.get(dimension);
+    if (!planes) {
+      const { tables, bits, seed } = this.lsh!;
+      const random = seededRandom(seed * 1_000_003 + dimension);
+      // Gaussian components (Box-Muller) give directions uniform on the sphere.
+      const gaussian = () => Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+      planes = Array.from({ length: tables * bits }, () => Float32Array.from({ length: dimension }, gaussian));
+      this.planes.set(dimension, planes);
+    }
+    return planes;
+  }
+
+  /**
+   * The layout marker in `<indexKey>:format` names the LSH settings the
+   * buckets were built with. When it differs (first run, an upgrade from
+   * JSON records, or new settings), convert old records and rebuild the
+   * buckets.
+   */
+  private ready(): Promise<void> {
+    this.readyPromise ??= this.migrate().catch((error) => {
+      this.readyPromise = undefined;
+      throw error;
+    });
+    return this.readyPromise;
+  }
+
+  private async migrate(): Promise<void> {
+    const formatKey = `${this.indexKey}:format`;
+    const format = this.lsh ? `2:lsh:${this.lsh.tables}x${this.lsh.bits}:${this.lsh.seed}` : '2:scan';
+    if ((await this.redis.get(formatKey)) === format) return;
+
+    const stale = await this.redis.keys(`${this.indexKey}:lsh:*`);
+    if (stale.length > 0) await this.redis.del(...stale);
+    const all = await this.redis.hgetallBuffer(this.indexKey);
+    const metas = await this.redis.hgetall(this.metaKey);
+    for (const [id, raw] of Object.entries(all)) {
+      const packed = decodeVector(raw);
+      if (packed) {
+        // Packed records keep their bytes; only their buckets are missing.
+        if (!this.lsh) continue;
+        const batch = this.redis.multi();
+        for (const key of this.bucketKeys(packed, false)) batch.sadd(key, id);
+        await batch.exec();
+        continue;
+      }
+      try {
+        const record = readVectorRecord(raw, metas[id]);
+        if (record) await this.write(id, normalise(record.vector), record.meta, null);
+      } catch {
+        // Leave malformed entries; search skips them.
+      }
+    }
+    await this.redis.set(formatKey, format);
+  }
 }
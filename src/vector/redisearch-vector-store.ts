@@ -0,0 +1,372 @@
+import { Redis, RedisOptions } from 'ioredis';
+import { VectorFilter, VectorStore, VectorSearchResult, matchesFilter } from './vector-store.js';
+import { RedisVectorStore, readVectorRecord } from './redis-vector-store.js';
+import { CacheLogger } from '../core/types.js';
+import { consoleLogger } from '../utils/logger.js';
+
+export interface RediSearchVectorStoreOptions {
+  /** Reuse an existing ioredis client (e.g. share one connection with RedisStorage). */
+  redis?: Redis;
+  /** Or let the store create its own client from these options. */
+  redisOptions?: RedisOptions;
+  /** Name of the search index. Default: 'ai-cache:vector-idx'. */
+  indexName?: string;
+  /** Prefix of the hash that holds each vector (the id follows it). Default: 'ai-cache:vec:'. */
+  keyPrefix?: string;
+  /**
+   * Meta fields indexed as TAG fields, so a filter on them runs inside the
+   * KNN query. A filter on any other field is applied to the results in Node.
+   * Default: the fields the cache scopes matches by — provider, model,
+   * paramsHash, systemPromptHash, context and historyHash.
+   */
+  tagFields?: string[];
+  /** Vector index algorithm. Default: 'HNSW'. */
+  algorithm?: 'HNSW' | 'FLAT';
+  /** HNSW links per node. Default: RediSearch's (16). */
+  M?: number;
+  /** HNSW candidate list size while indexing. Default: RediSearch's (200). */
+  efConstruction?: number;
+  /** HNSW candidate list size while searching. Default: RediSearch's (10). */
+  efRuntime?: number;
+  /**
+   * Used when the server has no search module (`FT.*` commands unknown).
+   * Default: a RedisVectorStore on the same client; false to throw instead.
+   */
+  fallback?: VectorStore | false;
+  /** Where the fallback and connection errors are logged. Default: console. */
+  logger?: CacheLogger;
+}
+
+const DEFAULT_TAG_FIELDS = ['provider', 'model', 'paramsHash', 'systemPromptHash', 'context', 'historyHash'];
+
+/** The parts of FT.INFO this store compares against its own schema. */
+interface IndexSchema {
+  dimension?: number;
+  tags: string[];
+}
+
+/** Escape a value for a TAG query: everything but letters, digits and `_` is punctuation to RediSearch. */
+function escapeTag(value: string | number | boolean): string {
+  return String(value).replace(/[^A-Za-z0-9_]/g, '\\$&');
+}
+
+function toBlob(vector: number[]): Buffer {
+  return Buffer.from(new Float32Array(vector).buffer);
+}
+
+/** FT.INFO replies are flat [key, value, ...] arrays, nested differently per server version. */
+function flatten(reply: unknown): unknown[] {
+  return Array.isArray(reply) ? reply.flatMap(flatten) : [reply];
+}
+
+function valueAfter(flat: unknown[], key: string): unknown {
+  const at = flat.findIndex((item) => String(item).toLowerCase() === key);
+  return at >= 0 ? flat[at + 1] : undefined;
+}
+
+function parseSchema(info: unknown[]): IndexSchema {
+  const at = info.findIndex((item) => String(item) === 'attributes');
+  const attributes = (at >= 0 ? info[at + 1] : []) as unknown[];
+  const schema: IndexSchema = { tags: [] };
+  for (const attribute of attributes) {
+    const flat = flatten(attribute);
+    const type = String(valueAfter(flat, 'type'));
+    if (type === 'TAG') schema.tags.push(String(valueAfter(flat, 'identifier')));
+    if (type === 'VECTOR') schema.dimension = Number(valueAfter(flat, 'dim'));
+  }
+  return schema;
+}
+
+function isMissingIndex(error: unknown): boolean {
+  return /unknown index|no such index/i.test(String((error as Error)?.message ?? error));
+}
+
+/** FT.SEARCH failing because the index was dropped or recreated with another dimension since its schema was read. */
+function isStaleSchema(error: unknown): boolean {
+  return isMissingIndex(error) || /does not match index|blob size/i.test(String((error as Error)?.message ?? error));
+}
+
+function isUnknownCommand(error: unknown): boolean {
+  return /unknown command/i.test(String((error as Error)?.message ?? error));
+}
+
+/**
+ * Vector store on Redis's native vector search (Redis Stack, or Redis 8
+ * with the query engine): one hash per vector, holding a FLOAT32 blob, the
+ * JSON-encoded meta and a TAG field per `tagFields`, indexed with
+ * `FT.CREATE ... VECTOR HNSW` and queried with `FT.SEARCH ... KNN`. Redis
+ * does the similarity search; only the top-K cross the wire.
+ *
+ * The index is created on the first add(), with the dimension of that
+ * vector. If an index of that name exists with another dimension or other
+ * tag fields, it is dropped and recreated (the hashes stay and are
+ * re-indexed). Servers without the search module are detected on first use,
+ * and every call goes to `fallback` from then on.
+ */
+export class RediSearchVectorStore implements VectorStore {
+  private redis: Redis;
+  private ownsConnection: boolean;
+  private indexName: string;
+  private keyPrefix: string;
+  private tagFields: string[];
+  private algorithm: 'HNSW' | 'FLAT';
+  private vectorParams: Array<string | number>;
+  private fallback: VectorStore | false;
+  private logger: CacheLogger;
+  /** Resolves to whether the server has the search module; reset when the probe fails for another reason. */
+  private probe?: Promise<boolean>;
+  /** Creates or checks the index, once per dimension. */
+  private indexReady?: { dimension: number; promise: Promise<void> };
+  /** The index's schema as last read or created; re-read when FT.SEARCH says it changed. */
+  private schema?: Promise<IndexSchema | null>;
+
+  constructor(options: RediSearchVectorStoreOptions = {}) {
+    this.ownsConnection = !options.redis;
+    this.redis = options.redis ?? new Redis(options.redisOptions ?? {});
+    this.indexName = options.indexName ?? 'ai-cache:vector-idx';
+    this.keyPrefix = options.keyPrefix ?? 'ai-cache:vec:';
+    this.tagFields = options.tagFields ?? DEFAULT_TAG_FIELDS;
+    this.logger = options.logger ?? consoleLogger();
+    this.fallback = options.fallback ?? new RedisVectorStore({ redis: this.redis });
+    this.vectorParams = [];
+    if (options.M !== undefined) this.vectorParams.push('M', options.M);
+    if (options.efConstruction !== undefined) this.vectorParams.push('EF_CONSTRUCTION', options.efConstruction);
+    if (options.efRuntime !== undefined) this.vectorParams.push('EF_RUNTIME', options.efRuntime);
+    this.algorithm = options.algorithm ?? 'HNSW';
+    if (this.ownsConnection) {
+      this.redis.on('error', (error: Error) => this.logger.warn('RediSearch vector store connection error:', { error }));
+    }
+  }
+
+  /** Whether the server supports FT.SEARCH. Probed once; a failure other than "unknown command" is retried next time. */
+  async isNative(): Promise<boolean> {
+    this.probe ??= this.redis.call('FT._LIST').then(
+      () => true,
+      (error) => {
+        if (isUnknownCommand(error)) {
+          this.logger.warn('Redis has no search module; using the fallback vector store', { error });
+          return false;
+        }
+        this.probe = undefined;
+        throw error;
+      }
+    );
+    return this.probe;
+  }
+
+  async add(id: string, vector: number[], meta?: Record<string, any>): Promise<void> {
+    const backend = await this.backend();
+    if (backend) return backend.add(id, vector, meta);
+
+    await this.ensureIndex(vector.length);
+    const fields: Array<string | Buffer> = ['vector', toBlob(vector)];
+    if (meta) {
+      fields.push('meta', JSON.stringify(meta));
+      for (const field of this.tagFields) {
+        if (meta[field] !== undefined && meta[field] !== '') fields.push(field, String(meta[field]));
+      }
+    }
+    await this.redis.hset(this.keyPrefix + id, ...fields);
+  }
+
+  async search(vector: number[], topK: number, filter?: VectorFilter): Promise<VectorSearchResult[]> {
+    const backend = await this.backend();
+    if (backend) return backend.search(vector, topK, filter);
+    if (topK <= 0) return [];
+
+    // Tag filters run inside the KNN query; any other filter field is checked below.
+    const clauses = Object.entries(filter ?? {})
+      .filter(([field]) => this.tagFields.includes(field))
+      .map(([field, value]) => `@${field}:{${escapeTag(value)}}`);
+    const prefilter = clauses.length > 0 ? `(${clauses.join(' ')})` : '*';
+
+    let reply: unknown[];
+    for (let attempt = 0; ; attempt++) {
+      const schema = await this.knownSchema();
+      if (!schema) return [];
+      if (schema.dimension !== undefined && schema.dimension !== vector.length) {
+        throw new Error(`Vector has ${vector.length} dimensions; index ${this.indexName} holds ${schema.dimension}`);
+      }
+      try {
+        reply = await this.knnQuery(prefilter, vector, topK);
+        break;
+      } catch (error) {
+        if (attempt > 0 || !isStaleSchema(error)) throw error;
+        // Another process dropped or recreated the index: read its schema again.
+        this.schema = undefined;
+      }
+    }
+
+    const results: VectorSearchResult[] = [];
+    for (let i = 1; i + 1 < reply.length; i += 2) {
+      const key = String(reply[i]);
+      const fields = reply[i + 1] as unknown[];
+      const distance = Number(valueAfter(fields, '__distance'));
+      const rawMeta = valueAfter(fields, 'meta');
+      const meta = rawMeta === undefined ? undefined : (JSON.parse(String(rawMeta)) as Record<string, any>);
+      if (!matchesFilter(meta, filter)) continue;
+      // COSINE distance is 1 - cosine similarity.
+      results.push({ id: key.slice(this.keyPrefix.length), score: 1 - distance, meta });
+    }
+    return results;
+  }
+
+  private async knnQuery(prefilter: string, vector: number[], topK: number): Promise<unknown[]> {
+    return (await this.redis.call(
+      'FT.SEARCH',
+      this.indexName,
+      `${prefilter}=>[KNN $K @vector $BLOB AS __distance]`,
+      'PARAMS',
+      '4',
+      'K',
+      String(topK),
+      'BLOB',
+      toBlob(vector),
+      'SORTBY',
+      '__distance',
+      'ASC',
+      'RETURN',
+      '2',
+      '__distance',
+      'meta',
+      'LIMIT',
+      '0',
+      String(topK),
+      'DIALECT',
+      '2'
+    )) as unknown[];
+  }
+
+  async delete(id: string): Promise<void> {
+    const backend = await this.backend();
+    if (backend) return backend.delete(id);
+    await this.redis.del(this.keyPrefix + id);
+  }
+
+  async clear(): Promise<void> {
+    const backend = await this.backend();
+    if (backend) return backend.clear();
+    const keys = await this.redis.keys(`${this.keyPrefix}*`);
+    if (keys.length > 0) await this.redis.del(...keys);
+  }
+
+  async size(): Promise<number> {
+    const backend = await this.backend();
+    if (backend) return backend.size();
+    return (await this.redis.keys(`${this.keyPrefix}*`)).length;
+  }
+
+  async ids(): Promise<string[]> {
+    const backend = await this.backend();
+    if (backend) return backend.ids?.() ?? [];
+    return (await this.redis.keys(`${this.keyPrefix}*`)).map((key) => key.slice(this.keyPrefix.length));
+  }
+
+  /**
+   * Copy the vectors of a plain RedisVectorStore (its `indexKey` hash, packed
+   * or in the older JSON format) into this index, e.g. when moving to Redis
+   * Stack. Returns the number of vectors copied; the source is left as it is.
+   */
+  async migrateFrom(hashKey = 'ai-cache:vectors'): Promise<number> {
+    const all = await this.redis.hgetallBuffer(hashKey);
+    const metas = await this.redis.hgetall(`${hashKey}:meta`);
+    let copied = 0;
+    for (const [id, raw] of Object.entries(all)) {
+      try {
+        const record = readVectorRecord(raw, metas[id]);
+        if (!record) throw new Error('unreadable record');
+        await this.add(id, record.vector, record.meta);
+        copied++;
+      } catch (error) {
+        this.logger.warn(`Skipped vector ${id} while migrating:`, { error });
+      }
+    }
+    return copied;
+  }
+
+  /** Only closes the connection if this store created it. */
+  async disconnect(): Promise<void> {
+    if (this.ownsConnection) {
+      await this.redis.quit();
+    }
+  }
+
+  /** The fallback store when the server can't search natively, else null. */
+  private async backend(): Promise<VectorStore | null> {
+    if (await this.isNative()) return null;
+    if (!this.fallback) {
+      throw new Error('RediSearchVectorStore needs a Redis with the search module (Redis Stack or Redis 8)');
+    }
+    return this.fallback;
+  }
+
+  private ensureIndex(dimension: number): Promise<void> {
+    if (this.indexReady?.dimension !== dimension) {
+      const promise = this.createOrMigrateIndex(dimension).then(() => {
+        this.schema = Promise.resolve({ dimension, tags: [...this.tagFields] });
+      });
+      this.indexReady = { dimension, promise };
+      // Let the next add() try again after a failure.
+      promise.catch(() => {
+        if (this.indexReady?.promise === promise) this.indexReady = undefined;
+      });
+    }
+    return this.indexReady!.promise;
+  }
+
+  private async createOrMigrateIndex(dimension: number): Promise<void> {
+    const existing = await this.indexSchema();
+    if (existing) {
+      const sameTags =
+        existing.tags.length === this.tagFields.length && this.tagFields.every((field) => existing.tags.includes(field));
+      if (existing.dimension === dimension && sameTags) return;
+      this.logger.warn(
+        `Recreating vector index ${this.indexName} (dimension ${existing.dimension} -> ${dimension}, tags [${existing.tags.join(', ')}] -> [${this.tagFields.join(', ')}])`
+      );
+      // Without DD, the hashes stay and are re-indexed under the new schema.
+      await this.redis.call('FT.DROPINDEX', this.indexName);
+    }
+    const attributes = ['TYPE', 'FLOAT32', 'DIM', String(dimension), 'DISTANCE_METRIC', 'COSINE', ...this.vectorParams.map(String)];
+    await this.redis.call(
+      'FT.CREATE',
+      this.indexName,
+      'ON',
+      'HASH',
+      'PREFIX',
+      '1',
+      this.keyPrefix,
+      'SCHEMA',
+      'vector',
+      'VECTOR',
+      this.algorithm,
+      String(attributes.length),
+      ...attributes,
+      ...this.tagFields.flatMap((field) => [field, 'TAG'])
+    );
+  }
+
+  /** The index's vector dimension and tag fields, or null when it doesn't exist. */
+  private async indexSchema(): Promise<IndexSchema | null> {
+    try {
+      return parseSchema((await this.redis.call('FT.INFO', this.indexName)) as unknown[]);
+    } catch (error) {
+      if (isMissingIndex(error)) return null;
+      throw error;
+    }
+  }
+
+  /** indexSchema(), read once and kept while the index exists; a missing index is looked up again next time. */
+  private knownSchema(): Promise<IndexSchema | null> {
+    if (!this.schema) {
+      const promise = this.indexSchema();
+      this.schema = promise;
+      const forget = () => {
+        if (this.schema === promise) this.schema = undefined;
+      };
+      promise.then((schema) => {
+        if (!schema) forget();
+      }, forget);
+    }
+    return this.schema;
+  }
+}
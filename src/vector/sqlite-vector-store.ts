@@ -0,0 +1,115 @@
+import { VectorFilter, VectorStore, VectorSearchResult, matchesFilter } from './vector-store.js';
+import { SqliteDatabase, sqliteTable } from '../storage/sqlite-storage.js';
+
+export interface SqliteVectorStoreOptions {
+  /** Can be the handle SqliteStorage uses; never closed here. */
+  db: SqliteDatabase;
+  /** Created if missing. Default: 'ai_cache_vectors'. */
+  table?: string;
+}
+
+/** Read a float32 BLOB; better-sqlite3 returns a Buffer, `node:sqlite` a Uint8Array, neither aligned for a Float32Array view. */
+function toVector(blob: Uint8Array): Float32Array {
+  return new Float32Array(Uint8Array.prototype.slice.call(blob).buffer);
+}
+
+/**
+ * Vector store in the same SQLite file as SqliteStorage, so semantic search
+ * works offline and survives restarts. Vectors are float32 BLOBs with their
+ * norm computed on insert. Search is brute-force cosine in Node, like
+ * MemoryVectorStore; a filter on provider and model narrows the rows read
+ * through an index, other fields are checked on the meta. Vectors of another
+ * dimension than the query's are skipped.
+ */
+export class SqliteVectorStore implements VectorStore {
+  private db: SqliteDatabase;
+  private table: string;
+
+  constructor(options: SqliteVectorStoreOptions) {
+    this.db = options.db;
+    this.table = sqliteTable(options.table ?? 'ai_cache_vectors');
+    this.db.exec(
+      `CREATE TABLE IF NOT EXISTS ${this.table} (
+        id TEXT PRIMARY KEY,
+        embedding BLOB NOT NULL,
+        norm REAL NOT NULL,
+        meta TEXT,
+        provider TEXT,
+        model TEXT
+      );
+      CREATE INDEX IF NOT EXISTS ${this.table}_provider_model_idx ON ${this.table} (provider, model);`
+    );
+  }
+
+  async add(id: string, vector: number[], meta?: Record<string, any>): Promise<void> {
+    const embedding = new Float32Array(vector);
+    let norm = 0;
+    for (const x of embedding) norm += x * x;
+    this.db
+      .prepare(
+        `INSERT INTO ${this.table} (id, embedding, norm, meta, provider, model) VALUES (?, ?, ?, ?, ?, ?)
+         ON CONFLICT (id) DO UPDATE SET embedding = excluded.embedding, norm = excluded.norm, meta = excluded.meta,
+           provider = excluded.provider, model = excluded.model`
+      )
+      .run(
+        id,
+        Buffer.from(embedding.buffer),
+        Math.sqrt(norm),
+        meta ? JSON.stringify(meta) : null,
+        meta?.provider ?? null,
+        meta?.model ?? null
+      );
+  }
+
+  async search(vector: number[], topK: number, filter?: VectorFilter): Promise<VectorSearchResult[]> {
+    if (topK <= 0) return [];
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+    for (const field of ['provider', 'model']) {
+      if (typeof filter?.[field] === 'string') {
+        conditions.push(`${field} = ?`);
+        params.push(filter[field]);
+      }
+    }
+    const where = conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : '';
+    const rows = this.db.prepare(`SELECT id, embedding, norm, meta FROM ${this.table}${where}`).all(...params);
+
+    const query = Float32Array.from(vector);
+    let queryNorm = 0;
+    for (const x of query) queryNorm += x * x;
+    queryNorm = Math.sqrt(queryNorm);
+
+    const results: VectorSearchResult[] = [];
+    for (const row of rows) {
+      const stored = toVector(row.embedding);
+      if (stored.length !== query.length) continue;
+      const meta = row.meta ? (JSON.parse(row.meta) as Record<string, any>) : undefined;
+      if (!matchesFilter(meta, filter)) continue;
+      let dot = 0;
+      for (let i = 0; i < query.length; i++) dot += query[i] * stored[i];
+      const denom = queryNorm * row.norm;
+      results.push({ id: row.id, score: denom === 0 ? 0 : dot / denom, meta });
+    }
+    results.sort((a, b) => b.score - a.score);
+    return results.slice(0, topK);
+  }
+
+  async delete(id: string): Promise<void> {
+    this.db.prepare(`DELETE FROM ${this.table} WHERE id = ?`).run(id);
+  }
+
+  async clear(): Promise<void> {
+    this.db.prepare(`DELETE FROM ${this.table}`).run();
+  }
+
+  async size(): Promise<number> {
+    return Number(this.db.prepare(`SELECT count(*) AS count FROM ${this.table}`).get().count);
+  }
+
+  async ids(): Promise<string[]> {
+    return this.db
+      .prepare(`SELECT id FROM ${this.table}`)
+      .all()
+      .map((row) => row.id as string);
+  }
+}
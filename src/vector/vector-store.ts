@@ -3,6 +3,20 @@ export interface VectorSearchResult {
   id: string;
   /** Cosine similarity in [-1, 1]; higher is more similar. */
   score: number;
+  /** The metadata passed to add(), if any. */
+  meta?: Record<string, any>;
+}
+
+/** Exact-match filter on the metadata stored with each vector; every field must match. */
+export type VectorFilter = Record<string, string | number | boolean>;
+
+/** Whether `meta` satisfies `filter`. A vector stored without meta matches only an empty filter. */
+export function matchesFilter(meta: Record<string, any> | undefined, filter?: VectorFilter): boolean {
+  if (!filter) return true;
+  for (const [field, value] of Object.entries(filter)) {
+    if (meta?.[field] !== value) return false;
+  }
+  return true;
 }
 
 /**
@@ -13,8 +27,11 @@ export interface VectorSearchResult {
  */
 export interface VectorStore {
   add(id: string, vector: number[], meta?: Record<string, any>): Promise<void>;
-  search(vector: number[], topK: number): Promise<VectorSearchResult[]>;
+  /** Top-K by cosine similarity among the vectors whose meta matches `filter`. */
+  search(vector: number[], topK: number, filter?: VectorFilter): Promise<VectorSearchResult[]>;
   delete(id: string): Promise<void>;
   clear(): Promise<void>;
   size(): Promise<number>;
+  /** Every stored id. Optional; lets the cache sweep vectors whose entry is gone. */
+  ids?(): Promise<string[]>;
 }
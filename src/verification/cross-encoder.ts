@@ -0,0 +1,82 @@
+import { SemanticVerifier } from './verifier.js';
+
+export interface CrossEncoderVerifierOptions {
+  /** transformers.js cross-encoder model id. Default: 'Xenova/ms-marco-MiniLM-L-6-v2' (~23MB). */
+  model?: string;
+}
+
+/**
+ * Default verifier. Runs a cross-encoder locally via `@xenova/transformers`
+ * (the same optional dependency as LocalEmbeddingProvider, loaded lazily).
+ * Unlike the bi-encoder behind the vector search, it reads both texts
+ * together, so it notices that "France" and "Germany" change the question.
+ *
+ * Cost note: one forward pass per lookup that reaches it, batched over all
+ * candidates — roughly the cost of an embedding. Exact hits never pay it.
+ */
+export class CrossEncoderVerifier implements SemanticVerifier {
+  readonly id: string;
+  private model: string;
+  private pipelinePromise: Promise<{ tokenizer: any; model: any }> | null = null;
+
+  constructor(options: CrossEncoderVerifierOptions = {}) {
+    this.model = options.model ?? 'Xenova/ms-marco-MiniLM-L-6-v2';
+    this.id = `cross-encoder:${this.model}`;
+  }
+
+  private getPipeline(): Promise<{ tokenizer: any; model: any }> {
+    if (!this.pipelinePromise) {
+      this.pipelinePromise = (async () => {
+        let transformers: any;
+        try {
+          // @ts-ignore optional dependency, resolved at runtime only
+          transformers = await import('@xenova/transformers');
+        } catch {
+          throw new Error(
+            "CrossEncoderVerifier needs the optional dependency '@xenova/transformers'. " +
+              'Install it with: npm install @xenova/transformers'
+          );
+        }
+        const [tokenizer, model] = await Promise.all([
+          transformers.AutoTokenizer.from_pretrained(this.model),
+          transformers.AutoModelForSequenceClassification.from_pretrained(this.model),
+        ]);
+        return { tokenizer, model };
+      })();
+    }
+    return this.pipelinePromise;
+  }
+
+  async score(query: string, candidates: string[]): Promise<number[]> {
+    if (candidates.length === 0) return [];
+    const { tokenizer, model } = await this.getPipeline();
+    const inputs = tokenizer(new Array(candidates.length).fill(query), {
+      text_pair: candidates,
+      padding: true,
+      truncation: true,
+    });
+    const { logits } = await model(inputs);
+    return logitsToScores(Array.from(logits.data as Float32Array), candidates.length);
+  }
+}
+
+/**
+ * One relevance logit per pair (MS MARCO style) goes through a sigmoid; a
+ * two-class head (e.g. duplicate-question models) is softmaxed and the
+ * positive class taken.
+ */
+export function logitsToScores(logits: number[], pairs: number): number[] {
+  const width = logits.length / pairs;
+  const scores: number[] = [];
+  for (let i = 0; i < pairs; i++) {
+    const row = logits.slice(i * width, (i + 1) * width);
+    if (row.length === 1) {
+      scores.push(1 / (1 + Math.exp(-row[0])));
+    } else {
+      const max = Math.max(...row);
+      const exps = row.map((x) => Math.exp(x - max));
+      scores.push(exps[exps.length - 1] / exps.reduce((sum, x) => sum + x, 0));
+    }
+  }
+  return scores;
+}
@@ -0,0 +1,146 @@
+/** The kinds of key content the lexical guard compares. */
+export type LexicalGuardCheck = 'numbers' | 'dates' | 'quoted' | 'entities' | 'identifiers' | 'negation';
+
+export const LEXICAL_GUARD_CHECKS: LexicalGuardCheck[] = [
+  'numbers',
+  'dates',
+  'quoted',
+  'entities',
+  'identifiers',
+  'negation',
+];
+
+/** Why the guard rejected a pair: the first check that differed, and what each side had. */
+export interface LexicalMismatch {
+  check: LexicalGuardCheck;
+  query: string[];
+  cached: string[];
+  /** Human-readable, e.g. `numbers differ: [2023] vs [2024]`. */
+  reason: string;
+}
+
+const MONTHS =
+  'jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?';
+const DATE_PATTERN = new RegExp(
+  [
+    '\\b\\d{4}-\\d{1,2}-\\d{1,2}\\b', // 2024-03-01
+    '\\b\\d{1,2}[/.]\\d{1,2}[/.]\\d{2,4}\\b', // 03/01/2024, 1.3.24
+    // A month name only counts next to a day or year: "may" and "march" are words too.
+    `\\b\\d{1,2}(?:st|nd|rd|th)?\\s+(?:${MONTHS})\\.?(?:,?\\s+\\d{4})?\\b`, // 1 March 2024
+    `\\b(?:${MONTHS})\\.?\\s+\\d{1,2}(?:st|nd|rd|th)?(?:,?\\s+\\d{4})?\\b`, // Mar 1st, 2024
+    `\\b(?:${MONTHS})\\.?\\s+\\d{4}\\b`, // March 2024
+    '\\b(?:mon|tues|wednes|thurs|fri|satur|sun)day\\b',
+    '\\b(?:today|tomorrow|yesterday|tonight)\\b',
+  ].join('|'),
+  'gi'
+);
+const NUMBER_PATTERN = /(?<![\w.])-?\d+(?:[.,]\d+)*%?/g;
+const QUOTED_PATTERN = /"([^"]+)"|“([^”]+)”|`([^`]+)`|(?<![\w])'([^']+)'(?![\w])/g;
+const IDENTIFIER_PATTERN =
+  /\b[a-z]+[A-Z]\w*\b|\b[A-Z][a-z0-9]+[A-Z]\w*\b|\b\w*[a-zA-Z]\w*_\w+\b|\b[A-Za-z_]\w*(?:\.[A-Za-z_]\w*)+\b|\b\w+\(\)/g;
+const NEGATION_PATTERN = /\b(?:not|no|never|without|none|nor|nothing|neither|cannot)\b|\b\w+n't\b/gi;
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+/**
+ * Capitalised words that start a sentence for grammatical reasons rather
+ * than naming something. Any other capitalised word counts as an entity.
+ */
+const SENTENCE_STARTERS = new Set(
+  (
+    'a an the i hi hello hey what how why when where who which whose is are was were can could should would will may might must shall do does ' +
+    'did please tell give explain write list show find make help summarise summarize translate describe compare ' +
+    'create generate if in on at for to from with and or but my our your this that these those there it its'
+  ).split(' ')
+);
+
+function unique(values: string[]): string[] {
+  return Array.from(new Set(values));
+}
+
+function dates(text: string): string[] {
+  return unique((text.match(DATE_PATTERN) ?? []).map((date) => date.toLowerCase().replace(/[\s,.]+/g, ' ').trim()));
+}
+
+function numbers(text: string): string[] {
+  // Digits inside a date are compared by the dates check.
+  const withoutDates = text.replace(DATE_PATTERN, ' ');
+  return unique((withoutDates.match(NUMBER_PATTERN) ?? []).map((number) => number.replace(/,(?=\d{3}\b)/g, '')));
+}
+
+function quoted(text: string): string[] {
+  return unique(Array.from(text.matchAll(QUOTED_PATTERN), (match) => match.slice(1).find((group) => group)!));
+}
+
+function identifiers(text: string): string[] {
+  return unique(text.match(IDENTIFIER_PATTERN) ?? []);
+}
+
+function entities(text: string): string[] {
+  const found: string[] = [];
+  for (const sentence of text.split(/[.!?\n]+\s*/)) {
+    const words = sentence.match(/[\p{L}\p{N}'’]+/gu) ?? [];
+    words.forEach((word, index) => {
+      const bare = word.replace(/['’]s$/, '');
+      // Neither are contractions ("Don't", "What's") or "I".
+      if (!/^\p{Lu}/u.test(bare) || /['’]/.test(bare) || bare === 'I') return;
+      if (index === 0 && SENTENCE_STARTERS.has(bare.toLowerCase())) return;
+      found.push(bare.toLowerCase());
+    });
+  }
+  return unique(found);
+}
+
+function negations(text: string): string[] {
+  return (text.match(NEGATION_PATTERN) ?? []).map((word) => word.toLowerCase());
+}
+
+function sameSet(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((value) => b.includes(value));
+}
+
+function mismatch(check: LexicalGuardCheck, query: string[], cached: string[]): LexicalMismatch {
+  const list = (values: string[]) => `[${values.join(', ')}]`;
+  return { check, query, cached, reason: `${check} differ: ${list(query)} vs ${list(cached)}` };
+}
+
+/**
+ * Compare the key content of a query and a cached prompt that embed close
+ * together, and return the first difference — or null when none of the
+ * `checks` find one. Entities are compared case-insensitively and only count
+ * when missing from the other text entirely, so "France" matches "france's".
+ */
+export function lexicalMismatch(
+  query: string,
+  cached: string,
+  checks: LexicalGuardCheck[] = LEXICAL_GUARD_CHECKS
+): LexicalMismatch | null {
+  for (const check of checks) {
+    switch (check) {
+      case 'numbers':
+      case 'dates':
+      case 'quoted':
+      case 'identifiers': {
+        const extract = { numbers, dates, quoted, identifiers }[check];
+        const [a, b] = [extract(query), extract(cached)];
+        if (!sameSet(a, b)) return mismatch(check, a, b);
+        break;
+      }
+      case 'entities': {
+        const [a, b] = [entities(query), entities(cached)];
+        const queryWords = new Set(query.toLowerCase().match(WORD_PATTERN) ?? []);
+        const cachedWords = new Set(cached.toLowerCase().match(WORD_PATTERN) ?? []);
+        if (a.some((entity) => !cachedWords.has(entity)) || b.some((entity) => !queryWords.has(entity))) {
+          return mismatch(check, a, b);
+        }
+        break;
+      }
+      case 'negation': {
+        // Only whether (and how often) the text negates — "don't" and "do not" are the same.
+        const [a, b] = [negations(query), negations(cached)];
+        if (a.length !== b.length) return mismatch(check, a, b);
+        break;
+      }
+    }
+  }
+  return null;
+}
@@ -0,0 +1,31 @@
+import { SemanticVerifier } from './verifier.js';
+
+export interface MockVerifierOptions {
+  /** Pin scores for specific pairs, keyed `${query}\n${candidate}`. */
+  scores?: Record<string, number>;
+  /** Score for any other pair. Default: 1 when the two texts are equal, else 0. */
+  defaultScore?: number;
+}
+
+/**
+ * Deterministic, dependency-free verifier for tests / CI. Pin the pairs a
+ * test cares about via `scores`; everything else gets `defaultScore`, or
+ * passes only when the texts are identical.
+ */
+export class MockVerifier implements SemanticVerifier {
+  readonly id = 'mock';
+  private scores: Map<string, number>;
+  private defaultScore?: number;
+
+  constructor(options: MockVerifierOptions = {}) {
+    this.scores = new Map(Object.entries(options.scores ?? {}));
+    this.defaultScore = options.defaultScore;
+  }
+
+  async score(query: string, candidates: string[]): Promise<number[]> {
+    return candidates.map(
+      (candidate) =>
+        this.scores.get(`${query}\n${candidate}`) ?? this.defaultScore ?? (query === candidate ? 1 : 0)
+    );
+  }
+}
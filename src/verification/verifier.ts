@@ -0,0 +1,13 @@
+/**
+ * Second-stage check on semantic candidates. Embeddings put "capital of
+ * France?" and "capital of Germany?" close together; a verifier reads each
+ * (query, cached prompt) pair as a whole and scores whether the cached answer
+ * still applies. Only candidates that clear `minScore` count as hits.
+ */
+export interface SemanticVerifier {
+  /** Stable identifier (usually the model name). Used for debug/logging. */
+  readonly id: string;
+
+  /** Score `query` against each candidate, in order. Higher is a closer match; bundled verifiers return [0, 1]. */
+  score(query: string, candidates: string[]): Promise<number[]>;
+}
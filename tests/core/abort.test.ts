@@ -0,0 +1,128 @@
+import { AIResponseCache } from '../../src/core/cache.js';
+import { CacheAbortError } from '../../src/core/errors.js';
+import { MockEmbeddingProvider } from '../../src/embeddings/mock.js';
+
+// A provider call that only settles when told to, and records the signal it got.
+function controllableCall() {
+  let resolve!: (value: { value: string }) => void;
+  let received: AbortSignal | undefined;
+  const fn = jest.fn((signal?: AbortSignal) => {
+    received = signal;
+    return new Promise<{ value: string }>((res, reject) => {
+      resolve = res;
+      signal?.addEventListener('abort', () => reject(Object.assign(new Error('aborted'), { name: 'AbortError' })));
+    });
+  });
+  return { fn, resolve: (value: string) => resolve({ value }), signal: () => received };
+}
+
+describe('AIResponseCache cancellation', () => {
+  let cache: AIResponseCache;
+
+  beforeEach(() => {
+    cache = new AIResponseCache({ retry: { baseDelayMs: 1 } });
+  });
+
+  it('rejects with a CacheAbortError and cancels the provider call', async () => {
+    const call = controllableCall();
+    const controller = new AbortController();
+
+    const pending = cache.wrap(call.fn, { provider: 'p', model: 'm', signal: controller.signal });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    controller.abort();
+
+    await expect(pending).rejects.toBeInstanceOf(CacheAbortError);
+    await expect(pending).rejects.toMatchObject({ name: 'AbortError', code: 'ABORTED' });
+    expect(call.signal()!.aborted).toBe(true);
+    expect(call.fn).toHaveBeenCalledTimes(1); // the abort is not retried
+  });
+
+  it('rejects up front when the signal has already aborted', async () => {
+    const fn = jest.fn();
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(cache.wrap(fn, { provider: 'p', model: 'm', signal: controller.signal })).rejects.toBeInstanceOf(
+      CacheAbortError
+    );
+    expect(fn).not.toHaveBeenCalled();
+  });
+
+  it('times out with code TIMEOUT', async () => {
+    const call = controllableCall();
+
+    await expect(cache.wrap(call.fn, { provider: 'p', model: 'm', timeoutMs: 20 })).rejects.toMatchObject({
+      code: 'TIMEOUT',
+    });
+  });
+
+  it('keeps a shared provider call alive for coalesced callers that are still waiting', async () => {
+    const call = controllableCall();
+    const controller = new AbortController();
+    const options = { provider: 'p', model: 'm', prompt: 'shared' };
+
+    const leaving = cache.wrap(call.fn, { ...options, signal: controller.signal });
+    const staying = cache.wrap(call.fn, options);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    controller.abort();
+
+    await expect(leaving).rejects.toBeInstanceOf(CacheAbortError);
+    expect(call.signal()!.aborted).toBe(false);
+
+    call.resolve('done');
+    await expect(staying).resolves.toBe('done');
+    expect(await cache.wrap(call.fn, options)).toBe('done'); // and it was cached
+    expect(call.fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('cancels the shared call once every caller has aborted', async () => {
+    const call = controllableCall();
+    const first = new AbortController();
+    const second = new AbortController();
+    const options = { provider: 'p', model: 'm', prompt: 'abandoned' };
+
+    const a = cache.wrap(call.fn, { ...options, signal: first.signal });
+    const b = cache.wrap(call.fn, { ...options, signal: second.signal });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    first.abort();
+    second.abort();
+
+    await expect(Promise.allSettled([a, b])).resolves.toEqual([
+      expect.objectContaining({ status: 'rejected' }),
+      expect.objectContaining({ status: 'rejected' }),
+    ]);
+    expect(call.signal()!.aborted).toBe(true);
+  });
+
+  it('cuts the backoff sleep short', async () => {
+    const slowRetries = new AIResponseCache({ retry: { baseDelayMs: 10_000 } });
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const fn = jest.fn().mockRejectedValue(new Error('transient'));
+
+    const start = Date.now();
+    await expect(slowRetries.wrap(fn, { provider: 'p', model: 'm', timeoutMs: 30 })).rejects.toMatchObject({
+      code: 'TIMEOUT',
+    });
+
+    expect(Date.now() - start).toBeLessThan(1000);
+    errorSpy.mockRestore();
+  });
+
+  it('cuts a slow embedding lookup short instead of falling through to a miss', async () => {
+    const provider = new MockEmbeddingProvider();
+    jest.spyOn(provider, 'embed').mockImplementation(() => new Promise(() => {}));
+    const semantic = new AIResponseCache({ semantic: { enabled: true, provider } });
+    const fn = jest.fn();
+
+    await expect(semantic.wrap(fn, { provider: 'p', model: 'm', prompt: 'q', timeoutMs: 20 })).rejects.toMatchObject({
+      code: 'TIMEOUT',
+    });
+    expect(fn).not.toHaveBeenCalled();
+  });
+
+  it('validates timeoutMs', async () => {
+    await expect(cache.wrap(jest.fn(), { provider: 'p', model: 'm', timeoutMs: 0 })).rejects.toThrow(
+      'timeoutMs must be a positive number'
+    );
+  });
+});
@@ -112,6 +112,185 @@ describe('AIResponseCache', () => {
     await fastCache.disconnect();
   });
 
+  it('should coalesce concurrent misses for the same key into one call', async () => {
+    const fn = jest.fn().mockImplementation(
+      () => new Promise((resolve) => setTimeout(() => resolve({ value: 'shared', tokenCount: 10, cost: 0.01 }), 20))
+    );
+    const options = { provider: 'test', model: 'test-model', prompt: 'same prompt' };
+
+    const results = await Promise.all(Array.from({ length: 5 }, () => cache.wrap(fn, options)));
+
+    expect(results).toEqual(['shared', 'shared', 'shared', 'shared', 'shared']);
+    expect(fn).toHaveBeenCalledTimes(1);
+    const stats = cache.getStats();
+    expect(stats.cacheMisses).toBe(1);
+    expect(stats.coalescedRequests).toBe(4);
+    expect(stats.totalCostSaved).toBeCloseTo(0.04);
+  });
+
+  it('should reject coalesced callers when the shared call fails', async () => {
+    const fastCache = new AIResponseCache({ ttl: 1, storage: 'memory', debug: true });
+    const originalConsoleError = console.error;
+    const originalConsoleLog = console.log;
+    console.error = jest.fn();
+    console.log = jest.fn();
+
+    const fn = jest.fn().mockRejectedValue(new Error('Shared failure'));
+    const options = { provider: 'test', model: 'test-model', prompt: 'fails' };
+
+    const outcomes = await Promise.allSettled([fastCache.wrap(fn, options), fastCache.wrap(fn, options)]);
+
+    expect(outcomes.map((o) => o.status)).toEqual(['rejected', 'rejected']);
+    expect(fn).toHaveBeenCalledTimes(3); // one caller's retries, not two
+
+    // The failed call is no longer in flight, so the next caller tries again.
+    fn.mockResolvedValueOnce({ value: 'recovered', tokenCount: 0, cost: 0 });
+    await expect(fastCache.wrap(fn, options)).resolves.toBe('recovered');
+
+    console.error = originalConsoleError;
+    console.log = originalConsoleLog;
+    await fastCache.disconnect();
+  });
+
+  describe('stale-while-revalidate', () => {
+    let now: number;
+
+    beforeEach(() => {
+      now = Date.now();
+      jest.spyOn(Date, 'now').mockImplementation(() => now);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('serves an expired entry immediately and refreshes it in the background', async () => {
+      const swrCache = new AIResponseCache({ ttl: 10, staleWhileRevalidate: 60 });
+      let version = 0;
+      const fn = jest.fn().mockImplementation(async () => ({ value: `v${++version}`, tokenCount: 0, cost: 0 }));
+      const options = { provider: 'test', model: 'test-model', prompt: 'popular' };
+
+      expect(await swrCache.wrap(fn, options)).toBe('v1');
+
+      now += 15_000; // past TTL, inside the stale window
+      const [stale, alsoStale] = await Promise.all([swrCache.wrap(fn, options), swrCache.wrap(fn, options)]);
+      expect(stale).toBe('v1');
+      expect(alsoStale).toBe('v1');
+
+      await new Promise((resolve) => setTimeout(resolve, 0)); // let the refresh land
+      expect(fn).toHaveBeenCalledTimes(2); // one refresh for both stale reads
+      expect(await swrCache.wrap(fn, options)).toBe('v2');
+      expect(swrCache.getStats().staleHits).toBe(2);
+      expect(swrCache.getStats().cacheHits).toBe(3);
+    });
+
+    it('blocks on a fresh call once the stale window has passed', async () => {
+      const swrCache = new AIResponseCache({ ttl: 10, staleWhileRevalidate: 60 });
+      const fn = jest.fn().mockResolvedValueOnce({ value: 'old' }).mockResolvedValueOnce({ value: 'new' });
+      const options = { provider: 'test', model: 'test-model' };
+
+      await swrCache.wrap(fn, options);
+      now += 71_000;
+
+      expect(await swrCache.wrap(fn, options)).toBe('new');
+      expect(swrCache.getStats().staleHits).toBe(0);
+    });
+
+    it('honors a per-call window and is off by default', async () => {
+      const fn = () => jest.fn().mockResolvedValueOnce({ value: 'old' }).mockResolvedValue({ value: 'new' });
+      const fnA = fn();
+      const fnB = fn();
+      const withWindow = { provider: 'test', model: 'test-model', prompt: 'a', ttl: 10, staleWhileRevalidate: 30 };
+      const withoutWindow = { provider: 'test', model: 'test-model', prompt: 'b', ttl: 10 };
+
+      await cache.wrap(fnA, withWindow);
+      await cache.wrap(fnB, withoutWindow);
+      now += 20_000;
+
+      expect(await cache.wrap(fnA, withWindow)).toBe('old');
+      expect(await cache.wrap(fnB, withoutWindow)).toBe('new');
+    });
+
+    it('rejects a negative window', async () => {
+      expect(() => new AIResponseCache({ staleWhileRevalidate: -1 })).toThrow(
+        'staleWhileRevalidate must be a non-negative number'
+      );
+      const fn = jest.fn();
+      await expect(
+        cache.wrap(fn, { provider: 'test', model: 'test-model', staleWhileRevalidate: -5 })
+      ).rejects.toThrow('staleWhileRevalidate must be a non-negative number');
+    });
+  });
+
+  describe('probabilistic early expiration', () => {
+    let now: number;
+    const options = { provider: 'test', model: 'test-model', prompt: 'hot', ttl: 10 };
+    // Each provider call "takes" 500ms, which becomes the entry's computeTime.
+    const slowFn = () =>
+      jest.fn().mockImplementation(async () => {
+        now += 500;
+        return { value: `v${now}`, tokenCount: 0, cost: 0 };
+      });
+
+    beforeEach(() => {
+      now = Date.now();
+      jest.spyOn(Date, 'now').mockImplementation(() => now);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('records how long the provider call took on the entry', async () => {
+      await cache.wrap(slowFn(), options);
+
+      const entry = await (cache as any).getStorageEntry(cache.generateKey('test', 'test-model', 'hot', undefined));
+      expect(entry.computeTime).toBe(500);
+    });
+
+    it('refreshes in the background as the entry nears expiry', async () => {
+      const xfetchCache = new AIResponseCache({ earlyExpiration: { enabled: true } });
+      const fn = slowFn();
+      const first = await xfetchCache.wrap(fn, options);
+
+      now += 9_000; // 1s of TTL left; 500ms * -ln(0.01) ≈ 2.3s reaches past it
+      jest.spyOn(Math, 'random').mockReturnValue(0.01);
+      expect(await xfetchCache.wrap(fn, options)).toBe(first); // still served from cache
+
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      expect(fn).toHaveBeenCalledTimes(2);
+      expect(xfetchCache.getStats().earlyRefreshes).toBe(1);
+      expect(await xfetchCache.wrap(fn, options)).not.toBe(first);
+    });
+
+    it('leaves entries far from expiry alone', async () => {
+      const xfetchCache = new AIResponseCache({ earlyExpiration: { enabled: true } });
+      const fn = slowFn();
+      await xfetchCache.wrap(fn, options);
+
+      now += 9_000;
+      jest.spyOn(Math, 'random').mockReturnValue(0.5); // 500ms * -ln(0.5) ≈ 350ms < 1s left
+      await xfetchCache.wrap(fn, options);
+
+      expect(fn).toHaveBeenCalledTimes(1);
+      expect(xfetchCache.getStats().earlyRefreshes).toBe(0);
+    });
+
+    it('is off by default and can be enabled per call', async () => {
+      const fn = slowFn();
+      await cache.wrap(fn, options);
+      now += 9_000;
+      jest.spyOn(Math, 'random').mockReturnValue(0.01);
+
+      await cache.wrap(fn, options);
+      expect(fn).toHaveBeenCalledTimes(1);
+
+      await cache.wrap(fn, { ...options, earlyExpiration: { enabled: true } });
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      expect(fn).toHaveBeenCalledTimes(2);
+    });
+  });
+
   it('should support pattern-based cache invalidation', async () => {
     const fn = jest.fn().mockResolvedValue({ value: 'response', tokenCount: 0, cost: 0 });
     
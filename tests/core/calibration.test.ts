@@ -0,0 +1,168 @@
+import { AIResponseCache } from '../../src/core/cache.js';
+import { ThresholdCalibrator } from '../../src/core/calibration.js';
+import { MockEmbeddingProvider } from '../../src/embeddings/mock.js';
+import { CalibrationState } from '../../src/core/types.js';
+
+describe('ThresholdCalibrator', () => {
+  const label = (calibrator: ThresholdCalibrator, route: string, samples: Array<[number, 'good' | 'bad']>) =>
+    samples.map(([score, verdict]) => calibrator.record(route, score, verdict)).pop();
+
+  it('leaves the threshold alone until a route has enough labels', () => {
+    const calibrator = new ThresholdCalibrator({ minSamples: 3 });
+    expect(label(calibrator, 'r', [[0.96, 'bad'], [0.97, 'good']])).toBeUndefined();
+    expect(calibrator.thresholdFor('r')).toBeUndefined();
+  });
+
+  it('raises the threshold above scores whose hits were labelled bad', () => {
+    const calibrator = new ThresholdCalibrator({ minSamples: 4, targetPrecision: 0.9 });
+    const threshold = label(calibrator, 'r', [
+      [0.99, 'good'],
+      [0.98, 'good'],
+      [0.96, 'bad'],
+      [0.955, 'bad'],
+    ]);
+    expect(threshold).toBe(0.98);
+  });
+
+  it('steps down while every hit is good, within bounds', () => {
+    const calibrator = new ThresholdCalibrator({ minSamples: 2, step: 0.01, minThreshold: 0.93, baseThreshold: 0.95 });
+    expect(label(calibrator, 'r', [[0.97, 'good'], [0.96, 'good']])).toBeCloseTo(0.94);
+    expect(label(calibrator, 'r', [[0.94, 'good'], [0.94, 'good']])).toBe(0.93);
+  });
+
+  it('goes to maxThreshold when no score meets the target', () => {
+    const calibrator = new ThresholdCalibrator({ minSamples: 2, maxThreshold: 0.985 });
+    expect(label(calibrator, 'r', [[0.99, 'bad'], [0.97, 'bad']])).toBe(0.985);
+  });
+
+  it('keeps routes apart and only the latest maxSamples labels', () => {
+    const calibrator = new ThresholdCalibrator({ minSamples: 2, maxSamples: 2, targetPrecision: 1 });
+    label(calibrator, 'a', [[0.96, 'bad'], [0.99, 'good']]);
+    expect(calibrator.thresholdFor('a')).toBe(0.99);
+    expect(calibrator.thresholdFor('b')).toBeUndefined();
+
+    label(calibrator, 'a', [[0.97, 'good']]);
+    expect(calibrator.exportState().routes.a.samples).toEqual([
+      { score: 0.99, label: 'good' },
+      { score: 0.97, label: 'good' },
+    ]);
+  });
+
+  it('round-trips its state', () => {
+    const calibrator = new ThresholdCalibrator({ minSamples: 1, targetPrecision: 1 });
+    calibrator.record('r', 0.9, 'bad');
+    const state = calibrator.exportState();
+
+    const restored = new ThresholdCalibrator({ state });
+    expect(restored.thresholdFor('r')).toBe(calibrator.thresholdFor('r'));
+    expect(() => restored.importState({ version: 2 } as unknown as CalibrationState)).toThrow(
+      'Unsupported calibration state'
+    );
+  });
+
+  it('validates its bounds', () => {
+    expect(() => new ThresholdCalibrator({ minThreshold: 0.99, maxThreshold: 0.9 })).toThrow('minThreshold');
+    expect(() => new ThresholdCalibrator({ targetPrecision: 0 })).toThrow('targetPrecision');
+    expect(() => new ThresholdCalibrator({ minSamples: 0 })).toThrow('minSamples');
+  });
+});
+
+describe('AIResponseCache.feedback', () => {
+  const vectors = { 'reset password': [1, 0], 'password reset steps': [0.97, Math.sqrt(1 - 0.97 ** 2)] };
+  const makeCache = (calibration?: object) =>
+    new AIResponseCache({
+      semantic: {
+        enabled: true,
+        provider: new MockEmbeddingProvider({ vectors }),
+        threshold: 0.95,
+        calibration: calibration && { enabled: true, ...calibration },
+      },
+    });
+  const fn = () => jest.fn().mockResolvedValue({ value: 'v', tokenCount: 0, cost: 0 });
+  const call = { provider: 'p', model: 'm' };
+
+  it('labels a semantic hit by requestId and reports it as an event', async () => {
+    const cache = makeCache();
+    const events = jest.fn();
+    cache.on('feedback', events);
+    await cache.wrap(fn(), { ...call, prompt: 'reset password' });
+    const { meta } = await cache.wrapWithMeta(fn(), { ...call, prompt: 'password reset steps', route: 'support' });
+
+    expect(meta.requestId).toEqual(expect.any(String));
+    expect(await cache.feedback(meta.requestId!, 'good')).toBe(true);
+    expect(events).toHaveBeenCalledWith(
+      expect.objectContaining({ key: meta.key, matchedKey: meta.matchedKey, route: 'support', label: 'good' })
+    );
+    // Each hit is labelled once.
+    expect(await cache.feedback(meta.requestId!, 'bad')).toBe(false);
+  });
+
+  it('blocks a pairing labelled bad, found by cache key', async () => {
+    const cache = makeCache();
+    const provider = fn();
+    await cache.wrap(provider, { ...call, prompt: 'reset password' });
+    const { meta } = await cache.wrapWithMeta(provider, { ...call, prompt: 'password reset steps' });
+    expect(meta.hitType).toBe('semantic');
+
+    expect(await cache.feedback(meta.key, 'bad')).toBe(true);
+    const again = await cache.wrapWithMeta(provider, { ...call, prompt: 'password reset steps' });
+    expect(again.meta.hitType).toBe('miss');
+    expect(provider).toHaveBeenCalledTimes(2);
+  });
+
+  it('uses a caller-supplied requestId', async () => {
+    const cache = makeCache();
+    await cache.wrap(fn(), { ...call, prompt: 'reset password' });
+    await cache.wrap(fn(), { ...call, prompt: 'password reset steps', requestId: 'msg-42' });
+
+    expect(await cache.feedback('msg-42', 'good')).toBe(true);
+    expect(await cache.feedback('unknown', 'good')).toBe(false);
+    await expect(cache.feedback('msg-42', 'meh' as any)).rejects.toThrow("label must be 'good' or 'bad'");
+  });
+
+  it('calibrates the route threshold from labels and persists the state', async () => {
+    const onUpdate = jest.fn();
+    const cache = makeCache({ minSamples: 1, targetPrecision: 1, onUpdate });
+    const provider = fn();
+    await cache.wrap(provider, { ...call, prompt: 'reset password' });
+    const { meta } = await cache.wrapWithMeta(provider, { ...call, prompt: 'password reset steps', cacheKey: 'k1' });
+    expect(meta.score).toBeCloseTo(0.97);
+
+    await cache.feedback(meta.requestId!, 'bad');
+    expect(cache.exportCalibration()!.routes['p:m'].threshold).toBe(0.99);
+    expect(onUpdate).toHaveBeenCalledWith(cache.exportCalibration());
+
+    // A different query at 0.97 no longer clears the route's calibrated threshold.
+    const next = await cache.wrapWithMeta(provider, { ...call, prompt: 'password reset steps', cacheKey: 'k2' });
+    expect(next.meta.hitType).toBe('miss');
+  });
+
+  it('restores calibration state passed in the config', async () => {
+    const state: CalibrationState = { version: 1, routes: { 'p:m': { threshold: 0.9, samples: [] } } };
+    const cache = makeCache({ state });
+    const provider = fn();
+    await cache.wrap(provider, { ...call, prompt: 'reset password' });
+
+    const hit = await cache.wrapWithMeta(provider, { ...call, prompt: 'password reset steps' });
+    expect(hit.meta.hitType).toBe('semantic');
+    expect(makeCache().exportCalibration()).toBeNull();
+  });
+
+  it('reports an onUpdate failure without failing the feedback call', async () => {
+    const cache = new AIResponseCache({
+      logger: 'silent',
+      semantic: {
+        enabled: true,
+        provider: new MockEmbeddingProvider({ vectors }),
+        calibration: { enabled: true, onUpdate: () => Promise.reject(new Error('disk full')) },
+      },
+    });
+    const errors = jest.fn();
+    cache.on('error', errors);
+    await cache.wrap(fn(), { ...call, prompt: 'reset password' });
+    const { meta } = await cache.wrapWithMeta(fn(), { ...call, prompt: 'password reset steps' });
+
+    expect(await cache.feedback(meta.requestId!, 'good')).toBe(true);
+    expect(errors).toHaveBeenCalledWith(expect.objectContaining({ operation: 'feedback' }));
+  });
+});
@@ -0,0 +1,175 @@
+// A tiny in-memory stand-in for one Redis server, shared by every client the
+// mocked ioredis constructor hands out — so two caches behave like two pods.
+const mockStore = new Map<string, string>();
+jest.mock('ioredis', () => ({
+  Redis: jest.fn(() => ({
+    get: jest.fn(async (key: string) => mockStore.get(key) ?? null),
+    setex: jest.fn(async (key: string, _ttl: number, value: string) => {
+      mockStore.set(key, value);
+    }),
+    set: jest.fn(async (key: string, value: string) => {
+      if (mockStore.has(key)) return null;
+      mockStore.set(key, value);
+      return 'OK';
+    }),
+    eval: jest.fn(async (_script: string, _n: number, key: string, token: string) => {
+      if (mockStore.get(key) !== token) return 0;
+      mockStore.delete(key);
+      return 1;
+    }),
+    exists: jest.fn(async (key: string) => (mockStore.has(key) ? 1 : 0)),
+    del: jest.fn(async (...keys: string[]) => keys.filter((key) => mockStore.delete(key)).length),
+    keys: jest.fn(async () => []),
+    quit: jest.fn(),
+    on: jest.fn(),
+  })),
+}));
+
+import { AIResponseCache } from '../../src/core/cache.js';
+
+const slowly = (value: string, ms = 30) =>
+  jest.fn(() => new Promise((resolve) => setTimeout(() => resolve({ value, tokenCount: 0, cost: 0.02 }), ms)));
+
+describe('AIResponseCache distributed lock', () => {
+  const podConfig = {
+    storage: 'redis' as const,
+    redisOptions: { host: 'localhost' },
+    distributedLock: { enabled: true, pollIntervalMs: 5, waitTimeoutMs: 1000 },
+  };
+
+  beforeEach(() => mockStore.clear());
+
+  it('lets one process call the provider while the others wait for its entry', async () => {
+    const podA = new AIResponseCache(podConfig);
+    const podB = new AIResponseCache(podConfig);
+    const fnA = slowly('from A');
+    const fnB = slowly('from B');
+    const options = { provider: 'p', model: 'm', prompt: 'cold key' };
+
+    const [a, b] = await Promise.all([podA.wrap(fnA, options), podB.wrap(fnB, options)]);
+
+    expect(a).toBe('from A');
+    expect(b).toBe('from A');
+    expect(fnA).toHaveBeenCalledTimes(1);
+    expect(fnB).not.toHaveBeenCalled();
+    expect(podB.getStats().distributedWaits).toBe(1);
+    expect(podB.getStats().totalCostSaved).toBeCloseTo(0.02);
+    // The lock is released once the entry is written.
+    expect([...mockStore.keys()].some((key) => key.startsWith('lock:'))).toBe(false);
+  });
+
+  it("reports a value served from the holder's entry as coalesced, with its age and no cost to this call", async () => {
+    const pod = new AIResponseCache(podConfig);
+    const key = pod.generateKey('p', 'm', 'peer', undefined);
+    mockStore.set(`lock:ai-cache:${key}`, 'other-pod');
+    const written = Date.now() - 5000;
+    setTimeout(() => {
+      const entry = { key, value: 'from peer', timestamp: written, ttl: 3600, provider: 'p', model: 'm', tokenCount: 3, cost: 0.02 };
+      mockStore.set(`ai-cache:${key}`, JSON.stringify(entry));
+      mockStore.delete(`lock:ai-cache:${key}`);
+    }, 20);
+
+    const fn = slowly('unused');
+    const { value, meta } = await pod.wrapWithMeta(fn, { provider: 'p', model: 'm', prompt: 'peer' });
+
+    expect(value).toBe('from peer');
+    expect(fn).not.toHaveBeenCalled();
+    expect(meta).toEqual(expect.objectContaining({ hitType: 'coalesced', cached: true, matchedKey: key, cost: 0 }));
+    expect(meta.ageMs).toBeGreaterThanOrEqual(5000);
+    expect(meta.ttlRemainingMs).toBeLessThanOrEqual(3595 * 1000);
+  });
+
+  it("waits for the holder's entry rather than take one only kept to be served stale", async () => {
+    const pod = new AIResponseCache(podConfig);
+    const key = pod.generateKey('p', 'm', 'stale', undefined);
+    const entry = (value: string, timestamp: number, ttl: number) =>
+      JSON.stringify({ key, value, timestamp, ttl, staleWhileRevalidate: 3600, provider: 'p', model: 'm', tokenCount: 0, cost: 0.02 });
+    mockStore.set(`ai-cache:${key}`, entry('old', Date.now() - 10_000, 1));
+    mockStore.set(`lock:ai-cache:${key}`, 'other-pod');
+    setTimeout(() => {
+      mockStore.set(`ai-cache:${key}`, entry('new', Date.now(), 3600));
+      mockStore.delete(`lock:ai-cache:${key}`);
+    }, 30);
+
+    const fn = slowly('unused');
+    const { value, meta } = await pod.wrapWithMeta(fn, { provider: 'p', model: 'm', prompt: 'stale', staleWhileRevalidate: 0 });
+
+    expect(value).toBe('new');
+    expect(meta.hitType).toBe('coalesced');
+    expect(fn).not.toHaveBeenCalled();
+    expect(pod.getStats().distributedWaits).toBe(1);
+  });
+
+  it('takes over when the lock holder dies without writing the entry', async () => {
+    const pod = new AIResponseCache(podConfig);
+    const key = pod.generateKey('p', 'm', 'orphaned', undefined);
+    mockStore.set(`lock:ai-cache:${key}`, 'dead-holder');
+    setTimeout(() => mockStore.delete(`lock:ai-cache:${key}`), 20); // lease expires
+
+    const fn = slowly('recovered', 1);
+    const result = await pod.wrap(fn, { provider: 'p', model: 'm', prompt: 'orphaned' });
+
+    expect(result).toBe('recovered');
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(pod.getStats().distributedWaits).toBe(0);
+  });
+
+  it('falls back to calling the provider when the wait times out', async () => {
+    const pod = new AIResponseCache({
+      ...podConfig,
+      distributedLock: { enabled: true, pollIntervalMs: 5, waitTimeoutMs: 30 },
+    });
+    const key = pod.generateKey('p', 'm', 'stuck', undefined);
+    mockStore.set(`lock:ai-cache:${key}`, 'slow-holder');
+
+    const fn = slowly('fallback', 1);
+    const result = await pod.wrap(fn, { provider: 'p', model: 'm', prompt: 'stuck' });
+
+    expect(result).toBe('fallback');
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it("rethrows the holder's cached failure instead of serving it as a value", async () => {
+    const failing = () =>
+      jest.fn(
+        () =>
+          new Promise((_, reject) =>
+            setTimeout(() => reject(Object.assign(new Error('context length exceeded'), { status: 400 })), 30)
+          )
+      );
+    const options = { provider: 'p', model: 'm', prompt: 'bad request' };
+    const podA = new AIResponseCache({ ...podConfig, negativeCache: { enabled: true } });
+    const podB = new AIResponseCache({ ...podConfig, negativeCache: { enabled: true } });
+    const fnA = failing();
+    const fnB = slowly('unused');
+
+    const [a, b] = await Promise.allSettled([podA.wrapWithMeta(fnA, options), podB.wrapWithMeta(fnB, options)]);
+
+    expect(a).toEqual(expect.objectContaining({ status: 'rejected' }));
+    expect(b).toEqual(expect.objectContaining({ status: 'rejected' }));
+    expect((b as PromiseRejectedResult).reason.message).toBe('context length exceeded');
+    expect(fnB).not.toHaveBeenCalled();
+    expect(podB.getStats().distributedWaits).toBe(1);
+
+    // Without negative caching the peer's failure is ignored and the provider called.
+    mockStore.clear();
+    const podC = new AIResponseCache({ ...podConfig, negativeCache: { enabled: true } });
+    const podD = new AIResponseCache(podConfig);
+    const fnD = slowly('from D');
+    const [, d] = await Promise.allSettled([podC.wrap(failing(), options), podD.wrap(fnD, options)]);
+
+    expect(d).toEqual({ status: 'fulfilled', value: 'from D' });
+    expect(fnD).toHaveBeenCalledTimes(1);
+  });
+
+  it('is off by default', async () => {
+    const podA = new AIResponseCache({ ...podConfig, distributedLock: undefined });
+    const podB = new AIResponseCache({ ...podConfig, distributedLock: undefined });
+    const fn = slowly('v');
+    const options = { provider: 'p', model: 'm', prompt: 'no lock' };
+
+    await Promise.all([podA.wrap(fn, options), podB.wrap(fn, options)]);
+
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,134 @@
+import { AIResponseCache } from '../../src/core/cache.js';
+import { CacheEventEmitter } from '../../src/core/events.js';
+import { MockEmbeddingProvider } from '../../src/embeddings/mock.js';
+import { MemoryVectorStore } from '../../src/vector/memory-vector-store.js';
+
+const result = (value: string) => ({ value, tokenCount: 10, cost: 0.01 });
+
+class TestEmitter extends CacheEventEmitter<{ ping: number; error: { error: unknown } }> {
+  fire(n: number): void {
+    this.emit('ping', n);
+  }
+
+  fail(error: unknown): void {
+    this.emit('error', { error });
+  }
+}
+
+describe('CacheEventEmitter', () => {
+  it('supports on, once and off', () => {
+    const emitter = new TestEmitter();
+    const always = jest.fn();
+    const first = jest.fn();
+    emitter.on('ping', always).once('ping', first);
+
+    emitter.fire(1);
+    emitter.fire(2);
+    emitter.off('ping', always);
+    emitter.fire(3);
+
+    expect(always.mock.calls).toEqual([[1], [2]]);
+    expect(first.mock.calls).toEqual([[1]]);
+    expect(emitter.listenerCount('ping')).toBe(0);
+  });
+
+  it("does not throw for an unhandled 'error' or a throwing listener", () => {
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const emitter = new TestEmitter();
+    const after = jest.fn();
+    emitter.on('ping', () => {
+      throw new Error('listener bug');
+    });
+    emitter.on('ping', after);
+
+    expect(() => emitter.fail(new Error('boom'))).not.toThrow();
+    expect(() => emitter.fire(1)).not.toThrow();
+    expect(after).toHaveBeenCalledWith(1);
+    expect(errorSpy).toHaveBeenCalled();
+    errorSpy.mockRestore();
+  });
+});
+
+describe('AIResponseCache events', () => {
+  const options = { provider: 'p', model: 'm', prompt: 'hello' };
+
+  it('emits miss, set and hit with key, provider, model and cost', async () => {
+    const cache = new AIResponseCache();
+    const events: Array<[string, any]> = [];
+    for (const event of ['hit', 'miss', 'set'] as const) {
+      cache.on(event, (payload) => events.push([event, payload]));
+    }
+
+    await cache.wrap(jest.fn().mockResolvedValue(result('v')), options);
+    await cache.wrap(jest.fn(), options);
+
+    expect(events.map(([event]) => event)).toEqual(['miss', 'set', 'hit']);
+    const key = events[0][1].key;
+    expect(events[0][1]).toEqual({ key, provider: 'p', model: 'm', latencyMs: expect.any(Number) });
+    expect(events[1][1]).toMatchObject({ key, provider: 'p', model: 'm', cost: 0.01, kind: 'value' });
+    expect(events[2][1]).toMatchObject({ key, provider: 'p', model: 'm', hitType: 'exact', cost: 0.01 });
+  });
+
+  it('emits semanticHit and nearMiss with scores', async () => {
+    const provider = new MockEmbeddingProvider({
+      vectors: { 'reset password': [1, 0], 'password reset': [1, 0], 'weather today': [0.6, 0.8] },
+    });
+    const cache = new AIResponseCache({
+      semantic: { enabled: true, provider, vectorStore: new MemoryVectorStore(), threshold: 0.9 },
+    });
+    const semanticHit = jest.fn();
+    const nearMiss = jest.fn();
+    cache.on('semanticHit', semanticHit).on('nearMiss', nearMiss);
+
+    await cache.wrap(jest.fn().mockResolvedValue(result('answer')), { ...options, prompt: 'reset password' });
+    await cache.wrap(jest.fn(), { ...options, prompt: 'password reset' });
+    await cache.wrap(jest.fn().mockResolvedValue(result('sunny')), { ...options, prompt: 'weather today' });
+
+    expect(semanticHit).toHaveBeenCalledWith(
+      expect.objectContaining({ provider: 'p', model: 'm', score: expect.closeTo(1), cost: 0.01 })
+    );
+    expect(nearMiss).toHaveBeenCalledWith(expect.objectContaining({ score: expect.closeTo(0.6), threshold: 0.9 }));
+  });
+
+  it('emits retry for each retried attempt and error when the provider finally fails', async () => {
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const cache = new AIResponseCache({ retry: { maxAttempts: 2, baseDelayMs: 1 } });
+    const retry = jest.fn();
+    const error = jest.fn();
+    cache.on('retry', retry).on('error', error);
+    const failure = new Error('ECONNRESET');
+
+    await expect(cache.wrap(jest.fn().mockRejectedValue(failure), options)).rejects.toThrow('ECONNRESET');
+
+    expect(retry).toHaveBeenCalledWith(expect.objectContaining({ provider: 'p', attempt: 1, error: failure }));
+    expect(error).toHaveBeenCalledWith(expect.objectContaining({ operation: 'provider', error: failure }));
+    errorSpy.mockRestore();
+  });
+
+  it('forwards storage evict and delete events', async () => {
+    const cache = new AIResponseCache({ maxSize: 1 });
+    const evict = jest.fn();
+    const del = jest.fn();
+    cache.on('evict', evict).on('delete', del);
+
+    await cache.wrap(jest.fn().mockResolvedValue(result('a')), { ...options, prompt: 'a', cacheKey: 'a' });
+    await cache.wrap(jest.fn().mockResolvedValue(result('b')), { ...options, prompt: 'b', cacheKey: 'b' });
+    await cache.delete('b');
+
+    expect(evict).toHaveBeenCalledWith(expect.objectContaining({ key: expect.any(String) }));
+    expect(del).toHaveBeenCalledWith({ key: 'b', provider: 'p', model: 'm' });
+  });
+
+  it('emits an error event when storage fails and still serves the call', async () => {
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const cache = new AIResponseCache();
+    const onError = jest.fn();
+    cache.on('error', onError);
+    jest.spyOn((cache as any).storage, 'get').mockRejectedValue(new Error('storage down'));
+
+    await expect(cache.wrap(jest.fn().mockResolvedValue(result('v')), options)).resolves.toBe('v');
+
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ operation: 'get', provider: 'p' }));
+    errorSpy.mockRestore();
+  });
+});
@@ -0,0 +1,125 @@
+import { AIResponseCache } from '../../src/core/cache.js';
+import { MockEmbeddingProvider } from '../../src/embeddings/mock.js';
+import { MockVerifier } from '../../src/verification/mock.js';
+import { SemanticConfig } from '../../src/core/types.js';
+
+describe('AIResponseCache.explain', () => {
+  const vectors = {
+    'capital of France': [1, 0, 0],
+    'capital of France in 1900': [0.96, 0, Math.sqrt(1 - 0.96 ** 2)],
+    'France capital': [0.97, Math.sqrt(1 - 0.97 ** 2), 0],
+  };
+  const call = { provider: 'p', model: 'm' };
+  const makeCache = (semantic: Partial<SemanticConfig> = {}) =>
+    new AIResponseCache({
+      logger: 'silent',
+      semantic: { enabled: true, provider: new MockEmbeddingProvider({ vectors }), threshold: 0.95, ...semantic },
+    });
+  const answer = (value: string) => jest.fn().mockResolvedValue({ value, tokenCount: 10, cost: 0.01 });
+  const seed = async (cache: AIResponseCache) => {
+    await cache.wrap(answer('Paris'), { ...call, prompt: 'capital of France' });
+    await cache.wrap(answer('Paris'), { ...call, prompt: 'capital of France in 1900', mode: 'write-only' });
+  };
+
+  it('explains an exact hit without touching stats or emitting events', async () => {
+    const cache = makeCache();
+    await seed(cache);
+    const stats = JSON.stringify(cache.getStats());
+    const emit = jest.spyOn(cache, 'emit');
+
+    const result = await cache.explain({ ...call, prompt: 'capital of France' });
+
+    expect(result.key).toBe(cache.generateKey('p', 'm', 'capital of France', undefined));
+    expect(result.exact).toEqual(expect.objectContaining({ exists: true, entry: 'fresh', ageMs: expect.any(Number) }));
+    expect(result.outcome).toBe('exact');
+    expect(JSON.stringify(cache.getStats())).toBe(stats);
+    expect(emit).not.toHaveBeenCalled();
+  });
+
+  it('lists the neighbours, why each would be rejected, and the one it would serve', async () => {
+    const cache = makeCache();
+    await seed(cache);
+
+    const result = await cache.explain({ ...call, prompt: 'France capital' });
+    const semantic = result.semantic!;
+
+    expect(result.exact).toEqual({ exists: false, entry: 'missing' });
+    expect(result.outcome).toBe('semantic');
+    expect(semantic).toEqual(
+      expect.objectContaining({
+        embedText: 'France capital',
+        context: 'last-message',
+        embeddingProvider: 'mock',
+        route: 'p:m',
+        threshold: 0.95,
+        thresholdSource: 'config',
+        scope: ['provider', 'model', 'params', 'systemPrompt'],
+        guard: null,
+        verification: null,
+      })
+    );
+    const [best, below] = semantic.neighbours;
+    expect(semantic.matchedKey).toBe(best.key);
+    expect(best).toEqual(
+      expect.objectContaining({ score: expect.closeTo(0.97, 5), clearsThreshold: true, entry: 'fresh', text: 'capital of France' })
+    );
+    expect(best.rejected).toBeUndefined();
+    expect(below.clearsThreshold).toBe(false);
+    expect(below.rejected).toMatch(/< threshold 0.95/);
+  });
+
+  it('reports guard rejections and a per-call threshold', async () => {
+    const cache = makeCache({ guard: { enabled: true } });
+    await seed(cache);
+
+    const { semantic } = await cache.explain({ ...call, prompt: 'France capital', semantic: { threshold: 0.9 } });
+
+    expect(semantic!.thresholdSource).toBe('call');
+    expect(semantic!.guard).toContain('numbers');
+    expect(semantic!.neighbours[1].rejected).toBe('rejected by guard (numbers differ: [] vs [1900])');
+  });
+
+  it('runs the verifier and reports its scores', async () => {
+    const verifier = new MockVerifier({ scores: { 'France capital\ncapital of France': 0.2 } });
+    const cache = makeCache({ verification: { enabled: true, verifier, recallThreshold: 0.9, minScore: 0.5 } });
+    await seed(cache);
+
+    const result = await cache.explain({ ...call, prompt: 'France capital' });
+    const [best, second] = result.semantic!.neighbours;
+
+    expect(result.semantic!.recallThreshold).toBe(0.9);
+    expect(result.semantic!.verification).toEqual({ verifier: 'mock', minScore: 0.5 });
+    expect(best.verifierScore).toBe(0.2);
+    expect(best.rejected).toMatch(/rejected by verifier/);
+    expect(second.verifierScore).toBe(0);
+    expect(result.semantic!.matchedKey).toBeUndefined();
+    expect(result.outcome).toBe('miss');
+  });
+
+  it('leaves an expired entry in storage', async () => {
+    const cache = makeCache();
+    await cache.wrap(answer('Paris'), { ...call, prompt: 'capital of France', ttl: 1 });
+    const now = Date.now();
+    const spy = jest.spyOn(Date, 'now').mockReturnValue(now + 5000);
+    try {
+      const result = await cache.explain({ ...call, prompt: 'capital of France' });
+      expect(result.exact).toEqual(expect.objectContaining({ exists: true, entry: 'expired' }));
+      expect(result.outcome).toBe('miss');
+      expect(await cache.getCacheSize()).toBe(1);
+    } finally {
+      spy.mockRestore();
+    }
+  });
+
+  it('follows the cache mode and the semantic switch', async () => {
+    const cache = makeCache();
+    await seed(cache);
+
+    expect((await cache.explain({ ...call, prompt: 'capital of France', mode: 'bypass' })).outcome).toBe('bypass');
+    expect((await cache.explain({ ...call, prompt: 'capital of France', mode: 'refresh' })).outcome).toBe('miss');
+    const off = await cache.explain({ ...call, prompt: 'France capital', semantic: { enabled: false } });
+    expect(off.semantic).toBeNull();
+    expect(off.outcome).toBe('miss');
+    await expect(cache.explain({ ...call, model: '' })).rejects.toThrow('Model is required');
+  });
+});
@@ -0,0 +1,100 @@
+import { AIResponseCache } from '../../src/core/cache.js';
+import { MockEmbeddingProvider } from '../../src/embeddings/mock.js';
+import { MemoryVectorStore } from '../../src/vector/memory-vector-store.js';
+
+const result = (value: string) => ({ value, tokenCount: 10, cost: 0.01 });
+
+describe('AIResponseCache.wrapWithMeta', () => {
+  const options = { provider: 'p', model: 'm', prompt: 'hello', ttl: 60 };
+
+  it('reports a miss, then an exact hit with its age and remaining TTL', async () => {
+    const cache = new AIResponseCache();
+    const nowSpy = jest.spyOn(Date, 'now');
+    try {
+      nowSpy.mockReturnValue(1_000_000);
+      const first = await cache.wrapWithMeta(jest.fn().mockResolvedValue(result('v')), options);
+      const key = first.meta.key;
+
+      expect(first.value).toBe('v');
+      expect(first.meta).toEqual({
+        hitType: 'miss',
+        cached: false,
+        key,
+        matchedKey: key,
+        ageMs: 0,
+        ttlRemainingMs: 60_000,
+        cost: 0.01,
+        latencyMs: 0,
+      });
+
+      nowSpy.mockReturnValue(1_010_000);
+      const second = await cache.wrapWithMeta(jest.fn(), options);
+      expect(second.meta).toMatchObject({
+        hitType: 'exact',
+        cached: true,
+        key,
+        matchedKey: key,
+        ageMs: 10_000,
+        ttlRemainingMs: 50_000,
+        cost: 0.01,
+      });
+    } finally {
+      nowSpy.mockRestore();
+    }
+  });
+
+  it('reports a stale hit with a negative remaining TTL', async () => {
+    const cache = new AIResponseCache();
+    const nowSpy = jest.spyOn(Date, 'now');
+    try {
+      nowSpy.mockReturnValue(1_000_000);
+      await cache.wrapWithMeta(jest.fn().mockResolvedValue(result('v')), { ...options, staleWhileRevalidate: 60 });
+
+      nowSpy.mockReturnValue(1_070_000);
+      const { meta } = await cache.wrapWithMeta(jest.fn().mockResolvedValue(result('v2')), {
+        ...options,
+        staleWhileRevalidate: 60,
+      });
+      expect(meta).toMatchObject({ hitType: 'stale', cached: true, ttlRemainingMs: -10_000 });
+    } finally {
+      nowSpy.mockRestore();
+    }
+  });
+
+  it('reports a semantic hit with the matched key and score', async () => {
+    const provider = new MockEmbeddingProvider({
+      vectors: { 'reset my password': [1, 0], 'password reset steps': [1, 0] },
+    });
+    const cache = new AIResponseCache({
+      semantic: { enabled: true, provider, vectorStore: new MemoryVectorStore(), threshold: 0.9 },
+    });
+
+    const first = await cache.wrapWithMeta(jest.fn().mockResolvedValue(result('answer')), {
+      ...options,
+      prompt: 'reset my password',
+    });
+    const second = await cache.wrapWithMeta(jest.fn(), { ...options, prompt: 'password reset steps' });
+
+    expect(second.value).toBe('answer');
+    expect(second.meta).toMatchObject({ hitType: 'semantic', cached: true, matchedKey: first.meta.key, cost: 0.01 });
+    expect(second.meta.key).not.toBe(first.meta.key);
+    expect(second.meta.score).toBeCloseTo(1);
+  });
+
+  it('reports coalesced callers and bypassed calls', async () => {
+    const cache = new AIResponseCache();
+    const fn = jest.fn(() => new Promise((resolve) => setTimeout(() => resolve(result('shared')), 20)));
+
+    const [leader, follower] = await Promise.all([cache.wrapWithMeta(fn, options), cache.wrapWithMeta(fn, options)]);
+
+    expect(leader.meta.hitType).toBe('miss');
+    expect(follower.meta).toMatchObject({ hitType: 'coalesced', cached: true, matchedKey: leader.meta.key, cost: 0.01 });
+
+    const bypassed = await cache.wrapWithMeta(jest.fn().mockResolvedValue(result('direct')), {
+      ...options,
+      mode: 'bypass',
+    });
+    expect(bypassed.value).toBe('direct');
+    expect(bypassed.meta).toMatchObject({ hitType: 'bypass', cached: false, cost: 0.01 });
+  });
+});
@@ -0,0 +1,127 @@
+import { AIResponseCache } from '../../src/core/cache.js';
+import { CacheMissError } from '../../src/core/errors.js';
+import { cacheModeFromCacheControl, getScopedCacheMode, withCacheMode } from '../../src/core/context.js';
+
+const result = (value: string) => ({ value, tokenCount: 10, cost: 0.01 });
+
+describe('cacheModeFromCacheControl', () => {
+  it('maps request directives to modes', () => {
+    expect(cacheModeFromCacheControl('no-store')).toBe('bypass');
+    expect(cacheModeFromCacheControl('no-cache')).toBe('refresh');
+    expect(cacheModeFromCacheControl('Max-Age = 0')).toBe('refresh');
+    expect(cacheModeFromCacheControl('only-if-cached')).toBe('cache-only');
+    expect(cacheModeFromCacheControl(['no-cache', 'no-store'])).toBe('bypass');
+    expect(cacheModeFromCacheControl('max-age=60')).toBeUndefined();
+    expect(cacheModeFromCacheControl(undefined)).toBeUndefined();
+  });
+});
+
+describe('AIResponseCache modes', () => {
+  let cache: AIResponseCache;
+  const options = { provider: 'p', model: 'm', prompt: 'hello' };
+
+  beforeEach(() => {
+    cache = new AIResponseCache();
+  });
+
+  it('bypass neither reads nor writes and is not counted', async () => {
+    await cache.wrap(jest.fn().mockResolvedValue(result('cached')), options);
+
+    const fn = jest.fn().mockResolvedValue(result('fresh'));
+    expect(await cache.wrap(fn, { ...options, mode: 'bypass' })).toBe('fresh');
+    expect(await cache.wrap(jest.fn(), options)).toBe('cached');
+    expect(cache.getStats().totalRequests).toBe(2);
+  });
+
+  it('refresh calls the provider and overwrites the entry', async () => {
+    await cache.wrap(jest.fn().mockResolvedValue(result('old')), options);
+
+    const fn = jest.fn().mockResolvedValue(result('new'));
+    expect(await cache.wrap(fn, { ...options, mode: 'refresh' })).toBe('new');
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(await cache.wrap(jest.fn(), options)).toBe('new');
+    expect(cache.getStats().cacheMisses).toBe(2);
+  });
+
+  it('read-only serves hits but never stores a miss', async () => {
+    const fn = jest.fn().mockResolvedValue(result('value'));
+    expect(await cache.wrap(fn, { ...options, mode: 'read-only' })).toBe('value');
+    expect(await cache.wrap(fn, { ...options, mode: 'read-only' })).toBe('value');
+    expect(fn).toHaveBeenCalledTimes(2);
+
+    await cache.wrap(fn, options);
+    expect(await cache.wrap(fn, { ...options, mode: 'read-only' })).toBe('value');
+    expect(fn).toHaveBeenCalledTimes(3);
+  });
+
+  it('read-only does not revalidate a stale entry in the background', async () => {
+    const nowSpy = jest.spyOn(Date, 'now');
+    try {
+      nowSpy.mockReturnValue(1_000_000);
+      await cache.wrap(jest.fn().mockResolvedValue(result('stale')), { ...options, ttl: 10, staleWhileRevalidate: 60 });
+
+      nowSpy.mockReturnValue(1_000_000 + 20_000);
+      const fn = jest.fn().mockResolvedValue(result('fresh'));
+      expect(await cache.wrap(fn, { ...options, ttl: 10, staleWhileRevalidate: 60, mode: 'read-only' })).toBe('stale');
+      expect(fn).not.toHaveBeenCalled();
+    } finally {
+      nowSpy.mockRestore();
+    }
+  });
+
+  it('write-only stores without reading and stays out of the hit rate', async () => {
+    await cache.wrap(jest.fn().mockResolvedValue(result('old')), options);
+
+    const fn = jest.fn().mockResolvedValue(result('warmed'));
+    expect(await cache.wrap(fn, { ...options, mode: 'write-only' })).toBe('warmed');
+    expect(await cache.wrap(jest.fn(), options)).toBe('warmed');
+
+    const stats = cache.getStats();
+    expect(stats.totalRequests).toBe(2);
+    expect(stats.cacheMisses).toBe(1);
+    expect(stats.hitRate).toBe(50);
+  });
+
+  it('cache-only serves hits and throws CacheMissError on a miss', async () => {
+    const fn = jest.fn().mockResolvedValue(result('value'));
+    const miss = cache.wrap(fn, { ...options, mode: 'cache-only' });
+    await expect(miss).rejects.toBeInstanceOf(CacheMissError);
+    await expect(miss).rejects.toMatchObject({ name: 'CacheMissError' });
+    expect(fn).not.toHaveBeenCalled();
+
+    await cache.wrap(fn, options);
+    expect(await cache.wrap(jest.fn(), { ...options, mode: 'cache-only' })).toBe('value');
+  });
+
+  it('rejects an unknown mode', async () => {
+    await expect(cache.wrap(jest.fn(), { ...options, mode: 'sometimes' as any })).rejects.toThrow(
+      'mode must be one of'
+    );
+  });
+
+  describe('withCacheMode', () => {
+    it('applies the scoped mode across awaits', async () => {
+      await cache.wrap(jest.fn().mockResolvedValue(result('old')), options);
+      const fn = jest.fn().mockResolvedValue(result('new'));
+
+      const value = await withCacheMode('refresh', async () => {
+        await Promise.resolve();
+        expect(getScopedCacheMode()).toBe('refresh');
+        return cache.wrap(fn, options);
+      });
+
+      expect(value).toBe('new');
+      expect(getScopedCacheMode()).toBeUndefined();
+    });
+
+    it('lets a per-call mode override the scope', async () => {
+      await cache.wrap(jest.fn().mockResolvedValue(result('cached')), options);
+      const fn = jest.fn().mockResolvedValue(result('fresh'));
+
+      const value = await withCacheMode('bypass', () => cache.wrap(fn, { ...options, mode: 'default' }));
+
+      expect(value).toBe('cached');
+      expect(fn).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,111 @@
+import { AIResponseCache } from '../../src/core/cache.js';
+import { CachedProviderError } from '../../src/core/errors.js';
+import { isDeterministicError, reconstructError, serializeError } from '../../src/core/negative-cache.js';
+
+const providerError = (status: number, code?: string) =>
+  Object.assign(new Error(`${status} ${code ?? 'error'}`), { name: 'BadRequestError', status, code, type: 'invalid_request_error' });
+
+describe('negative cache helpers', () => {
+  it('treats 400, 404 and 422 as deterministic, nothing else', () => {
+    expect(isDeterministicError(providerError(400, 'context_length_exceeded'))).toBe(true);
+    expect(isDeterministicError(providerError(404, 'model_not_found'))).toBe(true);
+    expect(isDeterministicError(providerError(422))).toBe(true);
+    expect(isDeterministicError(providerError(401))).toBe(false);
+    expect(isDeterministicError(providerError(429))).toBe(false);
+    expect(isDeterministicError(providerError(500))).toBe(false);
+    expect(isDeterministicError(new Error('ECONNRESET'))).toBe(false);
+  });
+
+  it('round-trips the useful fields of an error through JSON', () => {
+    const data = JSON.parse(JSON.stringify(serializeError(providerError(400, 'content_policy_violation'))));
+    const rebuilt = reconstructError(data);
+
+    expect(rebuilt).toBeInstanceOf(CachedProviderError);
+    expect(rebuilt).toMatchObject({
+      name: 'BadRequestError',
+      message: '400 content_policy_violation',
+      status: 400,
+      code: 'content_policy_violation',
+      type: 'invalid_request_error',
+      cached: true,
+    });
+  });
+});
+
+describe('AIResponseCache negative caching', () => {
+  let errorSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    errorSpy.mockRestore();
+  });
+
+  it('rethrows a cached deterministic failure without calling the provider', async () => {
+    const cache = new AIResponseCache({ negativeCache: { enabled: true } });
+    const fn = jest.fn().mockRejectedValue(providerError(400, 'context_length_exceeded'));
+    const options = { provider: 'p', model: 'm', prompt: 'way too long' };
+
+    await expect(cache.wrap(fn, options)).rejects.toThrow('400 context_length_exceeded');
+    await expect(cache.wrap(fn, options)).rejects.toMatchObject({ status: 400, cached: true });
+
+    expect(fn).toHaveBeenCalledTimes(1);
+    const stats = cache.getStats();
+    expect(stats.negativeHits).toBe(1);
+    expect(stats.cacheHits).toBe(0);
+  });
+
+  it('does not cache transient failures', async () => {
+    const cache = new AIResponseCache({ negativeCache: { enabled: true }, retry: { maxAttempts: 1 } });
+    const fn = jest.fn().mockRejectedValue(providerError(503));
+    const options = { provider: 'p', model: 'm', prompt: 'flaky' };
+
+    await expect(cache.wrap(fn, options)).rejects.toThrow();
+    await expect(cache.wrap(fn, options)).rejects.toThrow();
+
+    expect(fn).toHaveBeenCalledTimes(2);
+    expect(cache.getStats().negativeHits).toBe(0);
+  });
+
+  it('expires cached failures after their own TTL', async () => {
+    let now = Date.now();
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    const cache = new AIResponseCache({ ttl: 3600, negativeCache: { enabled: true, ttl: 30 } });
+    const fn = jest.fn().mockRejectedValueOnce(providerError(404, 'model_not_found')).mockResolvedValue({ value: 'ok' });
+    const options = { provider: 'p', model: 'typo-model' };
+
+    await expect(cache.wrap(fn, options)).rejects.toThrow();
+    now += 31_000;
+
+    await expect(cache.wrap(fn, options)).resolves.toBe('ok');
+    jest.restoreAllMocks();
+  });
+
+  it('honors a custom classifier and per-call opt-out', async () => {
+    const isCacheable = jest.fn().mockReturnValue(true);
+    const cache = new AIResponseCache({ negativeCache: { enabled: true, isCacheable }, retry: { maxAttempts: 1 } });
+    const fn = jest.fn().mockRejectedValue(new Error('policy rejection'));
+
+    await expect(cache.wrap(fn, { provider: 'p', model: 'm', prompt: 'x' })).rejects.toThrow();
+    await expect(cache.wrap(fn, { provider: 'p', model: 'm', prompt: 'x' })).rejects.toBeInstanceOf(CachedProviderError);
+    await expect(
+      cache.wrap(fn, { provider: 'p', model: 'm', prompt: 'x', negativeCache: { enabled: false } })
+    ).rejects.not.toBeInstanceOf(CachedProviderError);
+
+    expect(isCacheable).toHaveBeenCalled();
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it('is off by default', async () => {
+    const cache = new AIResponseCache();
+    const fn = jest.fn().mockRejectedValue(providerError(400));
+    const options = { provider: 'p', model: 'm' };
+
+    await expect(cache.wrap(fn, options)).rejects.toThrow();
+    await expect(cache.wrap(fn, options)).rejects.toThrow();
+
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,146 @@
+import {
+  computeRetryDelay,
+  getErrorStatus,
+  getRetryAfterMs,
+  isRetryableError,
+  resolveRetryPolicy,
+} from '../../src/core/retry.js';
+import { AIResponseCache } from '../../src/core/cache.js';
+
+// Shapes of the errors the three provider SDKs throw.
+const openAIError = (status: number, headers: Record<string, string> = {}) =>
+  Object.assign(new Error(`${status} error`), { status, headers: new Headers(headers) });
+const googleError = (status: number, errorDetails?: any[]) =>
+  Object.assign(new Error(`[GoogleGenerativeAI Error]: ${status}`), { status, errorDetails });
+
+describe('retry classification', () => {
+  it('reads the status from SDK and HTTP-client error shapes', () => {
+    expect(getErrorStatus(openAIError(429))).toBe(429);
+    expect(getErrorStatus({ statusCode: 503 })).toBe(503);
+    expect(getErrorStatus({ response: { status: 401 } })).toBe(401);
+    expect(getErrorStatus(new Error('socket hang up'))).toBeUndefined();
+  });
+
+  it('retries network errors, 408, 429 and 5xx but no other 4xx', () => {
+    expect(isRetryableError(new Error('ECONNRESET'))).toBe(true);
+    expect(isRetryableError(openAIError(408))).toBe(true);
+    expect(isRetryableError(openAIError(429))).toBe(true);
+    expect(isRetryableError(googleError(503))).toBe(true);
+    expect(isRetryableError(openAIError(400))).toBe(false);
+    expect(isRetryableError(openAIError(401))).toBe(false);
+    expect(isRetryableError(googleError(404))).toBe(false);
+  });
+
+  it('never retries a caller abort', () => {
+    expect(isRetryableError(Object.assign(new Error('aborted'), { name: 'AbortError' }))).toBe(false);
+  });
+});
+
+describe('getRetryAfterMs', () => {
+  it('prefers retry-after-ms, then Retry-After seconds', () => {
+    expect(getRetryAfterMs(openAIError(429, { 'retry-after-ms': '250', 'retry-after': '9' }))).toBe(250);
+    expect(getRetryAfterMs(openAIError(429, { 'retry-after': '2' }))).toBe(2000);
+    expect(getRetryAfterMs({ response: { headers: { 'retry-after': '1.5' } } })).toBe(1500);
+  });
+
+  it('parses an HTTP-date Retry-After', () => {
+    const inFiveSeconds = new Date(Date.now() + 5000).toUTCString();
+    const delay = getRetryAfterMs(openAIError(503, { 'retry-after': inFiveSeconds }))!;
+    expect(delay).toBeGreaterThan(3000);
+    expect(delay).toBeLessThanOrEqual(5000);
+  });
+
+  it("reads Google's RetryInfo detail", () => {
+    const error = googleError(429, [
+      { '@type': 'type.googleapis.com/google.rpc.QuotaFailure' },
+      { '@type': 'type.googleapis.com/google.rpc.RetryInfo', retryDelay: '12s' },
+    ]);
+    expect(getRetryAfterMs(error)).toBe(12000);
+  });
+
+  it('returns undefined without a server hint', () => {
+    expect(getRetryAfterMs(new Error('boom'))).toBeUndefined();
+  });
+});
+
+describe('computeRetryDelay', () => {
+  const error = new Error('transient');
+
+  it('follows the backoff curve up to maxDelayMs', () => {
+    const exponential = resolveRetryPolicy({ baseDelayMs: 100, maxDelayMs: 500 });
+    expect([1, 2, 3].map((n) => computeRetryDelay(exponential, n, error))).toEqual([200, 400, 500]);
+
+    const linear = resolveRetryPolicy({ backoff: 'linear', baseDelayMs: 100 });
+    expect([1, 2, 3].map((n) => computeRetryDelay(linear, n, error))).toEqual([100, 200, 300]);
+
+    const custom = resolveRetryPolicy({ backoff: (n) => n * 7 });
+    expect(computeRetryDelay(custom, 3, error)).toBe(21);
+  });
+
+  it('applies jitter within the computed delay', () => {
+    jest.spyOn(Math, 'random').mockReturnValue(0.5);
+    expect(computeRetryDelay(resolveRetryPolicy({ baseDelayMs: 100, jitter: 'full' }), 1, error)).toBe(100);
+    expect(computeRetryDelay(resolveRetryPolicy({ baseDelayMs: 100, jitter: 'equal' }), 1, error)).toBe(150);
+    jest.restoreAllMocks();
+  });
+
+  it('honors a server delay, or refuses one longer than maxDelayMs', () => {
+    const policy = resolveRetryPolicy({ baseDelayMs: 100, maxDelayMs: 5000 });
+    expect(computeRetryDelay(policy, 1, openAIError(429, { 'retry-after': '3' }))).toBe(3000);
+    expect(computeRetryDelay(policy, 1, openAIError(429, { 'retry-after': '60' }))).toBeNull();
+  });
+});
+
+describe('AIResponseCache retry policy', () => {
+  let errorSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    errorSpy.mockRestore();
+  });
+
+  it('does not retry a 400 or a 401', async () => {
+    const cache = new AIResponseCache({ retry: { baseDelayMs: 1 } });
+    const badRequest = jest.fn().mockRejectedValue(openAIError(400));
+    const unauthorized = jest.fn().mockRejectedValue(openAIError(401));
+
+    await expect(cache.wrap(badRequest, { provider: 'p', model: 'm', prompt: 'a' })).rejects.toThrow('400 error');
+    await expect(cache.wrap(unauthorized, { provider: 'p', model: 'm', prompt: 'b' })).rejects.toThrow('401 error');
+
+    expect(badRequest).toHaveBeenCalledTimes(1);
+    expect(unauthorized).toHaveBeenCalledTimes(1);
+    expect(cache.getStats().retries).toBe(0);
+  });
+
+  it('waits for Retry-After on a 429 and counts the retry', async () => {
+    const cache = new AIResponseCache({ retry: { baseDelayMs: 1 } });
+    const fn = jest
+      .fn()
+      .mockRejectedValueOnce(openAIError(429, { 'retry-after-ms': '40' }))
+      .mockResolvedValue({ value: 'ok' });
+
+    const start = Date.now();
+    await expect(cache.wrap(fn, { provider: 'p', model: 'm' })).resolves.toBe('ok');
+
+    expect(Date.now() - start).toBeGreaterThanOrEqual(35);
+    expect(fn).toHaveBeenCalledTimes(2);
+    expect(cache.getStats().retries).toBe(1);
+  });
+
+  it('lets a per-call policy override the config', async () => {
+    const cache = new AIResponseCache({ retry: { maxAttempts: 5, baseDelayMs: 1 } });
+    const fn = jest.fn().mockRejectedValue(new Error('flaky'));
+    const shouldRetry = jest.fn().mockReturnValue(true);
+
+    await expect(
+      cache.wrap(fn, { provider: 'p', model: 'm', retry: { maxAttempts: 2, shouldRetry } })
+    ).rejects.toThrow('flaky');
+
+    expect(fn).toHaveBeenCalledTimes(2);
+    expect(shouldRetry).toHaveBeenCalledWith(expect.any(Error), 1);
+    expect(cache.getStats().retries).toBe(1);
+  });
+});
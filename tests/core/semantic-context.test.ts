@@ -0,0 +1,108 @@
+import { AIResponseCache } from '../../src/core/cache.js';
+import { lastUserMessageText, resolveSemanticContext } from '../../src/core/semantic-context.js';
+import { MockEmbeddingProvider } from '../../src/embeddings/mock.js';
+import { MemoryVectorStore } from '../../src/vector/memory-vector-store.js';
+
+const conversation = (topic: string, question: string) => [
+  { role: 'system', content: 'You are helpful' },
+  { role: 'user', content: `tell me about ${topic}` },
+  { role: 'assistant', content: `${topic} is lovely` },
+  { role: 'user', content: question },
+];
+
+describe('resolveSemanticContext', () => {
+  it('embeds the last user message by default', () => {
+    expect(resolveSemanticContext(conversation('Paris', 'and in winter?'), { strategy: 'last-message' })).toEqual({
+      text: 'and in winter?',
+      contextId: 'last-message',
+    });
+    expect(lastUserMessageText('  plain prompt ')).toBe('plain prompt');
+  });
+
+  it('hashes the earlier turns, ignoring the system prompt', () => {
+    const paris = resolveSemanticContext(conversation('Paris', 'and in winter?'), { strategy: 'history-hash' });
+    const oslo = resolveSemanticContext(conversation('Oslo', 'and in winter?'), { strategy: 'history-hash' });
+    const parisOtherSystem = resolveSemanticContext(
+      [{ role: 'system', content: 'Be brief' }, ...conversation('Paris', 'and in winter?').slice(1)],
+      { strategy: 'history-hash' }
+    );
+
+    expect(paris.text).toBe('and in winter?');
+    expect(paris.historyHash).not.toBe(oslo.historyHash);
+    expect(paris.historyHash).toBe(parisOtherSystem.historyHash);
+  });
+
+  it('embeds a window of the last N turns with their roles', () => {
+    expect(resolveSemanticContext(conversation('Paris', 'and in winter?'), { strategy: 'window', turns: 2 })).toEqual({
+      text: 'assistant: Paris is lovely\nuser: and in winter?',
+      contextId: 'window:2',
+    });
+  });
+
+  it('uses a custom embedText function', () => {
+    const embedText = (prompt: any) => prompt.map((m: any) => m.content).join(' | ');
+    expect(resolveSemanticContext([{ role: 'user', content: 'a' }], { strategy: 'custom', embedText, id: 'v2' })).toEqual({
+      text: 'a',
+      contextId: 'custom:v2',
+    });
+  });
+});
+
+describe('AIResponseCache semantic context strategies', () => {
+  const makeCache = (context: any) =>
+    new AIResponseCache({
+      semantic: {
+        enabled: true,
+        provider: new MockEmbeddingProvider({ vectors: { 'and in winter?': [1, 0], 'what about winter?': [1, 0] } }),
+        vectorStore: new MemoryVectorStore(),
+        threshold: 0.99,
+        context,
+      },
+    });
+  const fn = () => jest.fn().mockResolvedValue({ value: 'v', tokenCount: 0, cost: 0 });
+
+  it('with last-message, a follow-up matches across unrelated conversations', async () => {
+    const cache = makeCache(undefined);
+    const call = fn();
+
+    await cache.wrap(call, { provider: 'p', model: 'm', prompt: conversation('Paris', 'and in winter?') });
+    await cache.wrap(call, { provider: 'p', model: 'm', prompt: conversation('Oslo', 'and in winter?') });
+
+    expect(call).toHaveBeenCalledTimes(1);
+  });
+
+  it('with history-hash, a follow-up only matches the same conversation', async () => {
+    const cache = makeCache({ strategy: 'history-hash' });
+    const call = fn();
+
+    await cache.wrap(call, { provider: 'p', model: 'm', prompt: conversation('Paris', 'and in winter?') });
+    await cache.wrap(call, { provider: 'p', model: 'm', prompt: conversation('Oslo', 'and in winter?') });
+    expect(call).toHaveBeenCalledTimes(2);
+
+    await cache.wrap(call, { provider: 'p', model: 'm', prompt: conversation('Paris', 'what about winter?') });
+    expect(call).toHaveBeenCalledTimes(2);
+    expect(cache.getStats().semanticHits).toBe(1);
+  });
+
+  it('never matches vectors stored under a different strategy', async () => {
+    const cache = makeCache(undefined);
+    const call = fn();
+    const prompt = conversation('Paris', 'and in winter?');
+
+    await cache.wrap(call, { provider: 'p', model: 'm', prompt, params: { a: 1 } });
+    await cache.wrap(call, {
+      provider: 'p',
+      model: 'm',
+      prompt: conversation('Paris', 'what about winter?'),
+      params: { a: 1 },
+      // Same embedded text, but embedded under another strategy.
+      semantic: { context: { strategy: 'custom', embedText: () => 'what about winter?' } },
+    });
+
+    expect(call).toHaveBeenCalledTimes(2);
+  });
+
+  it('rejects an invalid window size', () => {
+    expect(() => makeCache({ strategy: 'window', turns: 0 })).toThrow('semantic.context.turns must be a positive integer');
+  });
+});
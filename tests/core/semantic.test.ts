@@ -1,6 +1,7 @@
 import { AIResponseCache } from '../../src/core/cache.js';
 import { MockEmbeddingProvider } from '../../src/embeddings/mock.js';
 import { MemoryVectorStore } from '../../src/vector/memory-vector-store.js';
+import { MockVerifier } from '../../src/verification/mock.js';
 
 describe('AIResponseCache semantic tier', () => {
   it('is off by default — no semantic hit across different prompts', async () => {
@@ -148,7 +149,8 @@ describe('AIResponseCache semantic tier', () => {
     const provider = new MockEmbeddingProvider();
     const cache = new AIResponseCache({
       storage: 'memory',
-      semantic: { enabled: true, provider, threshold: 0.999 },
+      // Scope without the system prompt, so only the embedded text decides.
+      semantic: { enabled: true, provider, threshold: 0.999, scope: ['provider', 'model', 'params'] },
     });
     const fn = jest.fn().mockResolvedValue({ value: 'v', tokenCount: 0, cost: 0 });
 
@@ -168,4 +170,427 @@ describe('AIResponseCache semantic tier', () => {
     expect(fn).toHaveBeenCalledTimes(1);
     expect(cache.getStats().semanticHits).toBe(1);
   });
+
+  it('coalesces a concurrent paraphrase onto the in-flight provider call', async () => {
+    const provider = new MockEmbeddingProvider({ vectors: { first: [1, 0], second: [1, 0] } });
+    const cache = new AIResponseCache({ storage: 'memory', semantic: { enabled: true, provider } });
+    const fn = jest.fn().mockImplementation(
+      () => new Promise((resolve) => setTimeout(() => resolve({ value: 'v', tokenCount: 0, cost: 0 }), 20))
+    );
+
+    const [a, b] = await Promise.all([
+      cache.wrap(fn, { provider: 'p', model: 'm', prompt: 'first' }),
+      cache.wrap(fn, { provider: 'p', model: 'm', prompt: 'second' }),
+    ]);
+
+    expect([a, b]).toEqual(['v', 'v']);
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(cache.getStats().coalescedRequests).toBe(1);
+  });
+
+  describe('scope', () => {
+    const vectors = { 'summarise this': [1, 0], 'give me a summary': [1, 0] };
+    const makeCache = (scope?: Array<'provider' | 'model' | 'params' | 'systemPrompt'>) =>
+      new AIResponseCache({
+        semantic: { enabled: true, provider: new MockEmbeddingProvider({ vectors }), threshold: 0.9, scope },
+      });
+
+    it('does not match across models, params or system prompts by default', async () => {
+      const cache = makeCache();
+      const fn = jest.fn().mockResolvedValue({ value: 'v', tokenCount: 0, cost: 0 });
+      const base = { provider: 'openai', model: 'gpt-4', params: { temperature: 0 } };
+      await cache.wrap(fn, { ...base, prompt: 'summarise this' });
+
+      await cache.wrap(fn, { ...base, model: 'gpt-3.5-turbo', prompt: 'give me a summary' });
+      await cache.wrap(fn, { ...base, params: { temperature: 0, response_format: { type: 'json_object' } }, prompt: 'give me a summary' });
+      await cache.wrap(fn, {
+        ...base,
+        prompt: [
+          { role: 'system', content: 'Answer in French' },
+          { role: 'user', content: 'give me a summary' },
+        ],
+      });
+      expect(fn).toHaveBeenCalledTimes(4);
+
+      await cache.wrap(fn, { ...base, prompt: 'give me a summary' });
+      expect(fn).toHaveBeenCalledTimes(4);
+      expect(cache.getStats().semanticHits).toBe(1);
+    });
+
+    it('treats an Anthropic system param as the system prompt', async () => {
+      const cache = makeCache(['systemPrompt']);
+      const fn = jest.fn().mockResolvedValue({ value: 'v', tokenCount: 0, cost: 0 });
+
+      await cache.wrap(fn, { provider: 'anthropic', model: 'm', prompt: 'summarise this', params: { system: 'Be brief' } });
+      await cache.wrap(fn, { provider: 'anthropic', model: 'm', prompt: 'give me a summary', params: { system: 'Be thorough' } });
+      await cache.wrap(fn, { provider: 'anthropic', model: 'm2', prompt: 'give me a summary', params: { system: 'Be brief' } });
+
+      expect(fn).toHaveBeenCalledTimes(2);
+      expect(cache.getStats().semanticHits).toBe(1);
+    });
+
+    it('can be widened per call', async () => {
+      const cache = makeCache();
+      const fn = jest.fn().mockResolvedValue({ value: 'v', tokenCount: 0, cost: 0 });
+
+      await cache.wrap(fn, { provider: 'openai', model: 'gpt-4', prompt: 'summarise this' });
+      await cache.wrap(fn, {
+        provider: 'openai',
+        model: 'gpt-4o',
+        prompt: 'give me a summary',
+        semantic: { scope: ['provider'] },
+      });
+
+      expect(fn).toHaveBeenCalledTimes(1);
+    });
+
+    it('keeps in-flight paraphrase coalescing inside the scope', async () => {
+      const cache = makeCache();
+      const fn = jest.fn(
+        () => new Promise((resolve) => setTimeout(() => resolve({ value: 'v', tokenCount: 0, cost: 0 }), 20))
+      );
+
+      await Promise.all([
+        cache.wrap(fn, { provider: 'openai', model: 'gpt-4', prompt: 'summarise this' }),
+        cache.wrap(fn, { provider: 'openai', model: 'gpt-3.5-turbo', prompt: 'give me a summary' }),
+      ]);
+
+      expect(fn).toHaveBeenCalledTimes(2);
+      expect(cache.getStats().coalescedRequests).toBe(0);
+    });
+  });
+
+  describe('verification', () => {
+    // cosine('capital of France?', 'capital of Germany?') = 0.9: a hit at a 0.85 bar without a verifier.
+    const vectors = {
+      'capital of France?': [1, 0],
+      'capital of Germany?': [0.9, Math.sqrt(1 - 0.81)],
+      "what's France's capital?": [0.95, Math.sqrt(1 - 0.9025)],
+    };
+    const verifier = new MockVerifier({ scores: { "what's France's capital?\ncapital of France?": 0.9 } });
+    const makeCache = (enabled = true) =>
+      new AIResponseCache({
+        semantic: {
+          enabled: true,
+          provider: new MockEmbeddingProvider({ vectors }),
+          threshold: 0.97,
+          logNearMisses: true,
+          verification: { enabled, verifier, recallThreshold: 0.85 },
+        },
+      });
+    const fn = () => jest.fn().mockResolvedValue({ value: 'Paris', tokenCount: 0, cost: 0.01 });
+
+    it('serves only candidates the verifier accepts', async () => {
+      const cache = makeCache();
+      const call = fn();
+      await cache.wrap(call, { provider: 'p', model: 'm', prompt: 'capital of France?' });
+
+      const { meta } = await cache.wrapWithMeta(call, { provider: 'p', model: 'm', prompt: "what's France's capital?" });
+      expect(meta).toMatchObject({ hitType: 'semantic', verifierScore: 0.9 });
+      expect(call).toHaveBeenCalledTimes(1);
+    });
+
+    it('rejects a high-cosine candidate the verifier scores low, and reports it as a near miss', async () => {
+      const cache = makeCache();
+      const nearMiss = jest.fn();
+      cache.on('nearMiss', nearMiss);
+      const call = fn();
+      await cache.wrap(call, { provider: 'p', model: 'm', prompt: 'capital of France?' });
+
+      await cache.wrap(call, { provider: 'p', model: 'm', prompt: 'capital of Germany?' });
+      expect(call).toHaveBeenCalledTimes(2);
+      expect(nearMiss).toHaveBeenCalledWith(expect.objectContaining({ score: expect.closeTo(0.9), verifierScore: 0 }));
+      expect(cache.getStats()).toMatchObject({ verifierRejections: 1, nearMisses: 1, semanticHits: 0 });
+    });
+
+    it('uses the recall threshold instead of the cosine threshold', async () => {
+      const cache = makeCache();
+      const call = fn();
+      await cache.wrap(call, { provider: 'p', model: 'm', prompt: 'capital of France?' });
+
+      // 0.95 is under the 0.97 cosine threshold, but above the recall threshold.
+      await cache.wrap(call, { provider: 'p', model: 'm', prompt: "what's France's capital?" });
+      expect(call).toHaveBeenCalledTimes(1);
+
+      // Without verification, the cosine threshold applies again.
+      await cache.wrap(call, {
+        provider: 'p',
+        model: 'm',
+        prompt: "what's France's capital?",
+        cacheKey: 'other',
+        semantic: { verification: { enabled: false } },
+      });
+      expect(call).toHaveBeenCalledTimes(2);
+    });
+
+    it('falls through to a miss when the verifier fails', async () => {
+      const cache = new AIResponseCache({
+        logger: 'silent',
+        semantic: {
+          enabled: true,
+          provider: new MockEmbeddingProvider({ vectors }),
+          verification: { enabled: true, verifier: { id: 'broken', score: () => Promise.reject(new Error('model')) } },
+        },
+      });
+      const errors = jest.fn();
+      cache.on('error', errors);
+      const call = fn();
+      await cache.wrap(call, { provider: 'p', model: 'm', prompt: 'capital of France?' });
+
+      await expect(cache.wrap(call, { provider: 'p', model: 'm', prompt: "what's France's capital?" })).resolves.toBe('Paris');
+      expect(call).toHaveBeenCalledTimes(2);
+      expect(errors).toHaveBeenCalledWith(expect.objectContaining({ operation: 'semantic' }));
+    });
+
+    it('never serves a vector stored without its prompt text', async () => {
+      const vectorStore = new MemoryVectorStore();
+      const cache = new AIResponseCache({
+        semantic: {
+          enabled: true,
+          provider: new MockEmbeddingProvider({ vectors }),
+          vectorStore,
+          verification: { enabled: true, verifier: new MockVerifier({ defaultScore: 1 }) },
+        },
+      });
+      const call = fn();
+      await cache.wrap(call, { provider: 'p', model: 'm', prompt: 'capital of France?', cacheKey: 'k' });
+      const [{ meta }] = await vectorStore.search([1, 0], 1);
+      expect(meta?.text).toBe('capital of France?');
+      await vectorStore.add('k', [1, 0], { ...meta, text: undefined });
+
+      await cache.wrap(call, { provider: 'p', model: 'm', prompt: "what's France's capital?" });
+      expect(call).toHaveBeenCalledTimes(2);
+    });
+
+    it('verifies an in-flight paraphrase before joining it', async () => {
+      const cache = makeCache();
+      const call = jest.fn(
+        () => new Promise((resolve) => setTimeout(() => resolve({ value: 'v', tokenCount: 0, cost: 0 }), 20))
+      );
+
+      const leaders = [
+        cache.wrap(call, { provider: 'p', model: 'm', prompt: 'capital of France?' }),
+        cache.wrap(call, { provider: 'p', model: 'm', prompt: 'capital of Germany?' }),
+      ];
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      // Germany's call is the closer embedding, but only France's passes verification.
+      const follower = cache.wrapWithMeta(call, { provider: 'p', model: 'm', prompt: "what's France's capital?" });
+      await Promise.all(leaders);
+
+      expect((await follower).meta).toMatchObject({ hitType: 'coalesced', matchedKey: expect.stringContaining('p:m') });
+      expect(call).toHaveBeenCalledTimes(2);
+      expect(cache.getStats().coalescedRequests).toBe(1);
+    });
+
+    it('joins the in-flight paraphrase the verifier scores best, not the first it accepts', async () => {
+      const cache = new AIResponseCache({
+        semantic: {
+          enabled: true,
+          provider: new MockEmbeddingProvider({ vectors }),
+          threshold: 0.97,
+          verification: {
+            enabled: true,
+            recallThreshold: 0.85,
+            minScore: 0.5,
+            verifier: new MockVerifier({
+              scores: {
+                "what's France's capital?\ncapital of Germany?": 0.6,
+                "what's France's capital?\ncapital of France?": 0.9,
+              },
+            }),
+          },
+        },
+      });
+      const answer = (value: string) =>
+        jest.fn(() => new Promise((resolve) => setTimeout(() => resolve({ value, tokenCount: 0, cost: 0 }), 20)));
+
+      const leaders = [
+        cache.wrap(answer('Paris'), { provider: 'p', model: 'm', prompt: 'capital of France?', cacheKey: 'france' }),
+        cache.wrap(answer('Berlin'), { provider: 'p', model: 'm', prompt: 'capital of Germany?', cacheKey: 'germany' }),
+      ];
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      // Germany's call is the closer embedding and passes too, but France's scores higher.
+      const follower = cache.wrapWithMeta(answer('unused'), { provider: 'p', model: 'm', prompt: "what's France's capital?" });
+      await Promise.all(leaders);
+
+      expect(await follower).toEqual({ value: 'Paris', meta: expect.objectContaining({ hitType: 'coalesced', matchedKey: 'france' }) });
+    });
+  });
+
+  describe('lexical guard', () => {
+    const vectors = { 'Top 5 cities in Spain': [1, 0], 'Top 10 cities in Spain': [1, 0], 'top 5 Spanish cities': [1, 0] };
+    const makeCache = (guard?: { enabled: boolean; checks?: Array<'numbers' | 'entities'> }) =>
+      new AIResponseCache({
+        semantic: { enabled: true, provider: new MockEmbeddingProvider({ vectors }), logNearMisses: true, guard },
+      });
+    const fn = () => jest.fn().mockResolvedValue({ value: 'v', tokenCount: 0, cost: 0 });
+
+    it('rejects an identical-vector candidate whose numbers differ, and says why', async () => {
+      const cache = makeCache({ enabled: true });
+      const nearMiss = jest.fn();
+      cache.on('nearMiss', nearMiss);
+      const call = fn();
+      await cache.wrap(call, { provider: 'p', model: 'm', prompt: 'Top 5 cities in Spain' });
+
+      await cache.wrap(call, { provider: 'p', model: 'm', prompt: 'Top 10 cities in Spain' });
+      expect(call).toHaveBeenCalledTimes(2);
+      expect(nearMiss).toHaveBeenCalledWith(
+        expect.objectContaining({ score: 1, reason: 'rejected by guard (numbers differ: [10] vs [5])' })
+      );
+      expect(cache.getStats()).toMatchObject({ guardRejections: 1, nearMisses: 1 });
+    });
+
+    it('serves candidates that pass, falling back past a rejected one', async () => {
+      const cache = makeCache({ enabled: true, checks: ['numbers'] });
+      const call = jest.fn().mockResolvedValueOnce({ value: 'ten' }).mockResolvedValueOnce({ value: 'five' });
+      await cache.wrap(call, { provider: 'p', model: 'm', prompt: 'Top 10 cities in Spain', mode: 'write-only' });
+      await cache.wrap(call, { provider: 'p', model: 'm', prompt: 'Top 5 cities in Spain', mode: 'write-only' });
+
+      expect(await cache.wrap(call, { provider: 'p', model: 'm', prompt: 'top 5 Spanish cities' })).toBe('five');
+      expect(call).toHaveBeenCalledTimes(2);
+    });
+
+    it('can be turned on for one route', async () => {
+      const cache = makeCache();
+      const call = fn();
+      await cache.wrap(call, { provider: 'p', model: 'm', prompt: 'Top 5 cities in Spain' });
+
+      await cache.wrap(call, { provider: 'p', model: 'm', prompt: 'Top 10 cities in Spain', semantic: { guard: { enabled: true } } });
+      expect(call).toHaveBeenCalledTimes(2);
+      await cache.wrap(call, { provider: 'p', model: 'm', prompt: 'Top 10 cities in Spain', cacheKey: 'unguarded' });
+      expect(call).toHaveBeenCalledTimes(2);
+    });
+
+    it('keeps a guarded call off an in-flight call it would reject', async () => {
+      const cache = makeCache({ enabled: true });
+      const call = jest.fn(
+        () => new Promise((resolve) => setTimeout(() => resolve({ value: 'v', tokenCount: 0, cost: 0 }), 20))
+      );
+
+      await Promise.all([
+        cache.wrap(call, { provider: 'p', model: 'm', prompt: 'Top 5 cities in Spain' }),
+        cache.wrap(call, { provider: 'p', model: 'm', prompt: 'Top 10 cities in Spain' }),
+      ]);
+      expect(call).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('vector lifecycle', () => {
+    const fn = () => jest.fn().mockResolvedValue({ value: 'v', tokenCount: 0, cost: 0 });
+    const makeCache = (config: { maxSize?: number; ttl?: number } = {}) => {
+      const vectorStore = new MemoryVectorStore();
+      const provider = new MockEmbeddingProvider({ vectors: { a: [1, 0], b: [0, 1], c: [1, 0] } });
+      const cache = new AIResponseCache({ ...config, semantic: { enabled: true, provider, vectorStore, sweepIntervalMs: 0 } });
+      return { cache, vectorStore };
+    };
+
+    afterEach(() => jest.restoreAllMocks());
+
+    it('drops the vector when an entry is deleted', async () => {
+      const { cache, vectorStore } = makeCache();
+      await cache.wrap(fn(), { provider: 'p', model: 'm', prompt: 'a', cacheKey: 'k:a' });
+      await cache.wrap(fn(), { provider: 'p', model: 'm', prompt: 'b', cacheKey: 'k:b' });
+      expect(await vectorStore.size()).toBe(2);
+
+      await cache.delete('k:a');
+      expect(await vectorStore.ids()).toEqual(['k:b']);
+      expect(await cache.deleteByPattern('k:*')).toBe(1);
+      expect(await vectorStore.size()).toBe(0);
+    });
+
+    it('drops the vector of an evicted entry', async () => {
+      const { cache, vectorStore } = makeCache({ maxSize: 1 });
+      await cache.wrap(fn(), { provider: 'p', model: 'm', prompt: 'a', cacheKey: 'k:a' });
+      await cache.wrap(fn(), { provider: 'p', model: 'm', prompt: 'b', cacheKey: 'k:b' });
+
+      expect(await vectorStore.ids()).toEqual(['k:b']);
+    });
+
+    it('drops the vector of an expired entry', async () => {
+      const { cache, vectorStore } = makeCache({ ttl: 1 });
+      const now = Date.now();
+      await cache.wrap(fn(), { provider: 'p', model: 'm', prompt: 'a', cacheKey: 'k:a' });
+
+      jest.spyOn(Date, 'now').mockReturnValue(now + 5000);
+      expect(await cache.has('k:a')).toBe(false);
+      await new Promise((resolve) => setImmediate(resolve));
+      expect(await vectorStore.size()).toBe(0);
+    });
+
+    it('falls back to the next live candidate when the best match is gone', async () => {
+      const vectorStore = new MemoryVectorStore();
+      const provider = new MockEmbeddingProvider({ vectors: { a: [1, 0], b: [0.98, 0.2], c: [1, 0] } });
+      const cache = new AIResponseCache({ semantic: { enabled: true, provider, vectorStore, threshold: 0.9 } });
+      const call = jest.fn().mockResolvedValueOnce({ value: 'A' }).mockResolvedValueOnce({ value: 'B' });
+      await cache.wrap(call, { provider: 'p', model: 'm', prompt: 'a', cacheKey: 'k:a', mode: 'write-only' });
+      await cache.wrap(call, { provider: 'p', model: 'm', prompt: 'b', cacheKey: 'k:b', mode: 'write-only' });
+
+      // The best match's entry is gone but its vector is still indexed.
+      const [{ meta: scope }] = await vectorStore.search([1, 0], 1);
+      await cache.delete('k:a');
+      await vectorStore.add('k:a', [1, 0], scope);
+
+      const { value, meta } = await cache.wrapWithMeta(call, { provider: 'p', model: 'm', prompt: 'c' });
+      expect(value).toBe('B');
+      expect(meta).toMatchObject({ hitType: 'semantic', matchedKey: 'k:b' });
+      expect(call).toHaveBeenCalledTimes(2);
+    });
+
+    it('sweeps vectors whose entry no longer exists', async () => {
+      const { cache, vectorStore } = makeCache();
+      await cache.wrap(fn(), { provider: 'p', model: 'm', prompt: 'a', cacheKey: 'k:a' });
+      await vectorStore.add('k:orphan', [0, 1]);
+
+      expect(await cache.sweepVectors()).toBe(1);
+      expect(await vectorStore.ids()).toEqual(['k:a']);
+    });
+
+    it('keeps a vector whose key is written while the sweep runs', async () => {
+      const { cache, vectorStore } = makeCache();
+      await vectorStore.add('k:rewritten', [1, 0]);
+      await vectorStore.add('k:orphan', [0, 1]);
+      const storage = (cache as any).storage;
+      const checks = new Map<string, number>();
+      jest.spyOn(storage, 'has').mockImplementation(async (key: any) => {
+        checks.set(key, (checks.get(key) ?? 0) + 1);
+        // Missing when first listed, written by the time its vector would go.
+        return key === 'k:rewritten' && checks.get(key)! > 1;
+      });
+
+      expect(await cache.sweepVectors()).toBe(1);
+      expect(await vectorStore.ids()).toEqual(['k:rewritten']);
+    });
+
+    it('deletes nothing when the storage reports an error during a sweep', async () => {
+      const { cache, vectorStore } = makeCache();
+      await vectorStore.add('k:orphan', [0, 1]);
+      const storage = (cache as any).storage;
+      jest.spyOn(storage, 'has').mockImplementation(async () => {
+        storage.emit('error', { operation: 'has', error: new Error('down') });
+        return false;
+      });
+      cache.on('error', () => {});
+
+      expect(await cache.sweepVectors()).toBe(0);
+      expect(await vectorStore.size()).toBe(1);
+    });
+
+    it('sweeps on an unref\'d interval until disconnect', async () => {
+      jest.useFakeTimers();
+      try {
+        const sweep = jest.spyOn(AIResponseCache.prototype, 'sweepVectors').mockResolvedValue(0);
+        const cache = new AIResponseCache({
+          semantic: { enabled: true, provider: new MockEmbeddingProvider(), sweepIntervalMs: 1000 },
+        });
+        jest.advanceTimersByTime(2500);
+        expect(sweep).toHaveBeenCalledTimes(2);
+
+        await cache.disconnect();
+        jest.advanceTimersByTime(5000);
+        expect(sweep).toHaveBeenCalledTimes(2);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+  });
 });
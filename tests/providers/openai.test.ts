@@ -108,4 +108,39 @@ describe('OpenAICache', () => {
     const stats = openaiCache.getStats();
     expect(stats.cacheHits).toBe(0);
   });
+
+  it('should pass an abort signal through to the OpenAI request', async () => {
+    (mockOpenAI.chat.completions.create as jest.Mock).mockResolvedValue({ choices: [] });
+    const params = {
+      model: 'gpt-3.5-turbo',
+      messages: [{ role: 'user', content: 'Cancellable' }],
+    };
+
+    await openaiCache.chatCompletion(params, { signal: new AbortController().signal, timeoutMs: 5000 });
+
+    expect(mockOpenAI.chat.completions.create).toHaveBeenCalledWith(params, {
+      signal: expect.any(AbortSignal),
+    });
+  });
+
+  it('should report provenance from chatCompletionWithMeta', async () => {
+    const mockResponse = {
+      choices: [{ message: { content: 'Hello from OpenAI!' } }],
+      usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+    };
+    (mockOpenAI.chat.completions.create as jest.Mock).mockResolvedValue(mockResponse);
+    const params = {
+      model: 'gpt-3.5-turbo',
+      messages: [{ role: 'user', content: 'Badge me' }],
+    };
+
+    const first = await openaiCache.chatCompletionWithMeta(params);
+    const second = await openaiCache.chatCompletionWithMeta(params);
+
+    expect(first.value).toEqual(mockResponse);
+    expect(first.meta.hitType).toBe('miss');
+    expect(second.value).toEqual(mockResponse);
+    expect(second.meta).toMatchObject({ hitType: 'exact', cached: true, key: first.meta.key });
+    expect(second.meta.cost).toBeGreaterThan(0);
+  });
 });
@@ -0,0 +1,161 @@
+import { AIResponseCache } from '../../src/core/cache.js';
+import { MockEmbeddingProvider } from '../../src/embeddings/mock.js';
+import { EmbeddingComparator, ExactTextComparator, ResponseComparator, responseText } from '../../src/shadow/comparator.js';
+import { ShadowRecorder } from '../../src/shadow/report.js';
+import { ShadowConfig } from '../../src/core/types.js';
+
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('responseText', () => {
+  it('reads the text out of each provider response shape', () => {
+    expect(responseText('plain')).toBe('plain');
+    expect(responseText({ choices: [{ message: { content: 'chat' } }, { text: 'completion' }] })).toBe('chat\ncompletion');
+    expect(responseText({ content: [{ type: 'text', text: 'claude' }, { type: 'tool_use', id: 't' }] })).toBe('claude');
+    expect(responseText({ response: { candidates: [{ content: { parts: [{ text: 'gemini' }] } }] } })).toBe('gemini');
+    expect(responseText({ answer: 42 })).toBe('{"answer":42}');
+  });
+});
+
+describe('comparators', () => {
+  it('ExactTextComparator ignores whitespace only', async () => {
+    const comparator = new ExactTextComparator();
+    expect(await comparator.agrees(' Paris\n', 'Paris')).toBe(true);
+    expect(await comparator.agrees('Paris', 'paris')).toBe(false);
+  });
+
+  it('EmbeddingComparator agrees above minSimilarity', async () => {
+    const provider = new MockEmbeddingProvider({
+      vectors: { 'It is Paris.': [1, 0], 'Paris.': [0.95, Math.sqrt(1 - 0.95 ** 2)], 'Berlin.': [0, 1] },
+    });
+    const comparator = new EmbeddingComparator({ provider, minSimilarity: 0.9 });
+    expect(comparator.id).toBe(`embedding:${provider.id}`);
+    expect(await comparator.agrees('It is Paris.', 'Paris.')).toBe(true);
+    expect(await comparator.agrees('It is Paris.', 'Berlin.')).toBe(false);
+  });
+});
+
+describe('ShadowRecorder', () => {
+  it('projects hit and disagreement rates per threshold', () => {
+    const recorder = new ShadowRecorder([0.95, 0.9]);
+    recorder.recordLookup({ score: 0.97, agreed: true });
+    recorder.recordLookup({ score: 0.92, agreed: false });
+    recorder.recordLookup();
+    recorder.recordLookup();
+    recorder.recordSample(false);
+
+    const report = recorder.report('c');
+    expect(report.lookups).toBe(4);
+    expect(report.thresholds).toEqual([
+      { threshold: 0.9, hits: 2, hitRate: 0.5, disagreements: 1, disagreementRate: 0.5 },
+      { threshold: 0.95, hits: 1, hitRate: 0.25, disagreements: 0, disagreementRate: 0 },
+    ]);
+    expect(report.sampled).toEqual({ checked: 1, disagreements: 1, disagreementRate: 1 });
+
+    recorder.reset();
+    expect(recorder.report('c').lookups).toBe(0);
+  });
+});
+
+describe('AIResponseCache shadow mode', () => {
+  const vectors = { 'capital of France': [1, 0], 'France capital': [0.92, Math.sqrt(1 - 0.92 ** 2)] };
+  const call = { provider: 'p', model: 'm' };
+  const makeCache = (shadow: Omit<ShadowConfig, 'enabled'> = {}) =>
+    new AIResponseCache({
+      logger: 'silent',
+      semantic: {
+        enabled: true,
+        provider: new MockEmbeddingProvider({ vectors }),
+        threshold: 0.9,
+        shadow: { enabled: true, thresholds: [0.85, 0.9, 0.95], ...shadow },
+      },
+    });
+  const answer = (value: string) => jest.fn().mockResolvedValue({ value, tokenCount: 0, cost: 0 });
+
+  it('calls the provider instead of serving, and reports the would-be hit', async () => {
+    const cache = makeCache();
+    const events = jest.fn();
+    cache.on('shadow', events);
+    await cache.wrap(answer('Paris'), { ...call, prompt: 'capital of France' });
+
+    const provider = answer('Paris');
+    const { meta } = await cache.wrapWithMeta(provider, { ...call, prompt: 'France capital' });
+    await flush();
+
+    expect(meta.hitType).toBe('miss');
+    expect(provider).toHaveBeenCalledTimes(1);
+    expect(cache.getStats().semanticHits).toBe(0);
+    expect(events).toHaveBeenCalledWith(
+      expect.objectContaining({ key: meta.key, score: expect.closeTo(0.92, 5), agreed: true, mode: 'shadow' })
+    );
+
+    const report = cache.getShadowReport()!;
+    expect(report.comparator).toBe('exact-text');
+    // The first call had nothing to match, but still counts as a lookup.
+    expect(report.lookups).toBe(2);
+    expect(report.thresholds.map((row) => row.hits)).toEqual([1, 1, 0]);
+    expect(report.thresholds[0].hitRate).toBe(0.5);
+  });
+
+  it('counts disagreements from a custom comparator', async () => {
+    const comparator: ResponseComparator = { id: 'judge', agrees: jest.fn().mockResolvedValue(false) };
+    const cache = makeCache({ comparator });
+    await cache.wrap(answer('Paris'), { ...call, prompt: 'capital of France' });
+    await cache.wrap(answer('Paris, France'), { ...call, prompt: 'France capital' });
+    await flush();
+
+    expect(comparator.agrees).toHaveBeenCalledWith('Paris, France', 'Paris', 'France capital');
+    const row = cache.getShadowReport()!.thresholds[1];
+    expect(row).toEqual(expect.objectContaining({ threshold: 0.9, hits: 1, disagreements: 1, disagreementRate: 1 }));
+
+    cache.resetShadowReport();
+    expect(cache.getShadowReport()!.lookups).toBe(0);
+  });
+
+  it('reports a failing comparator as a shadow error', async () => {
+    const comparator: ResponseComparator = { id: 'broken', agrees: () => Promise.reject(new Error('judge down')) };
+    const cache = makeCache({ comparator });
+    const errors = jest.fn();
+    cache.on('error', errors);
+    await cache.wrap(answer('Paris'), { ...call, prompt: 'capital of France' });
+
+    await expect(cache.wrap(answer('Paris'), { ...call, prompt: 'France capital' })).resolves.toBe('Paris');
+    await flush();
+    expect(errors).toHaveBeenCalledWith(expect.objectContaining({ operation: 'shadow' }));
+  });
+
+  it('sample mode serves the hit and checks it against a fresh call', async () => {
+    const cache = makeCache({ mode: 'sample', sampleRate: 1 });
+    const events = jest.fn();
+    cache.on('shadow', events);
+    await cache.wrap(answer('Paris'), { ...call, prompt: 'capital of France' });
+
+    const fresh = answer('Lyon');
+    const { value, meta } = await cache.wrapWithMeta(fresh, { ...call, prompt: 'France capital' });
+    await flush();
+
+    expect(meta.hitType).toBe('semantic');
+    expect(value).toBe('Paris');
+    expect(fresh).toHaveBeenCalledTimes(1);
+    expect(events).toHaveBeenCalledWith(expect.objectContaining({ agreed: false, mode: 'sample' }));
+    expect(cache.getShadowReport()!.sampled).toEqual({ checked: 1, disagreements: 1, disagreementRate: 1 });
+    // The sampled response is compared, not cached.
+    expect(await cache.wrap(answer('Nice'), { ...call, prompt: 'France capital' })).toBe('Paris');
+  });
+
+  it('sample mode leaves hits alone at sampleRate 0', async () => {
+    const cache = makeCache({ mode: 'sample', sampleRate: 0 });
+    await cache.wrap(answer('Paris'), { ...call, prompt: 'capital of France' });
+    const fresh = answer('Paris');
+    await cache.wrap(fresh, { ...call, prompt: 'France capital' });
+    await flush();
+
+    expect(fresh).not.toHaveBeenCalled();
+    expect(cache.getShadowReport()!.sampled.checked).toBe(0);
+  });
+
+  it('validates its config and is off by default', () => {
+    expect(() => makeCache({ sampleRate: 2 })).toThrow('semantic.shadow.sampleRate');
+    expect(() => makeCache({ thresholds: [] })).toThrow('semantic.shadow.thresholds');
+    expect(new AIResponseCache({ logger: 'silent' }).getShadowReport()).toBeNull();
+  });
+});
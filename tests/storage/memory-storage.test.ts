@@ -49,6 +49,46 @@ describe('MemoryStorage', () => {
     expect(retrieved).toBeNull();
   });
 
+  it('should peek at an expired entry without removing it', async () => {
+    const entry: CacheEntry = {
+      key: 'test-key',
+      value: 'test-value',
+      timestamp: Date.now() - 7200 * 1000,
+      ttl: 3600,
+      provider: 'test',
+      model: 'test-model',
+      tokenCount: 100,
+      cost: 0.01,
+    };
+    const expired = jest.fn();
+    storage.on('expire', expired);
+
+    await storage.set('test-key', entry);
+    expect(await storage.peek('test-key')).toEqual(entry);
+    expect(await storage.size()).toBe(1);
+    expect(expired).not.toHaveBeenCalled();
+  });
+
+  it('should keep expired entries for their stale-while-revalidate window', async () => {
+    const entry: CacheEntry = {
+      key: 'test-key',
+      value: 'test-value',
+      timestamp: Date.now() - 3700 * 1000, // 100s past the 1 hour TTL
+      ttl: 3600,
+      provider: 'test',
+      model: 'test-model',
+      tokenCount: 100,
+      cost: 0.01,
+      staleWhileRevalidate: 300,
+    };
+
+    await storage.set('test-key', entry);
+    expect(await storage.get('test-key')).toEqual(entry);
+
+    await storage.set('test-key', { ...entry, timestamp: Date.now() - 4000 * 1000 });
+    expect(await storage.get('test-key')).toBeNull();
+  });
+
   it('should delete entries', async () => {
     const entry: CacheEntry = {
       key: 'test-key',
@@ -169,4 +209,32 @@ describe('MemoryStorage', () => {
     const keys = await storage.keys();
     expect(keys.sort()).toEqual(['key1', 'key2']);
   });
-});
\ No newline at end of file
+
+  it('should emit set, delete, evict and expire events', async () => {
+    const entry = (key: string, timestamp: number, ttl = 3600): CacheEntry => ({
+      key,
+      value: key,
+      timestamp,
+      ttl,
+      provider: 'test',
+      model: 'test-model',
+      tokenCount: 0,
+      cost: 0.01,
+    });
+    const events: string[] = [];
+    for (const event of ['set', 'delete', 'evict', 'expire'] as const) {
+      storage.on(event, (payload) => events.push(`${event}:${payload.key}`));
+    }
+
+    const now = Date.now();
+    await storage.set('a', entry('a', now - 3000));
+    await storage.set('b', entry('b', now - 2000, 1));
+    await storage.set('c', entry('c', now - 1000));
+    await storage.set('d', entry('d', now)); // evicts the oldest, 'a'
+    await storage.get('b'); // expired
+    await storage.delete('c');
+    await storage.delete('missing');
+
+    expect(events).toEqual(['set:a', 'set:b', 'set:c', 'set:d', 'evict:a', 'expire:b', 'delete:c']);
+  });
+});
@@ -0,0 +1,196 @@
+import { PostgresStorage } from '../../src/storage/postgres-storage.js';
+import { PgQueryable, migratePostgres, quoteTable } from '../../src/storage/postgres-schema.js';
+import { AIResponseCache } from '../../src/core/cache.js';
+import { CacheEntry } from '../../src/core/types.js';
+import { silentLogger } from '../../src/utils/logger.js';
+
+type Row = { key: string; entry: CacheEntry; provider: string; model: string; expires_at: number };
+
+/** Answers the statements PostgresStorage sends from an in-memory table, the way node-postgres shapes results. */
+function fakePool() {
+  const table = new Map<string, Row>();
+  const result = (rows: any[]) => ({ rows, rowCount: rows.length });
+  const query = jest.fn(async (text: string, params: any[] = []) => {
+    const sql = text.replace(/\s+/g, ' ').trim();
+    if (sql.startsWith('INSERT INTO')) {
+      const [key, entry, provider, model, expiresAt] = params;
+      table.set(key, { key, entry: JSON.parse(entry), provider, model, expires_at: expiresAt });
+      return result([]);
+    }
+    if (sql.startsWith('SELECT entry')) return result(table.has(params[0]) ? [{ entry: table.get(params[0])!.entry }] : []);
+    if (sql.startsWith('SELECT 1')) {
+      const row = table.get(params[0]);
+      return result(row && row.expires_at >= params[1] ? [{}] : []);
+    }
+    const live = () => [...table.values()].filter((row) => row.expires_at >= params[0]);
+    if (sql.startsWith('SELECT count')) return result([{ count: live().length }]);
+    if (sql.startsWith('SELECT key')) return result(live().map(({ key }) => ({ key })));
+    if (sql.includes('WHERE key = $1 AND expires_at < $2')) {
+      if ((table.get(params[0])?.expires_at ?? Infinity) < params[1]) table.delete(params[0]);
+      return result([]);
+    }
+    if (sql.includes('WHERE key = $1 RETURNING')) {
+      const row = table.get(params[0]);
+      table.delete(params[0]);
+      return result(row ? [{ provider: row.provider, model: row.model }] : []);
+    }
+    if (sql.includes('WHERE expires_at < $1 RETURNING')) {
+      const expired = [...table.values()].filter((row) => row.expires_at < params[0]);
+      expired.forEach((row) => table.delete(row.key));
+      return result(expired.map(({ key, provider, model }) => ({ key, provider, model })));
+    }
+    if (/^DELETE FROM \S+$/.test(sql)) {
+      table.clear();
+      return result([]);
+    }
+    throw new Error(`unexpected query: ${sql}`);
+  });
+  return { query, table };
+}
+
+const makeEntry = (overrides: Partial<CacheEntry> = {}): CacheEntry => ({
+  key: 'k',
+  value: 'v',
+  timestamp: Date.now(),
+  ttl: 3600,
+  provider: 'openai',
+  model: 'gpt-4',
+  tokenCount: 10,
+  cost: 0.01,
+  ...overrides,
+});
+
+describe('PostgresStorage', () => {
+  let pool: ReturnType<typeof fakePool>;
+  let storage: PostgresStorage;
+
+  beforeEach(() => {
+    pool = fakePool();
+    storage = new PostgresStorage({ pool, purgeIntervalMs: 0, logger: silentLogger });
+  });
+
+  it('upserts entries with provider, model and their expiry in columns', async () => {
+    const entry = makeEntry({ staleWhileRevalidate: 60 });
+    const onSet = jest.fn();
+    storage.on('set', onSet);
+
+    await storage.set('k', entry);
+    await storage.set('k', { ...entry, value: 'v2' });
+
+    expect(pool.table.get('k')).toEqual(
+      expect.objectContaining({ provider: 'openai', model: 'gpt-4', expires_at: entry.timestamp + 3660 * 1000 })
+    );
+    expect(await storage.get('k')).toEqual({ ...entry, value: 'v2' });
+    expect(onSet).toHaveBeenCalledWith(expect.objectContaining({ key: 'k', provider: 'openai', kind: 'value' }));
+    expect(pool.query.mock.calls[0][0]).toContain('"ai_cache_entries"');
+  });
+
+  it('drops an entry read past its lifetime, but peek leaves it', async () => {
+    const onExpire = jest.fn();
+    storage.on('expire', onExpire);
+    await storage.set('old', makeEntry({ timestamp: Date.now() - 7200 * 1000 }));
+
+    expect(await storage.peek('old')).not.toBeNull();
+    expect(await storage.has('old')).toBe(false);
+    expect(await storage.get('old')).toBeNull();
+    expect(pool.table.has('old')).toBe(false);
+    expect(onExpire).toHaveBeenCalledWith({ key: 'old', provider: 'openai', model: 'gpt-4' });
+    expect(await storage.peek('old')).toBeNull();
+  });
+
+  it('counts and lists only live entries, deletes and clears', async () => {
+    await storage.set('a', makeEntry());
+    await storage.set('b', makeEntry());
+    await storage.set('old', makeEntry({ timestamp: 0 }));
+    const onDelete = jest.fn();
+    storage.on('delete', onDelete);
+
+    expect(await storage.size()).toBe(2);
+    expect(await storage.keys()).toEqual(['a', 'b']);
+    expect(await storage.has('a')).toBe(true);
+    expect(await storage.delete('a')).toBe(true);
+    expect(await storage.delete('a')).toBe(false);
+    expect(onDelete).toHaveBeenCalledTimes(1);
+    expect(onDelete).toHaveBeenCalledWith({ key: 'a', provider: 'openai', model: 'gpt-4' });
+
+    await storage.clear();
+    expect(pool.table.size).toBe(0);
+  });
+
+  it('purges expired rows on an interval and reports each as expired', async () => {
+    jest.useFakeTimers();
+    try {
+      storage = new PostgresStorage({ pool, purgeIntervalMs: 1000, logger: silentLogger });
+      const onExpire = jest.fn();
+      storage.on('expire', onExpire);
+      pool.table.set('old', { key: 'old', entry: makeEntry(), provider: 'p', model: 'm', expires_at: 0 });
+      pool.table.set('live', { key: 'live', entry: makeEntry(), provider: 'p', model: 'm', expires_at: Date.now() + 1e6 });
+
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(onExpire).toHaveBeenCalledWith({ key: 'old', provider: 'p', model: 'm' });
+      expect([...pool.table.keys()]).toEqual(['live']);
+
+      await storage.disconnect();
+      pool.table.set('old', { key: 'old', entry: makeEntry(), provider: 'p', model: 'm', expires_at: 0 });
+      await jest.advanceTimersByTimeAsync(5000);
+      expect(pool.table.has('old')).toBe(true);
+      expect(await storage.purgeExpired()).toBe(1);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('swallows read failures as error events and rethrows write failures', async () => {
+    const failing: PgQueryable = { query: jest.fn().mockRejectedValue(new Error('connection terminated')) };
+    storage = new PostgresStorage({ pool: failing, purgeIntervalMs: 0, logger: silentLogger });
+    const onError = jest.fn();
+    storage.on('error', onError);
+
+    expect(await storage.get('k')).toBeNull();
+    expect(await storage.has('k')).toBe(false);
+    expect(await storage.size()).toBe(0);
+    expect(await storage.keys()).toEqual([]);
+    expect(await storage.delete('k')).toBe(false);
+    expect(await storage.purgeExpired()).toBe(0);
+    expect(onError.mock.calls.map(([payload]) => payload.operation)).toEqual(['get', 'has', 'size', 'keys', 'delete', 'purge']);
+    await expect(storage.set('k', makeEntry())).rejects.toThrow('connection terminated');
+    await expect(storage.clear()).rejects.toThrow('connection terminated');
+    await expect(storage.peek('k')).rejects.toThrow('connection terminated');
+  });
+
+  it('serves as the storage of an AIResponseCache', async () => {
+    const cache = new AIResponseCache({ storage, logger: 'silent' });
+    const provider = jest.fn().mockResolvedValue({ value: 'Paris', tokenCount: 5, cost: 0.01 });
+
+    await cache.wrap(provider, { provider: 'openai', model: 'gpt-4', prompt: 'capital of France' });
+    expect(await cache.wrap(provider, { provider: 'openai', model: 'gpt-4', prompt: 'capital of France' })).toBe('Paris');
+    expect(provider).toHaveBeenCalledTimes(1);
+    expect(pool.table.size).toBe(1);
+    await cache.disconnect();
+  });
+});
+
+describe('migratePostgres', () => {
+  it('creates the entries table and, given dimensions, the pgvector table and HNSW index', async () => {
+    const pool = { query: jest.fn().mockResolvedValue({ rows: [], rowCount: 0 }) };
+
+    await migratePostgres(pool, { entriesTable: 'cache.entries', dimensions: 384, m: 24 });
+
+    const statements = pool.query.mock.calls.map(([text]) => text.replace(/\s+/g, ' '));
+    expect(statements[0]).toContain('CREATE TABLE IF NOT EXISTS "cache"."entries" ( key TEXT PRIMARY KEY');
+    expect(statements).toContain('CREATE INDEX IF NOT EXISTS "entries_provider_model_idx" ON "cache"."entries" (provider, model)');
+    expect(statements).toContain('CREATE EXTENSION IF NOT EXISTS vector');
+    expect(statements.find((text) => text.includes('"ai_cache_vectors" ('))).toContain('embedding vector(384) NOT NULL');
+    expect(statements.find((text) => text.includes('USING hnsw'))).toContain('WITH (m = 24, ef_construction = 64)');
+  });
+
+  it('skips the vector table without dimensions and rejects unsafe names', async () => {
+    const pool = { query: jest.fn().mockResolvedValue({ rows: [], rowCount: 0 }) };
+    await migratePostgres(pool);
+    expect(pool.query).toHaveBeenCalledTimes(3);
+
+    await expect(migratePostgres(pool, { dimensions: 0 })).rejects.toThrow('dimensions must be a positive integer');
+    expect(() => quoteTable('entries; DROP TABLE users')).toThrow('Invalid table name');
+    expect(() => new PostgresStorage({ pool, table: 'a-b' })).toThrow('Invalid table name');
+  });
+});
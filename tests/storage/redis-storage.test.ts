@@ -5,7 +5,9 @@ import { CacheEntry } from '../../src/core/types.js';
 jest.mock('ioredis', () => {
   const mockRedis = {
     get: jest.fn(),
+    set: jest.fn(),
     setex: jest.fn(),
+    eval: jest.fn(),
     del: jest.fn(),
     keys: jest.fn(),
     exists: jest.fn(),
@@ -80,6 +82,44 @@ describe('RedisStorage', () => {
     expect(mockRedis.del).toHaveBeenCalledWith('test:test-key');
   });
 
+  it('should peek at an expired entry without deleting it', async () => {
+    const expiredEntry: CacheEntry = {
+      key: 'test-key',
+      value: 'test-value',
+      timestamp: Date.now() - 7200 * 1000,
+      ttl: 3600,
+      provider: 'test',
+      model: 'test-model',
+      tokenCount: 100,
+      cost: 0.01,
+    };
+
+    mockRedis.get.mockResolvedValue(JSON.stringify(expiredEntry));
+
+    expect(await storage.peek('test-key')).toEqual(expiredEntry);
+    expect(mockRedis.del).not.toHaveBeenCalled();
+    mockRedis.get.mockResolvedValue(null);
+    expect(await storage.peek('test-key')).toBeNull();
+  });
+
+  it('should extend the Redis expiry by the stale-while-revalidate window', async () => {
+    const entry: CacheEntry = {
+      key: 'test-key',
+      value: 'test-value',
+      timestamp: Date.now(),
+      ttl: 3600,
+      provider: 'test',
+      model: 'test-model',
+      tokenCount: 100,
+      cost: 0.01,
+      staleWhileRevalidate: 600,
+    };
+
+    await storage.set('test-key', entry);
+
+    expect(mockRedis.setex).toHaveBeenCalledWith('test:test-key', 4200, JSON.stringify(entry));
+  });
+
   it('should delete entries', async () => {
     mockRedis.del.mockResolvedValue(1);
     
@@ -216,4 +256,134 @@ describe('RedisStorage', () => {
     const deleted = await storage.delete('test-key');
     expect(deleted).toBe(false);
   });
-});
\ No newline at end of file
+
+  it('should emit set, delete and expire events', async () => {
+    const entry: CacheEntry = {
+      key: 'test-key',
+      value: 'test-value',
+      timestamp: Date.now() - 7200 * 1000,
+      ttl: 3600,
+      provider: 'test',
+      model: 'test-model',
+      tokenCount: 100,
+      cost: 0.01,
+      computeTime: 250,
+    };
+    const set = jest.fn();
+    const expire = jest.fn();
+    const del = jest.fn();
+    storage.on('set', set).on('expire', expire).on('delete', del);
+    mockRedis.setex.mockResolvedValue('OK');
+
+    await storage.set('test-key', entry);
+    mockRedis.get.mockResolvedValue(JSON.stringify(entry));
+    mockRedis.del.mockResolvedValue(1);
+    await storage.get('test-key');
+    await storage.delete('test-key');
+
+    expect(set).toHaveBeenCalledWith({
+      key: 'test-key',
+      provider: 'test',
+      model: 'test-model',
+      ttl: 3600,
+      cost: 0.01,
+      latencyMs: 250,
+      kind: 'value',
+    });
+    expect(expire).toHaveBeenCalledWith({ key: 'test-key', provider: 'test', model: 'test-model' });
+    expect(del).toHaveBeenCalledTimes(1);
+  });
+
+  it('should emit swallowed errors, including connection errors', async () => {
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const onError = jest.fn();
+    storage.on('error', onError);
+    const error = new Error('Redis connection failed');
+    mockRedis.get.mockRejectedValue(error);
+
+    await storage.get('test-key');
+    const connectionHandler = (mockRedis.on as jest.Mock).mock.calls.find(([event]) => event === 'error')[1];
+    connectionHandler(error);
+
+    expect(onError).toHaveBeenCalledWith({ key: 'test-key', operation: 'get', error });
+    expect(onError).toHaveBeenCalledWith({ operation: 'connection', error });
+    warnSpy.mockRestore();
+  });
+
+  it('should log through an injected logger', async () => {
+    const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+    const quiet = new RedisStorage({ host: 'localhost', port: 6379 }, 'test:', undefined, logger);
+    const error = new Error('Exists check failed');
+    mockRedis.exists.mockRejectedValue(error);
+
+    await quiet.has('test-key');
+
+    expect(logger.warn).toHaveBeenCalledWith('Redis has error:', { key: 'test-key', operation: 'has', error });
+  });
+
+  describe('distributed lock', () => {
+    const entry: CacheEntry = {
+      key: 'test-key',
+      value: 'test-value',
+      timestamp: Date.now(),
+      ttl: 3600,
+      provider: 'test',
+      model: 'test-model',
+      tokenCount: 100,
+      cost: 0.01,
+    };
+
+    beforeEach(() => {
+      storage = new RedisStorage({ host: 'localhost', port: 6379 }, 'test:', {
+        enabled: true,
+        leaseMs: 5000,
+        pollIntervalMs: 1,
+      });
+    });
+
+    it('leases the lock with SET NX PX outside the entry key space', async () => {
+      (mockRedis.set as jest.Mock).mockResolvedValue('OK');
+
+      const token = await storage.acquireLock('test-key');
+
+      expect(token).toEqual(expect.any(String));
+      expect(mockRedis.set).toHaveBeenCalledWith('lock:test:test-key', token, 'PX', 5000, 'NX');
+    });
+
+    it('returns null when another process holds the lock', async () => {
+      (mockRedis.set as jest.Mock).mockResolvedValue(null);
+
+      expect(await storage.acquireLock('test-key')).toBeNull();
+    });
+
+    it('releases only its own lock via a compare-and-delete script', async () => {
+      await storage.releaseLock('test-key', 'token-1');
+
+      expect(mockRedis.eval).toHaveBeenCalledWith(expect.stringContaining("redis.call('del'"), 1, 'lock:test:test-key', 'token-1');
+    });
+
+    it('waits until the lock holder writes the entry', async () => {
+      mockRedis.get.mockResolvedValueOnce(null).mockResolvedValueOnce(JSON.stringify(entry));
+      mockRedis.exists.mockResolvedValue(1);
+
+      const result = await storage.waitForEntry('test-key', 1000);
+
+      expect(result).toEqual(entry);
+    });
+
+    it('stops waiting when the lock disappears without an entry', async () => {
+      mockRedis.get.mockResolvedValue(null);
+      mockRedis.exists.mockResolvedValue(0);
+
+      expect(await storage.waitForEntry('test-key', 1000)).toBeNull();
+      expect(mockRedis.exists).toHaveBeenCalledWith('lock:test:test-key');
+    });
+
+    it('gives up after the wait timeout', async () => {
+      mockRedis.get.mockResolvedValue(null);
+      mockRedis.exists.mockResolvedValue(1);
+
+      expect(await storage.waitForEntry('test-key', 20)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,182 @@
+import Database from 'better-sqlite3';
+import { SqliteDatabase, SqliteStorage } from '../../src/storage/sqlite-storage.js';
+import { AIResponseCache } from '../../src/core/cache.js';
+import { CacheEntry } from '../../src/core/types.js';
+import { silentLogger } from '../../src/utils/logger.js';
+
+const makeEntry = (overrides: Partial<CacheEntry> = {}): CacheEntry => ({
+  key: 'k',
+  value: 'v',
+  timestamp: Date.now(),
+  ttl: 3600,
+  provider: 'openai',
+  model: 'gpt-4',
+  tokenCount: 10,
+  cost: 0.01,
+  ...overrides,
+});
+
+describe('SqliteStorage', () => {
+  let db: Database.Database;
+  let storage: SqliteStorage;
+  const storedKeys = () =>
+    db
+      .prepare('SELECT key FROM ai_cache_entries ORDER BY key')
+      .all()
+      .map((row: any) => row.key);
+  const insertRow = (key: string, expiresAt: number) =>
+    db
+      .prepare(
+        "INSERT INTO ai_cache_entries (key, entry, provider, model, expires_at, last_access) VALUES (?, '{}', 'p', 'm', ?, 0)"
+      )
+      .run(key, expiresAt);
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+    storage = new SqliteStorage({ db, purgeIntervalMs: 0, logger: silentLogger });
+  });
+
+  afterEach(() => db.close());
+
+  it('creates its table once and upserts entries with their expiry', async () => {
+    const entry = makeEntry({ staleWhileRevalidate: 60 });
+    const onSet = jest.fn();
+    storage.on('set', onSet);
+
+    await storage.set('k', entry);
+    await storage.set('k', { ...entry, value: 'v2' });
+
+    expect(db.prepare('SELECT provider, model, expires_at FROM ai_cache_entries').all()).toEqual([
+      { provider: 'openai', model: 'gpt-4', expires_at: entry.timestamp + 3660 * 1000 },
+    ]);
+    expect(await storage.get('k')).toEqual({ ...entry, value: 'v2' });
+    expect(onSet).toHaveBeenCalledWith(expect.objectContaining({ key: 'k', provider: 'openai', kind: 'value' }));
+
+    // Reopening over an existing table keeps its rows.
+    const reopened = new SqliteStorage({ db, purgeIntervalMs: 0, logger: silentLogger });
+    expect(await reopened.peek('k')).toEqual({ ...entry, value: 'v2' });
+  });
+
+  it('drops an entry read past its lifetime, but peek leaves it', async () => {
+    const onExpire = jest.fn();
+    storage.on('expire', onExpire);
+    await storage.set('old', makeEntry({ timestamp: Date.now() - 7200 * 1000 }));
+
+    expect(await storage.peek('old')).not.toBeNull();
+    expect(await storage.has('old')).toBe(false);
+    expect(await storage.get('old')).toBeNull();
+    expect(storedKeys()).toEqual([]);
+    expect(onExpire).toHaveBeenCalledWith({ key: 'old', provider: 'openai', model: 'gpt-4' });
+    expect(await storage.peek('old')).toBeNull();
+  });
+
+  it('evicts the least recently read entries beyond maxSize, even within one millisecond', async () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1000);
+    try {
+      storage = new SqliteStorage({ db, maxSize: 2, purgeIntervalMs: 0, logger: silentLogger });
+      const onEvict = jest.fn();
+      storage.on('evict', onEvict);
+
+      await storage.set('a', makeEntry({ timestamp: 1000 }));
+      await storage.set('b', makeEntry({ timestamp: 1000 }));
+      expect(await storage.get('a')).not.toBeNull();
+      await storage.set('c', makeEntry({ timestamp: 1000 }));
+
+      expect(storedKeys()).toEqual(['a', 'c']);
+      expect(onEvict).toHaveBeenCalledTimes(1);
+      expect(onEvict).toHaveBeenCalledWith({ key: 'b', provider: 'openai', model: 'gpt-4' });
+
+      // The sequence carries on from the rows already stored.
+      const reopened = new SqliteStorage({ db, maxSize: 2, purgeIntervalMs: 0, logger: silentLogger });
+      expect(await reopened.get('a')).not.toBeNull();
+      await reopened.set('d', makeEntry({ timestamp: 1000 }));
+      expect(storedKeys()).toEqual(['a', 'd']);
+    } finally {
+      now.mockRestore();
+    }
+  });
+
+  it('counts and lists only live entries, by prefix too, deletes and clears', async () => {
+    await storage.set('chat:1', makeEntry());
+    await storage.set('chat:2', makeEntry());
+    await storage.set('chaz', makeEntry());
+    await storage.set('chat:old', makeEntry({ timestamp: 0 }));
+    const onDelete = jest.fn();
+    storage.on('delete', onDelete);
+
+    expect(await storage.size()).toBe(3);
+    expect(await storage.keys()).toEqual(['chat:1', 'chat:2', 'chaz']);
+    expect(await storage.keys('chat:')).toEqual(['chat:1', 'chat:2']);
+    expect(await storage.keys('CHAT:')).toEqual([]);
+    expect(await storage.has('chat:1')).toBe(true);
+    expect(await storage.delete('chat:1')).toBe(true);
+    expect(await storage.delete('chat:1')).toBe(false);
+    expect(onDelete).toHaveBeenCalledTimes(1);
+    expect(onDelete).toHaveBeenCalledWith({ key: 'chat:1', provider: 'openai', model: 'gpt-4' });
+
+    await storage.clear();
+    expect(storedKeys()).toEqual([]);
+  });
+
+  it('purges expired rows on an interval and reports each as expired', async () => {
+    jest.useFakeTimers();
+    try {
+      storage = new SqliteStorage({ db, purgeIntervalMs: 1000, logger: silentLogger });
+      const onExpire = jest.fn();
+      storage.on('expire', onExpire);
+      insertRow('old', 0);
+      insertRow('live', Date.now() + 1e6);
+
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(onExpire).toHaveBeenCalledWith({ key: 'old', provider: 'p', model: 'm' });
+      expect(storedKeys()).toEqual(['live']);
+
+      await storage.disconnect();
+      insertRow('old', 0);
+      await jest.advanceTimersByTimeAsync(5000);
+      expect(storedKeys()).toEqual(['live', 'old']);
+      expect(await storage.purgeExpired()).toBe(1);
+      expect(await storage.purgeExpired()).toBe(0);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('swallows read failures as error events and rethrows write failures', async () => {
+    const failing: SqliteDatabase = {
+      exec: jest.fn(),
+      prepare: jest.fn(() => {
+        throw new Error('SQLITE_BUSY: database is locked');
+      }),
+    };
+    storage = new SqliteStorage({ db: failing, purgeIntervalMs: 0, logger: silentLogger });
+    const onError = jest.fn();
+    storage.on('error', onError);
+
+    expect(await storage.get('k')).toBeNull();
+    expect(await storage.has('k')).toBe(false);
+    expect(await storage.size()).toBe(0);
+    expect(await storage.keys('p')).toEqual([]);
+    expect(await storage.delete('k')).toBe(false);
+    expect(await storage.purgeExpired()).toBe(0);
+    expect(onError.mock.calls.map(([payload]) => payload.operation)).toEqual(['get', 'has', 'size', 'keys', 'delete', 'purge']);
+    await expect(storage.set('k', makeEntry())).rejects.toThrow('database is locked');
+    await expect(storage.clear()).rejects.toThrow('database is locked');
+    await expect(storage.peek('k')).rejects.toThrow('database is locked');
+  });
+
+  it('rejects unsafe table names', () => {
+    expect(() => new SqliteStorage({ db, table: 'entries; DROP TABLE users' })).toThrow('Invalid table name');
+  });
+
+  it('serves as the storage of an AIResponseCache', async () => {
+    const cache = new AIResponseCache({ storage, logger: 'silent' });
+    const provider = jest.fn().mockResolvedValue({ value: 'Paris', tokenCount: 5, cost: 0.01 });
+
+    await cache.wrap(provider, { provider: 'openai', model: 'gpt-4', prompt: 'capital of France' });
+    expect(await cache.wrap(provider, { provider: 'openai', model: 'gpt-4', prompt: 'capital of France' })).toBe('Paris');
+    expect(provider).toHaveBeenCalledTimes(1);
+    expect(storedKeys()).toHaveLength(1);
+    await cache.disconnect();
+  });
+});
@@ -0,0 +1,112 @@
+import { AIResponseCache } from '../../src/core/cache.js';
+import { CacheLogger } from '../../src/core/types.js';
+import { consoleLogger, pinoLogger, resolveLogger, sampledLogger, silentLogger } from '../../src/utils/logger.js';
+
+const recordingLogger = () => {
+  const lines: Array<[string, string, any]> = [];
+  const logger: CacheLogger = {
+    debug: (message, fields) => lines.push(['debug', message, fields]),
+    info: (message, fields) => lines.push(['info', message, fields]),
+    warn: (message, fields) => lines.push(['warn', message, fields]),
+    error: (message, fields) => lines.push(['error', message, fields]),
+  };
+  return { logger, lines };
+};
+
+describe('consoleLogger', () => {
+  it('prefixes messages, passes the error along and gates debug lines', () => {
+    const log = jest.spyOn(console, 'log').mockImplementation(() => {});
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const error = new Error('boom');
+
+    consoleLogger('[x] ', false).debug('hidden');
+    consoleLogger('[x] ').debug('shown', { key: 'k' });
+    consoleLogger('[x] ').warn('degraded:', { error, key: 'k' });
+
+    expect(log).toHaveBeenCalledTimes(1);
+    expect(log).toHaveBeenCalledWith('[x] shown');
+    expect(warn).toHaveBeenCalledWith('[x] degraded:', error);
+    log.mockRestore();
+    warn.mockRestore();
+  });
+});
+
+describe('pinoLogger', () => {
+  it('puts fields first and renames error to err', () => {
+    const pino = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+    const error = new Error('boom');
+
+    pinoLogger(pino).error('Cache get error:', { key: 'k', error });
+    pinoLogger(pino).debug('Cache hit', { key: 'k' });
+
+    expect(pino.error).toHaveBeenCalledWith({ key: 'k', err: error }, 'Cache get error:');
+    expect(pino.debug).toHaveBeenCalledWith({ key: 'k' }, 'Cache hit');
+  });
+});
+
+describe('sampledLogger', () => {
+  it('drops repeats inside the window and reports how many were suppressed', () => {
+    const { logger, lines } = recordingLogger();
+    const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(0);
+    const sampled = sampledLogger(logger, { windowMs: 1000, burst: 2 });
+
+    for (let i = 0; i < 5; i++) sampled.warn('Redis get error:', { attempt: i });
+    sampled.error('Other error');
+    sampled.debug('debug is never sampled');
+    sampled.debug('debug is never sampled');
+    nowSpy.mockReturnValue(1500);
+    sampled.warn('Redis get error:', { attempt: 5 });
+    nowSpy.mockRestore();
+
+    expect(lines).toEqual([
+      ['warn', 'Redis get error:', { attempt: 0 }],
+      ['warn', 'Redis get error:', { attempt: 1 }],
+      ['error', 'Other error', undefined],
+      ['debug', 'debug is never sampled', undefined],
+      ['debug', 'debug is never sampled', undefined],
+      ['warn', 'Redis get error:', { attempt: 5, suppressed: 3 }],
+    ]);
+  });
+});
+
+describe('resolveLogger', () => {
+  it("maps 'silent' and 'console' and wraps with sampling when enabled", () => {
+    const { logger } = recordingLogger();
+    expect(resolveLogger('silent', undefined, '', false)).toBe(silentLogger);
+    expect(resolveLogger(logger, { enabled: false }, '', false)).toBe(logger);
+    expect(resolveLogger(logger, { enabled: true }, '', false)).not.toBe(logger);
+  });
+});
+
+describe('AIResponseCache logger option', () => {
+  it('sends structured debug lines and degraded errors to a custom logger', async () => {
+    const { logger, lines } = recordingLogger();
+    const cache = new AIResponseCache({ logger });
+    const storageError = new Error('storage down');
+    jest.spyOn((cache as any).storage, 'get').mockRejectedValue(storageError);
+
+    await cache.wrap(jest.fn().mockResolvedValue({ value: 'v', cost: 0 }), { provider: 'p', model: 'm', prompt: 'hi' });
+
+    expect(lines).toContainEqual([
+      'warn',
+      'Cache get error:',
+      expect.objectContaining({ error: storageError, operation: 'get', provider: 'p' }),
+    ]);
+    expect(lines).toContainEqual(['debug', expect.stringContaining('Cache set for key'), { key: expect.any(String) }]);
+  });
+
+  it("writes nothing to the console in 'silent' mode", async () => {
+    const error = jest.spyOn(console, 'error');
+    const warn = jest.spyOn(console, 'warn');
+    const cache = new AIResponseCache({ logger: 'silent', retry: { maxAttempts: 1 } });
+
+    await expect(
+      cache.wrap(jest.fn().mockRejectedValue(new Error('down')), { provider: 'p', model: 'm', prompt: 'hi' })
+    ).rejects.toThrow('down');
+
+    expect(error).not.toHaveBeenCalled();
+    expect(warn).not.toHaveBeenCalled();
+    error.mockRestore();
+    warn.mockRestore();
+  });
+});
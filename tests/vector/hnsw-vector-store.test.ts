@@ -0,0 +1,121 @@
+import { HnswVectorStore } from '../../src/vector/hnsw-vector-store.js';
+import { MemoryVectorStore, cosineSimilarity } from '../../src/vector/memory-vector-store.js';
+
+// Deterministic, so graph shape and recall don't vary between runs.
+function seededRandom(seed: number): () => number {
+  let state = seed;
+  return () => (state = (state * 16807) % 2147483647) / 2147483647;
+}
+
+function randomVectors(count: number, dim: number, random: () => number): number[][] {
+  return Array.from({ length: count }, () => Array.from({ length: dim }, () => random() * 2 - 1));
+}
+
+describe('HnswVectorStore', () => {
+  it('returns nearest neighbours by cosine similarity', async () => {
+    const store = new HnswVectorStore();
+    await store.add('a', [1, 0, 0], { label: 'x' });
+    await store.add('b', [0, 1, 0]);
+    await store.add('c', [0.9, 0.1, 0]);
+
+    const results = await store.search([2, 0, 0], 2);
+    expect(results.map((result) => result.id)).toEqual(['a', 'c']);
+    expect(results[0].score).toBeCloseTo(1, 6);
+    expect(results[1].score).toBeCloseTo(cosineSimilarity([1, 0, 0], [0.9, 0.1, 0]), 6);
+    expect(results[0].meta).toEqual({ label: 'x' });
+  });
+
+  it('matches the brute-force store on a small set', async () => {
+    const random = seededRandom(42);
+    const hnsw = new HnswVectorStore({ M: 8, random });
+    const exact = new MemoryVectorStore();
+    const vectors = randomVectors(300, 16, random);
+    for (const [i, vector] of vectors.entries()) {
+      await hnsw.add(`k${i}`, vector);
+      await exact.add(`k${i}`, vector);
+    }
+
+    let found = 0;
+    for (const query of randomVectors(20, 16, random)) {
+      const expected = new Set((await exact.search(query, 5)).map((result) => result.id));
+      found += (await hnsw.search(query, 5)).filter((result) => expected.has(result.id)).length;
+    }
+    expect(found / 100).toBeGreaterThanOrEqual(0.95);
+  });
+
+  it('honours a metadata filter', async () => {
+    const random = seededRandom(7);
+    const store = new HnswVectorStore({ random });
+    for (const [i, vector] of randomVectors(100, 8, random).entries()) {
+      await store.add(`k${i}`, vector, { model: i === 99 ? 'rare' : 'common' });
+    }
+
+    const results = await store.search([1, 1, 1, 1, 1, 1, 1, 1], 3, { model: 'rare' });
+    expect(results.map((result) => result.id)).toEqual(['k99']);
+  });
+
+  it('deletes, replaces and rebuilds once tombstones outnumber live vectors', async () => {
+    const random = seededRandom(3);
+    const store = new HnswVectorStore({ random });
+    const vectors = randomVectors(50, 8, random);
+    for (const [i, vector] of vectors.entries()) await store.add(`k${i}`, vector);
+
+    await store.add('k0', vectors[1]);
+    await store.delete('k1');
+    await store.delete('missing');
+    expect(await store.size()).toBe(49);
+    expect((await store.search(vectors[1], 1))[0].id).toBe('k0');
+
+    for (let i = 2; i < 40; i++) await store.delete(`k${i}`);
+    expect(await store.size()).toBe(11);
+    // Rebuilt twice on the way down; only the last delete is left as a tombstone.
+    expect(store.save().nodes.filter((node) => node.deleted)).toHaveLength(1);
+    expect(store.save().nodes).toHaveLength(12);
+    expect((await store.ids()).sort()).toEqual(['k0', ...Array.from({ length: 10 }, (_, i) => `k${40 + i}`)].sort());
+
+    await store.clear();
+    expect(await store.size()).toBe(0);
+    expect(await store.search(vectors[0], 1)).toEqual([]);
+  });
+
+  it('rebuilds when overwriting the same id leaves more tombstones than live vectors', async () => {
+    const random = seededRandom(5);
+    const store = new HnswVectorStore({ M: 4, random });
+    const vectors = randomVectors(30, 4, random);
+    for (const [i, vector] of vectors.entries()) await store.add(`k${i}`, vector);
+
+    for (let i = 0; i < 200; i++) await store.add('k0', vectors[i % 30]);
+    await store.add('k0', [1, 1, 1, 1]);
+
+    expect(await store.size()).toBe(30);
+    // Never more tombstones than live vectors, so never more than twice the nodes.
+    expect(store.save().nodes.length).toBeLessThanOrEqual(60);
+    expect((await store.search([1, 1, 1, 1], 1))[0].id).toBe('k0');
+  });
+
+  it('rejects vectors of another dimension', async () => {
+    const store = new HnswVectorStore();
+    await store.add('a', [1, 0, 0]);
+    await expect(store.add('b', [1, 0])).rejects.toThrow('Vector has 2 dimensions; this store holds 3');
+    await expect(store.search([1, 0], 1)).rejects.toThrow('dimensions');
+  });
+
+  it('saves a snapshot that loads into an identical index', async () => {
+    const random = seededRandom(11);
+    const store = new HnswVectorStore({ M: 4, efSearch: 32, random });
+    for (const [i, vector] of randomVectors(60, 8, random).entries()) await store.add(`k${i}`, vector, { i });
+    await store.delete('k5');
+
+    const restored = HnswVectorStore.load(JSON.parse(JSON.stringify(store.save())));
+    const query = randomVectors(1, 8, random)[0];
+    expect(await restored.search(query, 5)).toEqual(await store.search(query, 5));
+    expect(await restored.size()).toBe(59);
+    expect(restored.efSearch).toBe(32);
+    expect(() => HnswVectorStore.load({ version: 2 } as any)).toThrow('Unsupported HNSW snapshot');
+  });
+
+  it('validates its options', () => {
+    expect(() => new HnswVectorStore({ M: 1 })).toThrow('M must be an integer of at least 2');
+    expect(() => new HnswVectorStore({ efSearch: 0 })).toThrow('efConstruction and efSearch must be positive');
+  });
+});
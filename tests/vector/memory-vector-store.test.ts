@@ -34,10 +34,11 @@ describe('MemoryVectorStore', () => {
     expect(results[1].id).toBe('c');
   });
 
-  it('supports delete, clear and size', async () => {
+  it('supports delete, clear, size and ids', async () => {
     await store.add('a', [1, 0]);
     await store.add('b', [0, 1]);
     expect(await store.size()).toBe(2);
+    expect(await store.ids()).toEqual(['a', 'b']);
 
     await store.delete('a');
     expect(await store.size()).toBe(1);
@@ -45,4 +46,65 @@ describe('MemoryVectorStore', () => {
     await store.clear();
     expect(await store.size()).toBe(0);
   });
+
+  it('returns stored meta and honours a metadata filter', async () => {
+    await store.add('a', [1, 0], { model: 'gpt-4', paramsHash: 'x' });
+    await store.add('b', [1, 0], { model: 'gpt-3.5-turbo', paramsHash: 'x' });
+    await store.add('legacy', [1, 0]);
+
+    const results = await store.search([1, 0], 5, { model: 'gpt-4', paramsHash: 'x' });
+
+    expect(results).toEqual([{ id: 'a', score: expect.closeTo(1), meta: { model: 'gpt-4', paramsHash: 'x' } }]);
+    expect(await store.search([1, 0], 5)).toHaveLength(3);
+  });
+
+  it('rejects vectors of another dimension until cleared', async () => {
+    await store.add('a', [1, 0, 0]);
+    await expect(store.add('b', [1, 0])).rejects.toThrow('Vector has 2 dimensions; this store holds 3');
+    await expect(store.search([1, 0], 1)).rejects.toThrow('dimensions');
+
+    await store.clear();
+    await store.add('b', [1, 0]);
+    expect((await store.search([1, 0], 1))[0].id).toBe('b');
+  });
+
+  it('replaces a vector in place and keeps slots consistent across deletes', async () => {
+    for (let i = 0; i < 100; i++) await store.add(`k${i}`, [Math.cos(i), Math.sin(i)], { i });
+    await store.add('k5', [0, -1], { i: 'moved' });
+    for (let i = 10; i < 60; i++) await store.delete(`k${i}`);
+    await store.delete('missing');
+
+    expect(await store.size()).toBe(50);
+    const kept = [...Array.from({ length: 10 }, (_, i) => `k${i}`), ...Array.from({ length: 40 }, (_, i) => `k${60 + i}`)];
+    expect((await store.ids()).sort()).toEqual(kept.sort());
+    const [best] = await store.search([0, -1], 1);
+    expect(best).toEqual({ id: 'k5', score: expect.closeTo(1, 5), meta: { i: 'moved' } });
+    const [other] = await store.search([Math.cos(70), Math.sin(70)], 1);
+    expect(other).toEqual({ id: 'k70', score: expect.closeTo(1, 5), meta: { i: 70 } });
+  });
+
+  it('scores a zero vector as 0 and returns nothing for topK 0', async () => {
+    await store.add('zero', [0, 0]);
+    expect(await store.search([1, 0], 1)).toEqual([{ id: 'zero', score: 0, meta: undefined }]);
+    expect(await store.search([0, 0], 1)).toEqual([{ id: 'zero', score: 0, meta: undefined }]);
+    expect(await store.search([1, 0], 0)).toEqual([]);
+  });
+
+  it('holds int8 vectors with scores close to float32', async () => {
+    const int8 = new MemoryVectorStore({ encoding: 'int8' });
+    const vectors = Array.from({ length: 20 }, (_, i) => Array.from({ length: 64 }, (_, d) => Math.sin(i * 7 + d)));
+    for (const [i, vector] of vectors.entries()) {
+      await int8.add(`k${i}`, vector);
+      await store.add(`k${i}`, vector);
+    }
+    const query = vectors[3].map((x, d) => x + Math.cos(d) * 0.2);
+
+    const quantized = await int8.search(query, 20);
+    const full = await store.search(query, 20);
+    expect(quantized[0].id).toBe('k3');
+    expect(full[0].score).toBeCloseTo(cosineSimilarity(query, vectors[3]), 5);
+    for (const result of full) {
+      expect(quantized.find((q) => q.id === result.id)!.score).toBeCloseTo(result.score, 2);
+    }
+  });
 });
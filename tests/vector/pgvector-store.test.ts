@@ -0,0 +1,73 @@
+import { PgVectorStore } from '../../src/vector/pgvector-store.js';
+
+describe('PgVectorStore', () => {
+  const makePool = (rows: any[] = []) => ({ query: jest.fn().mockResolvedValue({ rows, rowCount: rows.length }) });
+  const sql = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+  it('upserts the vector as a pgvector literal with meta and its provider and model columns', async () => {
+    const pool = makePool();
+    const store = new PgVectorStore({ pool });
+
+    await store.add('k1', [0.1, 0.2], { provider: 'openai', model: 'gpt-4', text: 'hi' });
+    await store.add('k2', [1, 0]);
+
+    const [text, params] = pool.query.mock.calls[0];
+    expect(sql(text)).toContain('INSERT INTO "ai_cache_vectors" (id, embedding, meta, provider, model) VALUES ($1, $2::vector, $3, $4, $5)');
+    expect(sql(text)).toContain('ON CONFLICT (id) DO UPDATE');
+    expect(params).toEqual(['k1', '[0.1,0.2]', JSON.stringify({ provider: 'openai', model: 'gpt-4', text: 'hi' }), 'openai', 'gpt-4']);
+    expect(pool.query.mock.calls[1][1]).toEqual(['k2', '[1,0]', null, null, null]);
+  });
+
+  it('orders by cosine distance, filtering on columns and JSONB meta', async () => {
+    const pool = makePool([
+      { id: 'a', score: 0.98, meta: { provider: 'openai', model: 'gpt-4', paramsHash: 'x' } },
+      { id: 'legacy', score: '0.5', meta: null },
+    ]);
+    const store = new PgVectorStore({ pool, table: 'cache.vectors' });
+
+    const results = await store.search([1, 0], 3, { provider: 'openai', model: 'gpt-4', paramsHash: 'x' });
+
+    expect(results).toEqual([
+      { id: 'a', score: 0.98, meta: { provider: 'openai', model: 'gpt-4', paramsHash: 'x' } },
+      { id: 'legacy', score: 0.5, meta: undefined },
+    ]);
+    const [text, params] = pool.query.mock.calls[0];
+    expect(sql(text)).toBe(
+      'SELECT id, meta, 1 - (embedding <=> $1::vector) AS score FROM "cache"."vectors" ' +
+        'WHERE provider = $3 AND model = $4 AND meta @> $5::jsonb ORDER BY embedding <=> $1::vector LIMIT $2'
+    );
+    expect(params).toEqual(['[1,0]', 3, 'openai', 'gpt-4', JSON.stringify({ paramsHash: 'x' })]);
+  });
+
+  it('searches without a WHERE clause when unfiltered and skips topK 0', async () => {
+    const pool = makePool();
+    const store = new PgVectorStore({ pool });
+
+    expect(await store.search([1, 0], 0)).toEqual([]);
+    expect(pool.query).not.toHaveBeenCalled();
+    await store.search([1, 0], 2);
+    expect(sql(pool.query.mock.calls[0][0])).not.toContain('WHERE');
+  });
+
+  it('deletes, clears, counts and lists ids', async () => {
+    const pool = makePool();
+    const store = new PgVectorStore({ pool });
+
+    await store.delete('k1');
+    await store.clear();
+    expect(pool.query.mock.calls.map(([text, params]) => [sql(text), params])).toEqual([
+      ['DELETE FROM "ai_cache_vectors" WHERE id = $1', ['k1']],
+      ['DELETE FROM "ai_cache_vectors"', undefined],
+    ]);
+
+    pool.query.mockResolvedValueOnce({ rows: [{ count: 2 }], rowCount: 1 });
+    expect(await store.size()).toBe(2);
+    pool.query.mockResolvedValueOnce({ rows: [{ id: 'a' }, { id: 'b' }], rowCount: 2 });
+    expect(await store.ids()).toEqual(['a', 'b']);
+  });
+
+  it('passes query errors through', async () => {
+    const store = new PgVectorStore({ pool: { query: jest.fn().mockRejectedValue(new Error('expected 384 dimensions, not 2')) } });
+    await expect(store.add('k', [1, 0])).rejects.toThrow('expected 384 dimensions');
+  });
+});
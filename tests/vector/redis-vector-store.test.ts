@@ -1,66 +1,241 @@
+// A small in-memory stand-in for the hash, set and key commands the store
+// uses, so bucket bookkeeping can be checked end to end.
 jest.mock('ioredis', () => {
-  const mockRedis = {
-    hset: jest.fn(),
-    hgetall: jest.fn(),
-    hdel: jest.fn(),
-    hlen: jest.fn(),
-    del: jest.fn(),
+  const hashes = new Map<string, Map<string, Buffer>>();
+  const sets = new Map<string, Set<string>>();
+  const strings = new Map<string, string>();
+  const toBuffer = (value: Buffer | string) => (Buffer.isBuffer(value) ? value : Buffer.from(value));
+  const hash = (key: string) => hashes.get(key) ?? new Map<string, Buffer>();
+  const commands: Record<string, (...args: any[]) => any> = {
+    hset: (key: string, field: string, value: Buffer | string) => {
+      hashes.set(key, hash(key).set(field, toBuffer(value)));
+    },
+    hdel: (key: string, field: string) => hash(key).delete(field),
+    hgetBuffer: (key: string, field: string) => hash(key).get(field) ?? null,
+    hmgetBuffer: (key: string, ...fields: string[]) => fields.map((field) => hash(key).get(field) ?? null),
+    hmget: (key: string, ...fields: string[]) => fields.map((field) => hash(key).get(field)?.toString() ?? null),
+    hgetallBuffer: (key: string) => Object.fromEntries(hash(key)),
+    hgetall: (key: string) => Object.fromEntries([...hash(key)].map(([field, value]) => [field, value.toString()])),
+    hlen: (key: string) => hash(key).size,
+    hkeys: (key: string) => [...hash(key).keys()],
+    sadd: (key: string, member: string) => sets.set(key, (sets.get(key) ?? new Set<string>()).add(member)),
+    srem: (key: string, member: string) => sets.get(key)?.delete(member),
+    smembers: (key: string) => [...(sets.get(key) ?? [])],
+    get: (key: string) => strings.get(key) ?? null,
+    set: (key: string, value: string) => strings.set(key, value),
+    keys: (pattern: string) =>
+      [...hashes.keys(), ...sets.keys(), ...strings.keys()].filter((key) => key.startsWith(pattern.slice(0, -1))),
+    del: (...keys: string[]) => keys.forEach((key) => hashes.delete(key) || sets.delete(key) || strings.delete(key)),
+  };
+  const batch = () => {
+    const queued: Array<() => unknown> = [];
+    const chain: any = { exec: jest.fn(async () => queued.map((run) => [null, run()])) };
+    for (const [name, run] of Object.entries(commands)) {
+      chain[name] = (...args: any[]) => (queued.push(() => run(...args)), chain);
+    }
+    return chain;
+  };
+  const mockRedis: any = {
+    multi: jest.fn(batch),
+    pipeline: jest.fn(batch),
     quit: jest.fn(),
     on: jest.fn(),
+    reset: () => [hashes, sets, strings].forEach((store) => store.clear()),
+    sets,
   };
+  for (const [name, run] of Object.entries(commands)) mockRedis[name] = jest.fn(async (...args: any[]) => run(...args));
   return { Redis: jest.fn(() => mockRedis) };
 });
 
 import { Redis } from 'ioredis';
-import { RedisVectorStore } from '../../src/vector/redis-vector-store.js';
+import { RedisVectorStore, decodeVector, encodeVector } from '../../src/vector/redis-vector-store.js';
+import { MemoryVectorStore } from '../../src/vector/memory-vector-store.js';
+
+function seededRandom(seed: number): () => number {
+  let state = seed;
+  return () => (state = (state * 16807) % 2147483647) / 2147483647;
+}
 
-describe('RedisVectorStore (plain Redis, brute-force)', () => {
-  let redis: jest.Mocked<Redis>;
+function randomVectors(count: number, dim: number, random: () => number): number[][] {
+  return Array.from({ length: count }, () => Array.from({ length: dim }, () => random() * 2 - 1));
+}
+
+describe('RedisVectorStore (plain Redis)', () => {
+  let redis: jest.Mocked<Redis> & { reset(): void; sets: Map<string, Set<string>> };
   let store: RedisVectorStore;
+  const bucketsOf = (id: string) => [...redis.sets].filter(([, members]) => members.has(id)).map(([key]) => key);
 
   beforeEach(() => {
     jest.clearAllMocks();
-    redis = new Redis() as unknown as jest.Mocked<Redis>;
+    redis = new Redis() as any;
+    redis.reset();
     store = new RedisVectorStore({ redis: redis as any });
   });
 
-  it('stores vectors as JSON fields in a single hash', async () => {
-    await store.add('key1', [0.1, 0.2, 0.3]);
-    expect(redis.hset).toHaveBeenCalledWith('ai-cache:vectors', 'key1', JSON.stringify([0.1, 0.2, 0.3]));
+  it('packs vectors as float32, keeps meta in its own hash and buckets each vector once per table', async () => {
+    await store.add('a', [3, 4], { model: 'gpt-4' });
+    await store.add('b', [1, 0]);
+
+    const raw = (await redis.hgetBuffer('ai-cache:vectors', 'a'))!;
+    expect(raw).toHaveLength(4 + 2 * 4);
+    expect(Array.from(decodeVector(raw)!)).toEqual([expect.closeTo(0.6), expect.closeTo(0.8)]);
+    expect(await redis.hgetall('ai-cache:vectors:meta')).toEqual({ a: JSON.stringify({ model: 'gpt-4' }) });
+    expect(bucketsOf('a')).toHaveLength(4);
+    expect(bucketsOf('a').every((key) => key.startsWith('ai-cache:vectors:lsh:2:'))).toBe(true);
+  });
+
+  it('ranks by cosine similarity, returns meta and applies the filter', async () => {
+    await store.add('a', [1, 0, 0], { model: 'gpt-4' });
+    await store.add('b', [0, 1, 0], { model: 'gpt-4' });
+    await store.add('c', [0.9, 0.1, 0], { model: 'claude' });
+
+    const results = await store.search([2, 0, 0], 2);
+    expect(results.map((r) => r.id)).toEqual(['a', 'c']);
+    expect(results[0]).toEqual({ id: 'a', score: expect.closeTo(1, 5), meta: { model: 'gpt-4' } });
+    expect((await store.search([1, 0, 0], 5, { model: 'claude' })).map((r) => r.id)).toEqual(['c']);
+    expect(await store.search([1, 0, 0], 0)).toEqual([]);
+  });
+
+  it('only fetches the vectors in the query buckets, up to maxCandidates', async () => {
+    const random = seededRandom(5);
+    const vectors = randomVectors(200, 16, random);
+    store = new RedisVectorStore({ redis: redis as any, lsh: { tables: 2, bits: 6 } });
+    for (const [i, vector] of vectors.entries()) await store.add(`k${i}`, vector);
+
+    const near = vectors[7].map((x) => x + 0.01);
+    expect((await store.search(near, 1))[0].id).toBe('k7');
+    const fetched = (redis.hmgetBuffer as jest.Mock).mock.calls[0].length - 1;
+    expect(fetched).toBeGreaterThan(0);
+    expect(fetched).toBeLessThan(200);
+
+    const capped = new RedisVectorStore({ redis: redis as any, lsh: { tables: 2, bits: 6, maxCandidates: 5 } });
+    (redis.hmgetBuffer as jest.Mock).mockClear();
+    expect((await capped.search(near, 1))[0].id).toBe('k7');
+    expect((redis.hmgetBuffer as jest.Mock).mock.calls[0]).toHaveLength(1 + 5);
+  });
+
+  it('applies the filter before cutting the candidates to maxCandidates', async () => {
+    store = new RedisVectorStore({ redis: redis as any, lsh: { tables: 2, bits: 6, maxCandidates: 5 } });
+    // Twelve out-of-scope vectors closer to the query than the in-scope one, in all its buckets.
+    for (let i = 0; i < 12; i++) await store.add(`other${i}`, [1, 0.001 * i, 0], { model: 'claude' });
+    await store.add('mine', [1, 0.05, 0], { model: 'gpt-4' });
+
+    const results = await store.search([1, 0, 0], 1, { model: 'gpt-4' });
+
+    expect(results.map((r) => r.id)).toEqual(['mine']);
+    expect((redis.hmgetBuffer as jest.Mock).mock.calls.at(-1)).toEqual(['ai-cache:vectors', 'mine']);
+    expect((await store.search([1, 0, 0], 20)).length).toBe(5);
+  });
+
+  it('keeps recall against brute force on near-duplicate queries', async () => {
+    const random = seededRandom(9);
+    const exact = new MemoryVectorStore();
+    const vectors = randomVectors(300, 32, random);
+    for (const [i, vector] of vectors.entries()) {
+      await store.add(`k${i}`, vector);
+      await exact.add(`k${i}`, vector);
+    }
+
+    // Paraphrase-like queries: a stored vector plus noise, around 0.95 cosine.
+    let found = 0;
+    const queries = Array.from({ length: 20 }, (_, i) => vectors[i * 15].map((x) => x + (random() - 0.5) * 0.3));
+    for (const query of queries) {
+      const truth = (await exact.search(query, 1))[0].id;
+      if ((await store.search(query, 1))[0]?.id === truth) found++;
+    }
+    expect(found / queries.length).toBeGreaterThanOrEqual(0.9);
+  });
+
+  it('stores int8 vectors in a quarter of the space with scores close to float32', async () => {
+    const int8 = new RedisVectorStore({ redis: redis as any, indexKey: 'q8', encoding: 'int8' });
+    const vector = Array.from({ length: 64 }, (_, i) => Math.sin(i));
+    const query = Array.from({ length: 64 }, (_, i) => Math.sin(i) + Math.cos(i) * 0.3);
+    await int8.add('a', vector);
+    await store.add('a', vector);
+
+    expect(await redis.hgetBuffer('q8', 'a')).toHaveLength(8 + 64);
+    const [quantized] = await int8.search(query, 1);
+    const [full] = await store.search(query, 1);
+    expect(quantized.score).toBeCloseTo(full.score, 2);
+    expect(encodeVector(new Float32Array(3), 'int8').readFloatLE(4)).toBe(1);
+  });
+
+  it('moves a replaced vector to its new buckets and removes a deleted one from all of them', async () => {
+    await store.add('a', [1, 0, 0], { model: 'gpt-4' });
+    const before = bucketsOf('a');
+    await store.add('a', [-1, 0, 0]);
+    expect(bucketsOf('a')).toHaveLength(4);
+    expect(bucketsOf('a')).not.toEqual(before);
+    expect(await redis.hgetall('ai-cache:vectors:meta')).toEqual({});
+
+    await store.delete('a');
+    expect(bucketsOf('a')).toEqual([]);
+    expect(await store.size()).toBe(0);
+    await store.delete('missing');
   });
 
-  it('computes cosine similarity in Node and returns top-K sorted', async () => {
-    (redis.hgetall as jest.Mock).mockResolvedValue({
-      a: JSON.stringify([1, 0, 0]),
-      b: JSON.stringify([0, 1, 0]),
-      c: JSON.stringify([0.9, 0.1, 0]),
-    });
+  it('leaves no int8 vector behind in any bucket once replaced and deleted', async () => {
+    const random = seededRandom(13);
+    store = new RedisVectorStore({ redis: redis as any, encoding: 'int8', lsh: { tables: 4, bits: 16 } });
+    const vectors = randomVectors(200, 64, random);
+    for (const [i, vector] of vectors.entries()) await store.add(`k${i}`, vector);
+    for (const [i, vector] of vectors.entries()) await store.add(`k${i}`, vector.map((x) => -x));
+
+    for (let i = 0; i < vectors.length; i++) await store.delete(`k${i}`);
 
-    const results = await store.search([1, 0, 0], 2);
-    expect(results).toHaveLength(2);
-    expect(results[0].id).toBe('a');
-    expect(results[0].score).toBeCloseTo(1, 6);
-    expect(results[1].id).toBe('c');
+    expect([...redis.sets.values()].every((members) => members.size === 0)).toBe(true);
   });
 
-  it('skips malformed entries instead of throwing', async () => {
-    (redis.hgetall as jest.Mock).mockResolvedValue({
-      good: JSON.stringify([1, 0]),
-      bad: 'not-json',
-    });
-    const results = await store.search([1, 0], 5);
-    expect(results.map((r) => r.id)).toEqual(['good']);
+  it('converts JSON vectors from earlier versions on first use', async () => {
+    await redis.hset('ai-cache:vectors', 'a', JSON.stringify({ v: [1, 0], m: { model: 'gpt-4' } }));
+    await redis.hset('ai-cache:vectors', 'legacy', JSON.stringify([1, 0.1]));
+    await redis.hset('ai-cache:vectors', 'bad', 'not-json');
+
+    expect(await store.search([1, 0], 5)).toEqual([
+      { id: 'a', score: expect.closeTo(1, 5), meta: { model: 'gpt-4' } },
+      { id: 'legacy', score: expect.closeTo(0.995, 3), meta: undefined },
+    ]);
+    expect(decodeVector((await redis.hgetBuffer('ai-cache:vectors', 'legacy'))!)).not.toBeNull();
+    expect(await redis.get('ai-cache:vectors:format')).toBe('2:lsh:4x8:1');
   });
 
-  it('delete, clear and size use the hash', async () => {
-    await store.delete('key1');
-    expect(redis.hdel).toHaveBeenCalledWith('ai-cache:vectors', 'key1');
+  it('rebuilds the buckets when the LSH settings change', async () => {
+    await store.add('a', [1, 0], { model: 'gpt-4' });
+    const rebucketed = new RedisVectorStore({ redis: redis as any, lsh: { tables: 2, bits: 4 } });
+
+    expect((await rebucketed.search([1, 0], 1))[0].id).toBe('a');
+    expect(bucketsOf('a')).toHaveLength(2);
+    expect(await redis.get('ai-cache:vectors:format')).toBe('2:lsh:2x4:1');
+  });
+
+  it('scans every vector with lsh: false', async () => {
+    const scan = new RedisVectorStore({ redis: redis as any, lsh: false });
+    await scan.add('a', [1, 0]);
+    await scan.add('b', [0, 1]);
+
+    expect((await scan.search([0, 1], 1))[0].id).toBe('b');
+    expect(redis.hgetallBuffer).toHaveBeenCalledWith('ai-cache:vectors');
+    expect(redis.sets.size).toBe(0);
+    await scan.clear();
+    expect(await scan.search([0, 1], 1)).toEqual([]);
+  });
+
+  it('clear, size and ids cover vectors, meta and buckets', async () => {
+    await store.add('a', [1, 0], { model: 'gpt-4' });
+    await store.add('b', [0, 1]);
+    expect(await store.size()).toBe(2);
+    expect(await store.ids()).toEqual(['a', 'b']);
 
     await store.clear();
-    expect(redis.del).toHaveBeenCalledWith('ai-cache:vectors');
+    expect(await store.size()).toBe(0);
+    expect(redis.sets.size).toBe(0);
+    expect(await redis.hgetall('ai-cache:vectors:meta')).toEqual({});
+  });
 
-    (redis.hlen as jest.Mock).mockResolvedValue(3);
-    expect(await store.size()).toBe(3);
+  it('validates its LSH options', () => {
+    expect(() => new RedisVectorStore({ redis: redis as any, lsh: { bits: 31 } })).toThrow('lsh.bits');
+    expect(() => new RedisVectorStore({ redis: redis as any, lsh: { tables: 0 } })).toThrow('lsh.tables');
+    expect(() => new RedisVectorStore({ redis: redis as any, lsh: { maxCandidates: 0 } })).toThrow('lsh.maxCandidates');
   });
 
   it('does not close a shared (injected) connection on disconnect', async () => {
@@ -73,4 +248,17 @@ describe('RedisVectorStore (plain Redis, brute-force)', () => {
     await owned.disconnect();
     expect((redis.quit as jest.Mock)).toHaveBeenCalled();
   });
+
+  it('logs connection errors only on a client it created', () => {
+    const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+    expect(redis.on).not.toHaveBeenCalled(); // shared client from beforeEach
+
+    new RedisVectorStore({ redisOptions: {}, logger });
+    const [event, handler] = (redis.on as jest.Mock).mock.calls[0];
+    const error = new Error('ECONNREFUSED');
+    handler(error);
+
+    expect(event).toBe('error');
+    expect(logger.warn).toHaveBeenCalledWith('Redis vector store connection error:', { error });
+  });
 });
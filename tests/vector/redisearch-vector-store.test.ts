@@ -0,0 +1,242 @@
+jest.mock('ioredis', () => {
+  const mockRedis = {
+    call: jest.fn(),
+    hset: jest.fn(),
+    hgetall: jest.fn(),
+    hgetallBuffer: jest.fn(),
+    hdel: jest.fn(),
+    hlen: jest.fn(),
+    hkeys: jest.fn(),
+    keys: jest.fn(),
+    del: jest.fn(),
+    quit: jest.fn(),
+    on: jest.fn(),
+  };
+  return { Redis: jest.fn(() => mockRedis) };
+});
+
+import { Redis } from 'ioredis';
+import { RediSearchVectorStore } from '../../src/vector/redisearch-vector-store.js';
+import { RedisVectorStore, encodeVector } from '../../src/vector/redis-vector-store.js';
+import { VectorStore } from '../../src/vector/vector-store.js';
+import { silentLogger } from '../../src/utils/logger.js';
+
+const info = (dim: number, tags: string[]) => [
+  'index_name',
+  'ai-cache:vector-idx',
+  'attributes',
+  [
+    ['identifier', 'vector', 'attribute', 'vector', 'type', 'VECTOR', 'algorithm', 'HNSW', 'dim', String(dim)],
+    ...tags.map((tag) => ['identifier', tag, 'attribute', tag, 'type', 'TAG', 'SEPARATOR', ',']),
+  ],
+];
+const tags = ['provider', 'model', 'paramsHash', 'systemPromptHash', 'context', 'historyHash'];
+
+describe('RediSearchVectorStore', () => {
+  let redis: jest.Mocked<Redis>;
+  let call: jest.Mock;
+  let store: RediSearchVectorStore;
+
+  /** Answers FT.* commands; `index` is what FT.INFO reports (null = no index). */
+  const serve = (index: unknown[] | null, search: unknown[] = [0]) =>
+    call.mockImplementation(async (command: string) => {
+      if (command === 'FT._LIST') return [];
+      if (command === 'FT.INFO') {
+        if (!index) throw new Error('Unknown Index name');
+        return index;
+      }
+      if (command === 'FT.SEARCH') return search;
+      return 'OK';
+    });
+  const commands = () => call.mock.calls.map((args) => args[0]);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    redis = new Redis() as unknown as jest.Mocked<Redis>;
+    call = redis.call as unknown as jest.Mock;
+    store = new RediSearchVectorStore({ redis: redis as any, logger: silentLogger, efRuntime: 20 });
+  });
+
+  it('creates the index on first add and stores a FLOAT32 blob with tag fields', async () => {
+    serve(null);
+    await store.add('k1', [0.5, 0.25], { provider: 'openai', model: 'gpt-4', text: 'hi' });
+    await store.add('k2', [1, 0]);
+
+    expect(commands().filter((command) => command === 'FT.CREATE')).toHaveLength(1);
+    expect(call).toHaveBeenCalledWith(
+      'FT.CREATE',
+      'ai-cache:vector-idx',
+      'ON',
+      'HASH',
+      'PREFIX',
+      '1',
+      'ai-cache:vec:',
+      'SCHEMA',
+      'vector',
+      'VECTOR',
+      'HNSW',
+      '8',
+      'TYPE',
+      'FLOAT32',
+      'DIM',
+      '2',
+      'DISTANCE_METRIC',
+      'COSINE',
+      'EF_RUNTIME',
+      '20',
+      ...tags.flatMap((tag) => [tag, 'TAG'])
+    );
+    const [key, ...fields] = (redis.hset as jest.Mock).mock.calls[0];
+    expect(key).toBe('ai-cache:vec:k1');
+    expect(fields[0]).toBe('vector');
+    expect(Array.from(new Float32Array(new Uint8Array(fields[1]).buffer))).toEqual([0.5, 0.25]);
+    expect(fields.slice(2)).toEqual([
+      'meta',
+      JSON.stringify({ provider: 'openai', model: 'gpt-4', text: 'hi' }),
+      'provider',
+      'openai',
+      'model',
+      'gpt-4',
+    ]);
+  });
+
+  it('keeps a matching index and recreates one with another dimension or tags', async () => {
+    serve(info(2, tags));
+    await store.add('k1', [1, 0]);
+    expect(commands()).not.toContain('FT.CREATE');
+
+    serve(info(3, ['model']));
+    await store.add('k2', [1, 0, 0]);
+    expect(call).toHaveBeenCalledWith('FT.DROPINDEX', 'ai-cache:vector-idx');
+    expect(commands()).toContain('FT.CREATE');
+  });
+
+  it('runs a KNN query with tag prefilters and post-filters other fields', async () => {
+    serve(info(2, tags), [
+      2,
+      'ai-cache:vec:a',
+      ['__distance', '0.1', 'meta', JSON.stringify({ model: 'gpt-4.1', tenant: 't1' })],
+      'ai-cache:vec:b',
+      ['__distance', '0.2', 'meta', JSON.stringify({ model: 'gpt-4.1', tenant: 't2' })],
+    ]);
+
+    const results = await store.search([1, 0], 5, { model: 'gpt-4.1', tenant: 't1' });
+
+    expect(results).toEqual([{ id: 'a', score: expect.closeTo(0.9), meta: { model: 'gpt-4.1', tenant: 't1' } }]);
+    const query = call.mock.calls.find((args) => args[0] === 'FT.SEARCH')!;
+    expect(query[2]).toBe('(@model:{gpt\\-4\\.1})=>[KNN $K @vector $BLOB AS __distance]');
+    expect(query.slice(3, 7)).toEqual(['PARAMS', '4', 'K', '5']);
+    expect(query.slice(-2)).toEqual(['DIALECT', '2']);
+  });
+
+  it('returns nothing before the index exists and rejects another dimension', async () => {
+    serve(null);
+    expect(await store.search([1, 0], 3)).toEqual([]);
+    expect(await store.search([1, 0], 0)).toEqual([]);
+
+    serve(info(3, tags));
+    await expect(store.search([1, 0], 3)).rejects.toThrow('Vector has 2 dimensions; index ai-cache:vector-idx holds 3');
+  });
+
+  it('reads the schema once and again only when FT.SEARCH reports the index changed', async () => {
+    serve(info(2, tags));
+    await store.search([1, 0], 3);
+    await store.search([1, 0], 3);
+    expect(commands().filter((command) => command === 'FT.INFO')).toHaveLength(1);
+
+    // Dropped and recreated elsewhere, with the same dimension: re-read, then retried.
+    const search = jest.fn().mockRejectedValueOnce(new Error('Unknown Index name')).mockResolvedValue([0]);
+    call.mockImplementation(async (command: string) => (command === 'FT.SEARCH' ? search() : info(2, tags)));
+    expect(await store.search([1, 0], 3)).toEqual([]);
+    expect(search).toHaveBeenCalledTimes(2);
+    expect(commands().filter((command) => command === 'FT.INFO')).toHaveLength(2);
+
+    // Recreated with another dimension: the re-read schema rejects the query.
+    call.mockImplementation(async (command: string) => {
+      if (command === 'FT.SEARCH') throw new Error("query vector blob size (8) does not match index's expected size (12)");
+      return info(3, tags);
+    });
+    await expect(store.search([1, 0], 3)).rejects.toThrow('Vector has 2 dimensions; index ai-cache:vector-idx holds 3');
+
+    // An index this store created needs no FT.INFO to search.
+    store = new RediSearchVectorStore({ redis: redis as any, logger: silentLogger });
+    serve(null);
+    await store.add('k1', [1, 0]);
+    call.mockClear();
+    await store.search([1, 0], 3);
+    expect(commands()).toEqual(['FT.SEARCH']);
+  });
+
+  it('deletes, lists and clears the hashes under its prefix', async () => {
+    serve(info(2, tags));
+    (redis.keys as jest.Mock).mockResolvedValue(['ai-cache:vec:a', 'ai-cache:vec:b']);
+
+    await store.delete('a');
+    expect(redis.del).toHaveBeenCalledWith('ai-cache:vec:a');
+    expect(await store.ids()).toEqual(['a', 'b']);
+    expect(await store.size()).toBe(2);
+    await store.clear();
+    expect(redis.del).toHaveBeenLastCalledWith('ai-cache:vec:a', 'ai-cache:vec:b');
+  });
+
+  it('falls back to another store when the search module is missing', async () => {
+    call.mockRejectedValue(new Error("ERR unknown command 'FT._LIST', with args beginning with: "));
+    const fallback: jest.Mocked<VectorStore> = {
+      add: jest.fn(),
+      search: jest.fn().mockResolvedValue([{ id: 'a', score: 1 }]),
+      delete: jest.fn(),
+      clear: jest.fn(),
+      size: jest.fn().mockResolvedValue(1),
+    };
+    store = new RediSearchVectorStore({ redis: redis as any, logger: silentLogger, fallback });
+
+    await store.add('a', [1, 0]);
+    expect(fallback.add).toHaveBeenCalledWith('a', [1, 0], undefined);
+    expect(await store.search([1, 0], 1, { model: 'm' })).toEqual([{ id: 'a', score: 1 }]);
+    expect(fallback.search).toHaveBeenCalledWith([1, 0], 1, { model: 'm' });
+    expect(await store.ids()).toEqual([]);
+    expect(await store.isNative()).toBe(false);
+    // Probed once.
+    expect(call).toHaveBeenCalledTimes(1);
+
+    expect((new RediSearchVectorStore({ redis: redis as any }) as any).fallback).toBeInstanceOf(RedisVectorStore);
+    const strict = new RediSearchVectorStore({ redis: redis as any, logger: silentLogger, fallback: false });
+    await expect(strict.search([1, 0], 1)).rejects.toThrow('needs a Redis with the search module');
+  });
+
+  it('retries the probe after a connection error', async () => {
+    call.mockRejectedValueOnce(new Error('Connection is closed.'));
+    await expect(store.size()).rejects.toThrow('Connection is closed.');
+
+    serve(info(2, tags));
+    (redis.keys as jest.Mock).mockResolvedValue([]);
+    expect(await store.size()).toBe(0);
+  });
+
+  it('migrates packed and JSON vectors from a plain RedisVectorStore', async () => {
+    serve(null);
+    (redis.hgetallBuffer as jest.Mock).mockResolvedValue({
+      packed: encodeVector(Float32Array.from([0.6, 0.8]), 'float32'),
+      a: Buffer.from(JSON.stringify({ v: [1, 0], m: { model: 'gpt-4' } })),
+      legacy: Buffer.from(JSON.stringify([0, 1])),
+      broken: Buffer.from('{'),
+      unknown: Buffer.from([9, 0, 0, 0]),
+    });
+    (redis.hgetall as jest.Mock).mockResolvedValue({ packed: JSON.stringify({ model: 'gpt-4o' }) });
+
+    expect(await store.migrateFrom()).toBe(3);
+    expect(redis.hgetallBuffer).toHaveBeenCalledWith('ai-cache:vectors');
+    expect(redis.hgetall).toHaveBeenCalledWith('ai-cache:vectors:meta');
+    const writes = (redis.hset as jest.Mock).mock.calls;
+    expect(writes.map((args) => args[0])).toEqual(['ai-cache:vec:packed', 'ai-cache:vec:a', 'ai-cache:vec:legacy']);
+    expect(writes[0]).toEqual(expect.arrayContaining(['meta', JSON.stringify({ model: 'gpt-4o' }), 'model', 'gpt-4o']));
+  });
+
+  it('only closes a connection it created', async () => {
+    await store.disconnect();
+    expect(redis.quit).not.toHaveBeenCalled();
+
+    await new RediSearchVectorStore({ logger: silentLogger }).disconnect();
+    expect(redis.quit).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,47 @@
+// Runs against a real Redis with the search module when REDIS_STACK_URL is set, e.g.
+//   docker run --rm -p 6380:6379 redis/redis-stack-server
+//   REDIS_STACK_URL=redis://localhost:6380 npm test -- redisearch
+// and is skipped otherwise, so CI stays self-contained.
+import { Redis } from 'ioredis';
+import { RediSearchVectorStore } from '../../src/vector/redisearch-vector-store.js';
+import { silentLogger } from '../../src/utils/logger.js';
+
+const redisUrl = process.env.REDIS_STACK_URL;
+const describeWithRedisStack = redisUrl ? describe : describe.skip;
+
+describeWithRedisStack('RediSearchVectorStore (live Redis Stack)', () => {
+  const indexName = `vec-test-${process.pid}`;
+  const keyPrefix = `vec-test-${process.pid}:`;
+  let redis: Redis;
+  let store: RediSearchVectorStore;
+
+  beforeAll(() => {
+    const url = new URL(redisUrl!);
+    redis = new Redis({ host: url.hostname, port: Number(url.port || 6379), password: url.password || undefined });
+    store = new RediSearchVectorStore({ redis, indexName, keyPrefix, logger: silentLogger, fallback: false });
+  });
+
+  afterAll(async () => {
+    await store.clear();
+    await redis.call('FT.DROPINDEX', indexName).catch(() => undefined);
+    await redis.quit();
+  });
+
+  it('finds nearest neighbours within a tag filter', async () => {
+    await store.add('a', [1, 0, 0], { provider: 'openai', model: 'gpt-4' });
+    await store.add('b', [0.9, 0.1, 0], { provider: 'openai', model: 'gpt-4' });
+    await store.add('c', [1, 0, 0], { provider: 'openai', model: 'gpt-4o-mini' });
+
+    const results = await store.search([1, 0, 0], 2, { model: 'gpt-4' });
+    expect(results.map((result) => result.id)).toEqual(['a', 'b']);
+    expect(results[0].score).toBeCloseTo(1, 5);
+    expect(results[0].meta).toEqual({ provider: 'openai', model: 'gpt-4' });
+    expect(await store.size()).toBe(3);
+  });
+
+  it('recreates the index when the dimension changes', async () => {
+    await store.clear();
+    await store.add('d', [0, 1], { model: 'm' });
+    expect((await store.search([0, 1], 1))[0].id).toBe('d');
+  });
+});
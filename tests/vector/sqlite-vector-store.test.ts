@@ -0,0 +1,75 @@
+import Database from 'better-sqlite3';
+import { SqliteVectorStore } from '../../src/vector/sqlite-vector-store.js';
+import { SqliteStorage } from '../../src/storage/sqlite-storage.js';
+import { silentLogger } from '../../src/utils/logger.js';
+
+describe('SqliteVectorStore', () => {
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+  });
+
+  afterEach(() => db.close());
+
+  it('stores vectors as float32 BLOBs with their norm, meta and provider and model columns', async () => {
+    const store = new SqliteVectorStore({ db });
+
+    await store.add('k1', [3, 4], { provider: 'openai', model: 'gpt-4', text: 'hi' });
+    await store.add('k2', [1, 0]);
+    await store.add('k2', [0, 2]);
+
+    const rows = db.prepare('SELECT * FROM ai_cache_vectors ORDER BY id').all() as any[];
+    expect(rows).toHaveLength(2);
+    expect(Array.from(new Float32Array(new Uint8Array(rows[0].embedding).buffer))).toEqual([3, 4]);
+    expect(rows[0]).toEqual(expect.objectContaining({ norm: 5, provider: 'openai', model: 'gpt-4' }));
+    expect(JSON.parse(rows[0].meta)).toEqual({ provider: 'openai', model: 'gpt-4', text: 'hi' });
+    expect(rows[1]).toEqual(expect.objectContaining({ norm: 2, meta: null, provider: null, model: null }));
+  });
+
+  it('ranks by cosine similarity, narrowing by provider and model in SQL and other fields on meta', async () => {
+    const store = new SqliteVectorStore({ db });
+    await store.add('a', [1, 0], { provider: 'openai', model: 'gpt-4', paramsHash: 'x' });
+    await store.add('b', [0.6, 0.8], { provider: 'openai', model: 'gpt-4', paramsHash: 'x' });
+    await store.add('c', [1, 0], { provider: 'openai', model: 'gpt-4', paramsHash: 'y' });
+    await store.add('d', [1, 0], { provider: 'anthropic', model: 'claude' });
+    await store.add('other-dim', [1, 0, 0], { provider: 'openai', model: 'gpt-4', paramsHash: 'x' });
+    const prepare = jest.spyOn(db, 'prepare');
+
+    const results = await store.search([2, 0], 5, { provider: 'openai', model: 'gpt-4', paramsHash: 'x' });
+
+    expect(results.map(({ id }) => id)).toEqual(['a', 'b']);
+    expect(results[0].score).toBeCloseTo(1);
+    expect(results[1].score).toBeCloseTo(0.6);
+    expect(results[0].meta).toEqual({ provider: 'openai', model: 'gpt-4', paramsHash: 'x' });
+    expect(prepare).toHaveBeenCalledWith('SELECT id, embedding, norm, meta FROM ai_cache_vectors WHERE provider = ? AND model = ?');
+  });
+
+  it('scores zero vectors 0, searches unfiltered and skips topK 0', async () => {
+    const store = new SqliteVectorStore({ db });
+    await store.add('u', [0, 1]);
+    await store.add('zero', [0, 0]);
+
+    expect(await store.search([0, 1], 0)).toEqual([]);
+    expect(await store.search([0, 1], 2)).toEqual([
+      { id: 'u', score: 1, meta: undefined },
+      { id: 'zero', score: 0, meta: undefined },
+    ]);
+  });
+
+  it('deletes, clears, counts and lists ids, sharing a database with SqliteStorage', async () => {
+    const storage = new SqliteStorage({ db, purgeIntervalMs: 0, logger: silentLogger });
+    const store = new SqliteVectorStore({ db, table: 'vectors' });
+    await store.add('a', [1, 0]);
+    await store.add('b', [0, 1]);
+
+    expect(await store.size()).toBe(2);
+    expect((await store.ids()).sort()).toEqual(['a', 'b']);
+    await store.delete('a');
+    expect(await store.ids()).toEqual(['b']);
+    await store.clear();
+    expect(await store.size()).toBe(0);
+    expect(await storage.size()).toBe(0);
+    expect(() => new SqliteVectorStore({ db, table: 'a-b' })).toThrow('Invalid table name');
+  });
+});
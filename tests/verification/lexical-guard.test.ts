@@ -0,0 +1,56 @@
+import { lexicalMismatch } from '../../src/verification/lexical-guard.js';
+
+describe('lexicalMismatch', () => {
+  it('passes paraphrases that share their key content', () => {
+    expect(lexicalMismatch('What is the capital of France?', "what's France's capital")).toBeNull();
+    expect(lexicalMismatch("Don't use recursion for fib(30)", 'Do not use recursion for fib(30).')).toBeNull();
+    expect(lexicalMismatch('Summarise "Hamlet" in 100 words', 'Give me a 100 word summary of "Hamlet"')).toBeNull();
+  });
+
+  it('rejects different numbers', () => {
+    expect(lexicalMismatch('Top 5 cities in Spain', 'Top 10 cities in Spain')).toMatchObject({
+      check: 'numbers',
+      query: ['5'],
+      cached: ['10'],
+      reason: 'numbers differ: [5] vs [10]',
+    });
+    expect(lexicalMismatch('Population is 1,000,000', 'Population is 1000000')).toBeNull();
+  });
+
+  it('rejects different dates, with their digits left to the dates check', () => {
+    expect(lexicalMismatch('Events on 2024-03-01', 'Events on 2024-03-02')?.check).toBe('dates');
+    expect(lexicalMismatch('Weather on March 3rd', 'Weather on March 4th')?.check).toBe('dates');
+    expect(lexicalMismatch('Weather today', 'Weather tomorrow')?.check).toBe('dates');
+    expect(lexicalMismatch('May I ask something?', 'Can I ask something?')).toBeNull();
+  });
+
+  it('rejects different quoted strings', () => {
+    expect(lexicalMismatch('Translate "good morning"', 'Translate "good night"')?.check).toBe('quoted');
+  });
+
+  it('rejects different named entities, ignoring case and sentence starters', () => {
+    const mismatch = lexicalMismatch('What is the capital of France?', 'What is the capital of Germany?');
+    expect(mismatch).toMatchObject({ check: 'entities', query: ['france'], cached: ['germany'] });
+    expect(lexicalMismatch('Paris hotels', 'Berlin hotels')?.check).toBe('entities');
+    expect(lexicalMismatch('capital of france', 'Capital of France')).toBeNull();
+  });
+
+  it('rejects different code identifiers', () => {
+    expect(lexicalMismatch('What does getUserById do', 'What does getUserByName do')?.check).toBe('identifiers');
+    expect(lexicalMismatch('explain max_tokens', 'explain max_retries')?.check).toBe('identifiers');
+    expect(lexicalMismatch('how to use fs.readFile', 'how to use fs.writeFile')?.check).toBe('identifiers');
+  });
+
+  it('rejects a negated query against an affirmative one', () => {
+    expect(lexicalMismatch('recipes with nuts', 'recipes without nuts')).toMatchObject({
+      check: 'negation',
+      reason: 'negation differ: [] vs [without]',
+    });
+    expect(lexicalMismatch('should I use var', "should I never use var")?.check).toBe('negation');
+    expect(lexicalMismatch("it isn't safe", 'it is not safe')).toBeNull();
+  });
+
+  it('only runs the requested checks', () => {
+    expect(lexicalMismatch('Top 5 cities', 'Top 10 cities', ['entities', 'negation'])).toBeNull();
+  });
+});
@@ -0,0 +1,54 @@
+import { CrossEncoderVerifier, logitsToScores } from '../../src/verification/cross-encoder.js';
+import { MockVerifier } from '../../src/verification/mock.js';
+
+describe('MockVerifier', () => {
+  it('passes identical texts and rejects others by default', async () => {
+    const verifier = new MockVerifier();
+    expect(await verifier.score('a', ['a', 'b'])).toEqual([1, 0]);
+  });
+
+  it('honours pinned pair scores and a default score', async () => {
+    const verifier = new MockVerifier({ scores: { 'q\nc1': 0.7 }, defaultScore: 0.2 });
+    expect(await verifier.score('q', ['c1', 'c2'])).toEqual([0.7, 0.2]);
+  });
+});
+
+describe('CrossEncoderVerifier', () => {
+  it('exposes a stable id derived from the model', () => {
+    expect(new CrossEncoderVerifier().id).toBe('cross-encoder:Xenova/ms-marco-MiniLM-L-6-v2');
+    expect(new CrossEncoderVerifier({ model: 'Xenova/foo' }).id).toBe('cross-encoder:Xenova/foo');
+  });
+
+  it('scores no candidates without loading the model', async () => {
+    expect(await new CrossEncoderVerifier().score('q', [])).toEqual([]);
+  });
+
+  it('throws a helpful error when the optional dependency is absent', async () => {
+    // Same as LocalEmbeddingProvider: skip rather than download a model mid-test.
+    let installed = false;
+    try {
+      await import('@xenova/transformers');
+      installed = true;
+    } catch {
+      /* not installed — expected in CI */
+    }
+    if (installed) return;
+
+    await expect(new CrossEncoderVerifier().score('q', ['c'])).rejects.toThrow('@xenova/transformers');
+  });
+});
+
+describe('logitsToScores', () => {
+  it('applies a sigmoid to single relevance logits', () => {
+    const [high, zero, low] = logitsToScores([4, 0, -4], 3);
+    expect(high).toBeGreaterThan(0.98);
+    expect(zero).toBeCloseTo(0.5);
+    expect(low).toBeLessThan(0.02);
+  });
+
+  it('takes the positive class of a two-class head', () => {
+    const [same, different] = logitsToScores([-2, 2, 2, -2], 2);
+    expect(same).toBeGreaterThan(0.98);
+    expect(different).toBeLessThan(0.02);
+  });
+});